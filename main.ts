@@ -1,4 +1,5 @@
 import * as cheerio from 'cheerio';
+import { AnyNode, Element, isTag, isText } from 'domhandler';
 import {
 	App,
 	Editor,
@@ -8,10 +9,23 @@ import {
 	PluginSettingTab,
 	Setting,
 	requestUrl,
+	RequestUrlResponse,
 	Modal,
 	ButtonComponent,
 	TFile,
 	TAbstractFile,
+	ItemView,
+	WorkspaceLeaf,
+	ExtraButtonComponent,
+	DropdownComponent,
+	TextComponent,
+	getAllTags,
+	debounce,
+	normalizePath,
+	moment,
+	parseYaml,
+	stringifyYaml,
+	arrayBufferToBase64,
 } from "obsidian";
 
 
@@ -22,8 +36,23 @@ interface LinkArchiverSettings {
   scrapePageTitles: boolean;
   autoPickLatestArchive: boolean;
   dividerText: string;
+  // Where archive links are written (see ArchivePlacement)
+  archivePlacement: ArchivePlacement;
+  // Tag inserted archive links with ARCHIVE_LINK_MARKER
+  markArchiveLinks: boolean;
+  // Output template (see renderArchiveTemplate)
+  useCustomFormat: boolean;
+  customFormat: string;
+  // Keep <a> tags as HTML instead of applying the template
+  respectOriginalFormat: boolean;
   archiveText: string; // New setting for custom archive text
-  archiveSite: string;
+  // Archive services to query, in priority order
+  archiveServices: string[];
+  // Memento archives added in settings, each served by a MementoProvider
+  mementoArchives: MementoArchiveConfig[];
+  // Self-hosted backends added in settings, each served by a SelfHostedProvider
+  selfHostedArchives: SelfHostedArchiveConfig[];
+  queryServicesInParallel: boolean;
   preserveMarkdownLinks: boolean;
   confirmNoteArchiving: boolean;
   requireTimestamps: boolean;
@@ -42,8 +71,111 @@ interface LinkArchiverSettings {
   // Title cache settings
   enableTitleCache: boolean;
   titleFetchTimeout: number;
+  // Lookup cache settings (TTLs in hours)
+  persistCache: boolean;
+  archiveCacheTtlHours: number;
+  archiveCacheNegativeTtlHours: number;
+  archiveCacheMaxEntries: number;
+  titleCacheTtlHours: number;
+  titleCacheMaxEntries: number;
+  // Save Page Now (SPN2) settings
+  useSavePageNowApi: boolean;
+  spnAccessKey: string;
+  spnSecretKey: string;
+  queueCapturesForMissing: boolean;
+  // Show batch changes for review before writing them
+  previewBatchChanges: boolean;
+  // Resumable vault job settings
+  autoResumeArchiveJobs: boolean;
+  rateLimitCooldownMinutes: number;
+  // Vault-wide link index file (see saveLinkIndex)
+  maintainLinkIndex: boolean;
+  linkIndexPath: string;
+  // Link health settings (see checkLinkHealth)
+  checkLinkHealth: boolean;
+  autoSwapDeadLinks: boolean;
+  // Snapshots older than this many days are refreshed by the stale archive link commands
+  staleSnapshotDays: number;
+  // Local copies saved into the vault (see saveLocalCopy)
+  localCopyFolder: string;
+  localCopyFormat: LocalCopyFormat;
+  localCopyFallback: boolean;
+  // Folder for clip notes (see createClipNote)
+  clipFolder: string;
 }
 
+// A Memento (RFC 7089) archive or aggregator. The original URL is appended to each prefix; at least one is set.
+interface MementoArchiveConfig {
+	name: string;
+	// e.g. https://timetravel.mementoweb.org/timemap/link/
+	timeMapUrl: string;
+	// Asked for the newest memento when there's no TimeMap or it lists nothing
+	timeGateUrl: string;
+}
+
+// A self-hosted archive the team runs itself. Lookups and captures go through the backend's API.
+interface SelfHostedArchiveConfig {
+	kind: SelfHostedArchiveKind;
+	name: string;
+	// e.g. https://archivebox.example.com, without a trailing slash
+	baseUrl: string;
+	// ArchiveBox API token, Wallabag OAuth access token, or a token for a proxy in front of pywb. Sent as a Bearer token.
+	apiToken: string;
+	// pywb collection name; unused by the other kinds
+	collection: string;
+}
+
+type SelfHostedArchiveKind = "archivebox" | "pywb" | "wallabag";
+
+// A snapshot as listed by ArchiveBox's /api/v1/core/snapshots
+interface ArchiveBoxSnapshot {
+	url?: string;
+	// Unix seconds, e.g. "1705311000.123"
+	timestamp?: string;
+	title?: string | null;
+}
+
+// One line of pywb's CDX index with output=json
+interface PywbCdxRow {
+	timestamp?: string;
+	// HTTP status of the capture, "-" for revisits
+	status?: string;
+}
+
+// A Wallabag entry as returned by /api/entries
+interface WallabagEntry {
+	id?: number;
+	created_at?: string;
+	title?: string | null;
+}
+
+// Save Page Now's answer to a capture request (job_id) or a status check (the rest)
+interface SavePageNowResponse {
+	job_id?: string;
+	status?: "pending" | "success" | "error";
+	// 14-digit Wayback timestamp of the finished snapshot
+	timestamp?: string;
+	original_url?: string;
+	message?: string;
+	status_ext?: string;
+}
+
+// A single HTML file with styles and images inlined, or the page's main content as a markdown note
+type LocalCopyFormat = "html" | "markdown";
+
+const SELF_HOSTED_ARCHIVE_KINDS: Record<SelfHostedArchiveKind, string> = {
+	archivebox: "ArchiveBox",
+	pywb: "pywb",
+	wallabag: "Wallabag"
+};
+
+// Inline puts the archive link right after the original link; footnote adds a numbered footnote
+// reference there and the archive link in the footnote; frontmatter records it in the note's archives: map
+type ArchivePlacement = "inline" | "footnote" | "frontmatter";
+
+// Settings that hold a plain number, for the shared number input in the settings tab
+type NumericSettingKey = { [K in keyof LinkArchiverSettings]: LinkArchiverSettings[K] extends number ? K : never }[keyof LinkArchiverSettings];
+
 const DEFAULT_SETTINGS: LinkArchiverSettings = {
   showRibbonIcon: true,
   useNakedUrls: false,
@@ -52,8 +184,16 @@ const DEFAULT_SETTINGS: LinkArchiverSettings = {
   autoPickLatestArchive: true,
   maxSnapshots: 5,
   dividerText: " | ",
+  archivePlacement: "inline",
+  markArchiveLinks: false,
+  useCustomFormat: false,
+  customFormat: "{original} | {archived}",
+  respectOriginalFormat: true,
   archiveText: "(archive)", // Default archive text
-  archiveSite: "web.archive.org",
+  archiveServices: ["web.archive.org", "ghostarchive.org"],
+  mementoArchives: [],
+  selfHostedArchives: [],
+  queryServicesInParallel: false,
   preserveMarkdownLinks: true,
   confirmNoteArchiving: true,
   requireTimestamps: true,
@@ -68,16 +208,323 @@ const DEFAULT_SETTINGS: LinkArchiverSettings = {
   targetFilesWithTags: [],
   // Default reporting settings
   detailedReporting: true,
+  previewBatchChanges: false,
   // Default title cache settings
   enableTitleCache: true,
   titleFetchTimeout: 10000, // 10 seconds
+  // Default lookup cache settings
+  persistCache: true,
+  archiveCacheTtlHours: 7 * 24, // 1 week
+  archiveCacheNegativeTtlHours: 6,
+  archiveCacheMaxEntries: 5000,
+  titleCacheTtlHours: 24,
+  titleCacheMaxEntries: 500,
+  // Default Save Page Now settings
+  useSavePageNowApi: false,
+  spnAccessKey: "",
+  spnSecretKey: "",
+  queueCapturesForMissing: false,
+  // Default resumable vault job settings
+  autoResumeArchiveJobs: true,
+  rateLimitCooldownMinutes: 15,
+  // Default link index settings
+  maintainLinkIndex: false,
+  linkIndexPath: "Link Archive Index.md",
+  // Default link health settings
+  checkLinkHealth: false,
+  autoSwapDeadLinks: false,
+  // Default snapshot freshness
+  staleSnapshotDays: 365,
+  localCopyFolder: "Link Archive/Local copies",
+  localCopyFormat: "html",
+  localCopyFallback: false,
+  clipFolder: "Link Archive/Clips",
 };
 
-const ARCHIVE_SITES = {
-  "ghostarchive.org": "https://ghostarchive.org",
-  "web.archive.org": "https://web.archive.org/web"
+const HOUR_MS = 60 * 60 * 1000;
+
+// Persisted lookup cache, stored next to data.json in the plugin folder
+const CACHE_FILE_NAME = "archive-cache.json";
+// Unfinished vault archiving job, stored next to data.json in the plugin folder
+const JOB_FILE_NAME = "archive-job.json";
+// Links waiting for a capture, stored next to data.json in the plugin folder
+const CAPTURE_QUEUE_FILE_NAME = "capture-queue.json";
+// Journal of lines written by batch runs, for "Undo last archive run"
+const UNDO_FILE_NAME = "undo-journal.json";
+// How many batch runs the undo journal remembers
+const MAX_UNDO_RUNS = 10;
+// Sidebar view listing the links of the active note
+const LINK_ARCHIVE_VIEW_TYPE = "link-archive-view";
+// Vault-wide link dashboard
+const LINK_DASHBOARD_VIEW_TYPE = "link-archive-dashboard";
+// Rows the dashboard draws at once; filters narrow the rest down
+const MAX_DASHBOARD_ROWS = 500;
+// Links per note behind the link index file, stored next to data.json in the plugin folder
+const LINK_INDEX_FILE_NAME = "link-index.json";
+// Written right after an inserted archive link, so it can be found whatever the divider
+const ARCHIVE_LINK_MARKER = "<!--archived-link-->";
+// Tags a dead link swapped to its archive: the archive link comes first and the original follows it
+const DEAD_LINK_MARKER = "<!--dead-link-->";
+const ORIGINAL_LINK_TEXT = "(original)";
+// Link text of a local copy saved in the vault, written in place of the archive link text
+const LOCAL_COPY_TEXT = "(local copy)";
+// Local copies are named "<host> <key> <YYYYMMDDHHmmss>.<ext>", see getLocalCopyKey. A second copy saved
+// within the same second gets "-2" and so on after the timestamp.
+const LOCAL_COPY_FILE_NAME = / ([0-9a-f]{8}) (\d{14})(?:-\d+)?\.(html|md)$/;
+// Alias of the link to a clip note, written after the archive link it was clipped from
+const CLIP_LINK_TEXT = "clip";
+// The clip link as written after an archive link, " ([[path|clip]])", with the pipe escaped in table rows
+const CLIP_LINK_PATTERN = new RegExp(`^ \\(\\[\\[[^\\]|]+?\\\\?\\|${CLIP_LINK_TEXT}\\]\\]\\)`);
+// Stylesheets and images bigger than this stay linked instead of being inlined into an HTML copy
+const LOCAL_COPY_MAX_RESOURCE_BYTES = 5 * 1024 * 1024;
+// Date format for {timestamp} when the template doesn't give one
+const DEFAULT_TIMESTAMP_FORMAT = "YYYY-MM-DD";
+// Footnote placement: [^a1] right after the link, and "[^a1]: Archived at ..." at the end of the note
+const ARCHIVE_FOOTNOTE_REFERENCE = /^ ?\[\^(a\d+)\]/;
+const ARCHIVE_FOOTNOTE_DEFINITION = /^\[\^(a\d+)\]: Archived at /;
+// Frontmatter placement: map of original URL to FrontmatterArchiveEntry
+const FRONTMATTER_ARCHIVES_KEY = "archives";
+
+// Mirrors served by ArchiveTodayProvider
+const ARCHIVE_TODAY_DOMAINS = ['archive.ph', 'archive.today', 'archive.li', 'archive.md', 'archive.is', 'archive.vn'];
+
+interface ArchiveSnapshot {
+	url: string;
+	timestamp: string;
+	title?: string;
+	// Name of the provider the snapshot came from
+	service?: string;
+}
+
+// Contract for an archive service. Everything the plugin needs to know about a
+// service lives in its provider, so adding one is a single registerArchiveProvider() call.
+interface ArchiveProvider {
+	// Settings value and rate limiter key, e.g. "web.archive.org"
+	readonly id: string;
+	// Human-readable name used in notices and error messages
+	readonly name: string;
+	readonly baseUrl: string;
+	// Hostnames this service serves archive pages from
+	readonly domains: string[];
+	// Default minimum delay between requests, in milliseconds
+	readonly rateLimitDelay: number;
+	// Existing snapshots of originalUrl, newest first. May throw; errors are classified by the caller.
+	getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]>;
+	// Page the user opens in a browser to create a new snapshot
+	getSaveUrl(originalUrl: string): string;
+	// True for any URL hosted by this service
+	isArchiveUrl(url: string): boolean;
+	// True only for URLs that point at an actual snapshot
+	isSnapshotUrl(url: string): boolean;
+	// Strip service branding from the <title> of a snapshot page
+	cleanTitle(title: string): string;
+	// Page listing or showing the snapshots of originalUrl, opened in a browser when a lookup needs a CAPTCHA
+	getLookupUrl?(originalUrl: string): string;
+	// Create a new snapshot without a browser and resolve to its URL. Only services with a capture API have this.
+	capture?(originalUrl: string): Promise<string>;
+	// The snapshot as originally captured, without the service's banner or rewritten links, for reading its content
+	getRawSnapshotUrl?(snapshotUrl: string): string;
+}
+
+// Outcome of looking a URL up across the enabled archive services
+interface ArchiveLookupResult {
+	foundArchive: boolean;
+	archivedUrl?: string;
+	snapshots?: ArchiveSnapshot[];
+	// Name of the provider archivedUrl came from
+	service?: string;
+	rateLimited?: boolean;
+	// Ids of services that asked for a CAPTCHA instead of answering; they may still have a snapshot
+	captchaRequired?: string[];
+}
+
+// A link found on a line, with where it sits in that line
+interface LineLink {
+	originalUrl: string;
+	displayText: string;
+	fullMatch: string;
+	isNaked: boolean;
+	// Character offsets of fullMatch in the line
+	start: number;
+	end: number;
+	// Reference definition ([ref]: url); can't take an archive link without breaking the reference
+	isReference?: boolean;
+}
+
+// Values for the output template placeholders
+interface ArchiveTemplateValues {
+	// Original and archive link as the format settings would write them
+	original: string;
+	archived: string;
+	title: string;
+	url: string;
+	archiveUrl: string;
+	service: string;
+	domain: string;
+	// Raw snapshot timestamp; formatted by {timestamp:FORMAT}
+	timestamp: string;
+}
+
+// Block-level markdown context of a line, from classifyMarkdownLines
+type LineContext = "text" | "frontmatter" | "code" | "math" | "comment";
+
+// A link and the archive link the plugin wrote after it, if any
+interface ArchivedLinkPair {
+	link: LineLink;
+	companion: LineLink | null;
+	// End of the divider plus archive link (and a closing parenthesis the divider opened,
+	// or the marker); removing link.end..companionEnd takes the archive link out cleanly
+	companionEnd: number;
+	// Whether the companion carries ARCHIVE_LINK_MARKER or DEAD_LINK_MARKER
+	marked: boolean;
+	// Dead link swap: link is the archive link and companion the original it replaced
+	swapped?: boolean;
+	// Footnote placement: label of the archive footnote referenced after the link (companionEnd
+	// then ends after the reference)
+	footnote?: string;
+	// Frontmatter placement: the note's archives: map has this link
+	inFrontmatter?: boolean;
+}
+
+// One entry of the frontmatter archives: map
+interface FrontmatterArchiveEntry {
+	url: string;
+	timestamp?: string;
+}
+
+// A link in a note, with the archive link the plugin wrote for it in whichever placement
+interface NoteLink {
+	link: LineLink;
+	// Zero-based line number
+	line: number;
+	context: LineContext;
+	// Set when the link has an archive link
+	placement?: ArchivePlacement;
+	archiveUrl?: string;
+	// Snapshot date recorded in the archive footnote or frontmatter entry
+	timestamp?: string;
+}
+
+// Archive status of a NoteLink, as shown in the link views. Code covers every non-prose context.
+type LinkArchiveStatus = "archived" | "unarchived" | "archiveOnly" | "code";
+
+// One link in the vault dashboard
+interface DashboardLink {
+	file: TFile;
+	noteLink: NoteLink;
+	status: LinkArchiveStatus;
+	domain: string;
+	tags: string[];
+	// Snapshot time (ms since epoch), when known
+	captured: number | null;
+}
+
+// What the link index records for one note
+interface LinkIndexNote {
+	links: Array<{ url: string, archiveUrl?: string, timestamp?: string }>;
+}
+
+// One original URL in the link index file
+interface LinkIndexEntry {
+	snapshots: Array<{ url: string, service?: string, captured?: string }>;
+	notes: string[];
+	lastChecked?: string;
+}
+
+// What requesting an original URL showed: notFound is a 404 or 410, soft404 a page that loads but says the
+// content is gone (or sends you to the home page), domainGone a host that no longer resolves
+type LinkHealthStatus = "alive" | "redirected" | "notFound" | "soft404" | "domainGone" | "unreachable";
+
+interface LinkHealthResult {
+	status: LinkHealthStatus;
+	httpStatus?: number;
+	// Where the link redirects to, or what gave a soft 404 away
+	detail?: string;
+	checkedAt: number;
+}
+
+// Statuses a dead link swap is offered for
+const DEAD_LINK_STATUSES: LinkHealthStatus[] = ["notFound", "soft404", "domainGone"];
+
+const LINK_HEALTH_LABELS: Record<LinkHealthStatus, string> = {
+	alive: "Alive",
+	redirected: "Redirected",
+	notFound: "Not found",
+	soft404: "Soft 404",
+	domainGone: "Domain gone",
+	unreachable: "Unreachable"
 };
 
+// Page titles that give away a "not found" page served with a 200
+const SOFT_404_TITLE = /\b(404|page not found|not found|no longer available|does not exist|doesn't exist)\b/i;
+
+// An archive link whose snapshot is older than the freshness policy allows
+interface StaleArchiveLink {
+	file: string;
+	// Zero-based line of the original link
+	line: number;
+	url: string;
+	archiveUrl: string;
+	placement: NonNullable<NoteLink["placement"]>;
+	// Capture time of archiveUrl (ms since epoch)
+	captured: number;
+}
+
+// Skip categories shown in archive reports
+type SkipCategory = "alreadyArchived" | "isArchiveUrl" | "unsupported" | "noSnapshots" | "errors" | "rateLimited";
+
+// One link waiting in (or processed by) the archive queue
+interface ArchiveJobItem {
+	file: string;
+	// Zero-based line number when the item was queued
+	line: number;
+	url: string;
+	status: "pending" | "archived" | "skipped";
+	skipCategory?: SkipCategory;
+	reason?: string;
+	archiveUrl?: string;
+	service?: string;
+	// Snapshot timestamp of archiveUrl
+	timestamp?: string;
+	// Check whether the original URL still resolves once the links are archived
+	checkHealth?: boolean;
+	health?: LinkHealthResult;
+	// Preview mode: nothing is written; the archive links found are offered for review when the queue finishes
+	dryRun?: boolean;
+}
+
+// A single line rewrite proposed by a batch command
+interface ProposedLineChange {
+	file: string;
+	// Zero-based line number
+	line: number;
+	oldLine: string;
+	newLine: string;
+}
+
+// Lines written by one batch run, kept so the run can be undone
+interface UndoRun {
+	id: string;
+	label: string;
+	createdAt: number;
+	changes: ProposedLineChange[];
+}
+
+// Background archive queue, persisted so it can resume after a rate limit or a restart
+interface ArchiveJob {
+	id: string;
+	createdAt: number;
+	// Command that started the queue, used for the final report
+	kind?: "note" | "vault";
+	status: "running" | "paused" | "completed" | "cancelled";
+	// When a rate-limited job may continue (ms since epoch)
+	resumeAt?: number;
+	// Paused from a command; never resumed automatically
+	pausedByUser?: boolean;
+	items: ArchiveJobItem[];
+	excludedFiles: Array<{ path: string, reason: string }>;
+}
+
 // Error classification for archive services
 enum ArchiveErrorType {
 	RATE_LIMITED = "rate_limited",
@@ -94,22 +541,264 @@ interface ArchiveError {
 	serviceName: string;
 }
 
+// True while an item still waits for its link health check
+function needsHealthCheck(item: ArchiveJobItem): boolean {
+	return !!item.checkHealth && !item.health && item.skipCategory !== "isArchiveUrl";
+}
+
+// Counts shown in the status bar and the queue view. Only errors count as failed; other skips are expected.
+function getArchiveJobCounts(job: ArchiveJob): { pending: number, done: number, failed: number } {
+	const counts = { pending: 0, done: 0, failed: 0 };
+	for (const item of job.items) {
+		if (item.status === "pending" || needsHealthCheck(item)) {
+			counts.pending++;
+		} else if (item.skipCategory === "errors") {
+			counts.failed++;
+		} else {
+			counts.done++;
+		}
+	}
+	return counts;
+}
+
+// In a table row (also inside quotes and callouts) a bare pipe separates cells
+function isTableRow(line: string): boolean {
+	return /^(\s*>)*\s*\|/.test(line);
+}
+
+// A naked URL without the punctuation after it: sentence and list punctuation, and closing parentheses
+// that close text around the URL rather than a pair inside it, as in "(see https://example.com/page)."
+function trimNakedUrl(url: string): string {
+	let trimmed = url.replace(/[.,;:!?]+$/, '');
+	while (trimmed.endsWith(")") && trimmed.split(")").length > trimmed.split("(").length) {
+		trimmed = trimmed.slice(0, -1).replace(/[.,;:!?]+$/, '');
+	}
+	return trimmed;
+}
+
+// Text written into a table cell, with bare pipes escaped so the cell stays whole
+function escapeTablePipes(text: string): string {
+	return text.replace(/(?<!\\)\|/g, "\\|");
+}
+
+// Length of the clip link starting at index in line, or 0 when there's none
+function getClipLinkLength(line: string, index: number): number {
+	return line.slice(index).match(CLIP_LINK_PATTERN)?.[0].length || 0;
+}
+
+// True when the link already has an archive link, in any placement
+function hasArchiveLink(pair: ArchivedLinkPair): boolean {
+	return !!(pair.companion || pair.footnote || pair.inFrontmatter);
+}
+
+// True for an http(s) URL that parses, as archive service URLs from settings must
+function isHttpUrl(url: string): boolean {
+	try {
+		return /^https?:$/.test(new URL(url).protocol);
+	} catch {
+		return false;
+	}
+}
+
+// Where a change's oldLine sits in lines, or -1. Changes to footnotes and frontmatter span
+// several lines; their oldLine and newLine hold the lines joined with \n. Unless strict, a change
+// whose line moved is found by searching for its content.
+function findChangeLine(lines: string[], change: ProposedLineChange, strict = false): number {
+	const count = change.oldLine.split('\n').length;
+	const matchesAt = (index: number) => lines.slice(index, index + count).join('\n') === change.oldLine;
+	if (matchesAt(change.line)) {
+		return change.line;
+	}
+	return strict ? -1 : lines.findIndex((_, index) => matchesAt(index));
+}
+
+// Mementos listed in a link-format TimeMap or Link header (RFC 7089), newest first. Timestamps are 14-digit,
+// taken from the memento URL or its datetime.
+function parseLinkFormatMementos(text: string): ArchiveSnapshot[] {
+	const snapshots: ArchiveSnapshot[] = [];
+	// <url>; rel="first memento"; datetime="Sun, 01 Jan 2023 00:00:00 GMT", <url>; ...
+	for (const match of text.matchAll(/<([^>]+)>([^<]*)/g)) {
+		const params = match[2];
+		const rel = params.match(/rel="?([^";]+)"?/i)?.[1] || "";
+		if (!rel.split(/\s+/).includes("memento")) {
+			continue;
+		}
+		const datetime = params.match(/datetime="([^"]+)"/i)?.[1];
+		const parsed = datetime ? moment.utc(new Date(datetime)) : null;
+		const timestamp = match[1].match(/\/(\d{14})[a-z_]*\//)?.[1] ||
+			(parsed && parsed.isValid() ? parsed.format("YYYYMMDDHHmmss") : "");
+		if (!snapshots.some(snapshot => snapshot.url === match[1])) {
+			snapshots.push({ url: match[1], timestamp });
+		}
+	}
+	return snapshots.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+// Short, stable key for a URL, written into local copy file names so the copies of a page can be found by name
+function getLocalCopyKey(url: string): string {
+	// 32-bit FNV-1a
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < url.length; i++) {
+		hash ^= url.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// The main content of a page as markdown, with the details a readable copy records about it
+interface ReadablePage {
+	title: string;
+	author: string;
+	siteName: string;
+	markdown: string;
+}
+
+// Pick the article out of a page: the largest article/main container once navigation, ads and scripts are gone.
+// Relative links and images are resolved against pageUrl.
+function extractReadablePage(html: string, pageUrl: string): ReadablePage {
+	const $ = cheerio.load(html);
+	const meta = (selector: string) => ($(selector).first().attr("content") || "").trim();
+
+	const title = (meta('meta[property="og:title"]') || meta('meta[name="title"]') ||
+		$("h1").first().text() || $("title").first().text()).replace(/\s+/g, " ").trim();
+	// article:author is often a profile URL rather than a name
+	const articleAuthor = meta('meta[property="article:author"]');
+	const author = meta('meta[name="author"]') || (/^https?:/.test(articleAuthor) ? "" : articleAuthor) ||
+		$('[itemprop="author"] [itemprop="name"], [itemprop="author"], [rel="author"], .byline, .author').first().text().trim().replace(/\s+/g, " ");
+	let siteName = meta('meta[property="og:site_name"]') || meta('meta[name="application-name"]');
+	if (!siteName) {
+		try {
+			siteName = new URL(pageUrl).hostname.replace(/^www\./, '');
+		} catch {
+			// Leave it empty
+		}
+	}
+
+	$("script, style, noscript, template, iframe, svg, canvas, form, button, input, select, textarea, nav, aside, footer, " +
+		'[role="navigation"], [role="banner"], [role="complementary"], [aria-hidden="true"], [hidden], ' +
+		".advertisement, .ad, .ads, .share, .social, .related, .comments, #comments, .newsletter, .cookie-banner").remove();
+	$("body > header, article header nav").remove();
+
+	let root = $("body").first();
+	let rootLength = 0;
+	$('article, main, [role="main"], [itemprop="articleBody"], .post-content, .entry-content, .article-body, #content').each((_, element) => {
+		const length = $(element).text().trim().length;
+		if (length > rootLength) {
+			root = $(element);
+			rootLength = length;
+		}
+	});
+
+	const markdown = renderMarkdown($, root.contents().toArray(), pageUrl)
+		.replace(/[ \t]+\n/g, "\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+	return { title, author, siteName, markdown };
+}
+
+// Markdown for a run of HTML nodes. Covers what articles use; anything else contributes its text.
+function renderMarkdown($: cheerio.CheerioAPI, nodes: AnyNode[], pageUrl: string): string {
+	const resolve = (url: string | undefined) => {
+		try {
+			return url ? new URL(url, pageUrl).href : "";
+		} catch {
+			return url || "";
+		}
+	};
+	const inner = (node: Element) => renderMarkdown($, node.children, pageUrl);
+	const block = (text: string) => text.trim() ? `\n\n${text.trim()}\n\n` : "";
+	// Emphasis marks go inside the surrounding spaces, or markdown won't read them
+	const emphasize = (text: string, mark: string) => text.trim() ?
+		text.replace(/^(\s*)([\s\S]*?)(\s*)$/, `$1${mark}$2${mark}$3`) : text;
+
+	let output = "";
+	for (const node of nodes) {
+		if (isText(node)) {
+			output += node.data.replace(/\s+/g, " ");
+			continue;
+		}
+		if (!isTag(node)) {
+			continue;
+		}
+
+		const tag = node.tagName.toLowerCase();
+		const element = $(node);
+		switch (tag) {
+			case "h1": case "h2": case "h3": case "h4": case "h5": case "h6":
+				output += block(`${"#".repeat(parseInt(tag.charAt(1), 10))} ${inner(node).replace(/\s+/g, " ").trim()}`);
+				break;
+			case "p": case "div": case "section": case "article": case "main": case "header": case "figure":
+				output += block(inner(node));
+				break;
+			case "figcaption":
+				output += block(`*${inner(node).trim()}*`);
+				break;
+			case "br":
+				output += "  \n";
+				break;
+			case "hr":
+				output += block("---");
+				break;
+			case "strong": case "b":
+				output += emphasize(inner(node), "**");
+				break;
+			case "em": case "i":
+				output += emphasize(inner(node), "*");
+				break;
+			case "code":
+				output += `\`${element.text()}\``;
+				break;
+			case "pre":
+				output += block("```\n" + element.text().replace(/\n+$/, "") + "\n```");
+				break;
+			case "a": {
+				const text = inner(node).trim();
+				const href = resolve(element.attr("href"));
+				output += href && text && !href.startsWith("javascript:") ? `[${text}](${href})` : text;
+				break;
+			}
+			case "img": {
+				const src = resolve(element.attr("src") || element.attr("data-src"));
+				output += src && !src.startsWith("data:") ? `![${(element.attr("alt") || "").replace(/[\[\]]/g, "")}](${src})` : "";
+				break;
+			}
+			case "blockquote":
+				output += block(inner(node).trim().split("\n").map(line => `> ${line}`).join("\n"));
+				break;
+			case "ul": case "ol": {
+				const items = element.children("li").toArray().map((item, index) => {
+					const bullet = tag === "ol" ? `${index + 1}.` : "-";
+					const text = renderMarkdown($, item.children, pageUrl).replace(/\n{2,}/g, "\n").trim();
+					return `${bullet} ${text.split("\n").join("\n   ")}`;
+				});
+				output += block(items.join("\n"));
+				break;
+			}
+			case "table": {
+				const rows = element.find("tr").toArray().map(row =>
+					$(row).children("th, td").toArray().map(cell => $(cell).text().replace(/\s+/g, " ").replace(/\|/g, "\\|").trim()));
+				if (rows.length > 0) {
+					const columns = Math.max(...rows.map(row => row.length));
+					const line = (cells: string[]) => `| ${Array.from({ length: columns }, (_, i) => cells[i] || "").join(" | ")} |`;
+					output += block([line(rows[0]), line(Array(columns).fill("---")), ...rows.slice(1).map(line)].join("\n"));
+				}
+				break;
+			}
+			default:
+				output += inner(node);
+		}
+	}
+	return output;
+}
+
 // Rate limiter to enforce delays between requests to archive services
 class RateLimiter {
 	private lastRequestTime: Map<string, number> = new Map();
 	private delays: Map<string, number> = new Map();
 
-	constructor() {
-		// Set default delays per service (in milliseconds)
-		this.delays.set("web.archive.org", 1000); // 1 second for Wayback Machine
-		this.delays.set("ghostarchive.org", 2000); // 2 seconds for GhostArchive
-		// Archive.today variants get 2 second delay
-		this.delays.set("archive.ph", 2000);
-		this.delays.set("archive.li", 2000);
-		this.delays.set("archive.is", 2000);
-		this.delays.set("archive.vn", 2000);
-		this.delays.set("archive.md", 2000);
-		this.delays.set("archive.today", 2000);
+	// Providers register their own default delay (in milliseconds)
+	setDelay(serviceName: string, delay: number): void {
+		this.delays.set(serviceName, delay);
 	}
 
 	async waitIfNeeded(serviceName: string): Promise<void> {
@@ -127,78 +816,113 @@ class RateLimiter {
 	}
 }
 
-// Simple cache for archive lookups to avoid duplicate requests
-class ArchiveCache {
-	private cache: Map<string, { result: any, timestamp: number }> = new Map();
-	private ttl: number = 5 * 60 * 1000; // 5 minutes in milliseconds
+// LRU cache with per-entry TTL. Entries survive restarts through serialize()/load().
+class ExpiringCache<T> {
+	private cache: Map<string, { value: T, timestamp: number }> = new Map();
 
-	get(url: string): any | null {
-		const entry = this.cache.get(url);
+	constructor(
+		private getTtl: (value: T) => number, // in milliseconds
+		private getMaxSize: () => number,
+		private onChange: () => void = () => {}
+	) {}
+
+	get(key: string): T | null {
+		const entry = this.cache.get(key);
 		if (!entry) return null;
 
-		const now = Date.now();
-		if (now - entry.timestamp > this.ttl) {
-			// Expired
-			this.cache.delete(url);
+		if (this.isExpired(entry)) {
+			this.cache.delete(key);
+			this.onChange();
 			return null;
 		}
 
-		return entry.result;
+		// LRU: move to end by deleting and re-adding
+		this.cache.delete(key);
+		this.cache.set(key, entry);
+
+		return entry.value;
 	}
 
-	set(url: string, result: any): void {
-		this.cache.set(url, {
-			result,
+	set(key: string, value: T): void {
+		this.cache.delete(key);
+
+		// If at max size, remove oldest entries (first in map)
+		const maxSize = this.getMaxSize();
+		while (this.cache.size >= maxSize && this.cache.size > 0) {
+			const firstKey = this.cache.keys().next().value;
+			if (firstKey === undefined) break;
+			this.cache.delete(firstKey);
+		}
+
+		this.cache.set(key, {
+			value,
 			timestamp: Date.now()
 		});
+		this.onChange();
+	}
+
+	delete(key: string): void {
+		if (this.cache.delete(key)) {
+			this.onChange();
+		}
 	}
 
 	clear(): void {
 		this.cache.clear();
+		this.onChange();
 	}
-}
 
-// LRU cache for page titles with 24-hour TTL
-class TitleCache {
-	private cache: Map<string, { title: string, timestamp: number }> = new Map();
-	private ttl: number = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-	private maxSize: number = 500; // Maximum cache entries
-
-	get(url: string): string | null {
-		const entry = this.cache.get(url);
-		if (!entry) return null;
-
-		const now = Date.now();
-		if (now - entry.timestamp > this.ttl) {
-			// Expired
-			this.cache.delete(url);
-			return null;
+	// Drop expired entries and return how many were removed
+	prune(): number {
+		let removed = 0;
+		for (const [key, entry] of this.cache) {
+			if (this.isExpired(entry)) {
+				this.cache.delete(key);
+				removed++;
+			}
 		}
+		if (removed > 0) {
+			this.onChange();
+		}
+		return removed;
+	}
 
-		// LRU: move to end by deleting and re-adding
-		this.cache.delete(url);
-		this.cache.set(url, entry);
+	get size(): number {
+		return this.cache.size;
+	}
 
-		return entry.title;
+	values(): T[] {
+		return Array.from(this.cache.values(), entry => entry.value);
 	}
 
-	set(url: string, title: string): void {
-		// If at max size, remove oldest entry (first in map)
-		if (this.cache.size >= this.maxSize) {
-			const firstKey = this.cache.keys().next().value;
-			if (firstKey) {
-				this.cache.delete(firstKey);
+	oldestTimestamp(): number | null {
+		let oldest: number | null = null;
+		for (const entry of this.cache.values()) {
+			if (oldest === null || entry.timestamp < oldest) {
+				oldest = entry.timestamp;
 			}
 		}
+		return oldest;
+	}
 
-		this.cache.set(url, {
-			title,
-			timestamp: Date.now()
-		});
+	serialize(): Record<string, { value: T, timestamp: number }> {
+		return Object.fromEntries(this.cache);
 	}
 
-	clear(): void {
+	load(data: Record<string, { value: T, timestamp: number }> | undefined): void {
 		this.cache.clear();
+		if (!data) return;
+		// Oldest first so LRU order survives the round trip
+		const entries = Object.entries(data).sort((a, b) => a[1].timestamp - b[1].timestamp);
+		for (const [key, entry] of entries) {
+			if (entry && typeof entry.timestamp === "number" && !this.isExpired(entry)) {
+				this.cache.set(key, entry);
+			}
+		}
+	}
+
+	private isExpired(entry: { value: T, timestamp: number }): boolean {
+		return Date.now() - entry.timestamp > this.getTtl(entry.value);
 	}
 }
 
@@ -206,20 +930,67 @@ export default class LinkArchiverPlugin extends Plugin {
 	settings: LinkArchiverSettings;
   ribbonIconEl: HTMLElement | null = null;
 	private rateLimiter: RateLimiter;
-	private archiveCache: ArchiveCache;
-	private titleCache: TitleCache;
+	// Archive lookups and page titles, persisted to the plugin folder between sessions
+	archiveCache: ExpiringCache<ArchiveLookupResult>;
+	titleCache: ExpiringCache<string>;
+	private requestCacheSave: () => void;
+	private archiveProviders: Map<string, ArchiveProvider> = new Map();
+	savePageNow: SavePageNowClient;
+	// Links from batch runs waiting for a capture (see getCaptureService)
+	private captureQueue: Array<{ filePath: string, url: string }> = [];
+	private captureQueueRunning = false;
+	// When a rate-limited capture queue may run again (ms since epoch)
+	private captureQueueResumeAt: number | undefined;
+	private captureQueueTimer: number | null = null;
+	private requestCaptureQueueSave: () => void;
+	// Archive queue currently loaded, if any
+	private activeJob: ArchiveJob | null = null;
+	private archiveJobRunning = false;
+	// Services that asked for a CAPTCHA while the archive queue runs; they're skipped until it stops. Null otherwise.
+	private captchaServices: Set<string> | null = null;
+	private jobResumeTimer: number | null = null;
+	private requestJobSave: () => void;
+	private statusBarEl: HTMLElement | null = null;
+	private archiveQueueListeners: Set<() => void> = new Set();
+	// Most recent batch runs, oldest first
+	private undoRuns: UndoRun[] = [];
+	private requestUndoSave: () => void;
+	// Link index state: the links of each note, and when each URL was last looked up (ms since epoch)
+	private linkIndexNotes: Record<string, LinkIndexNote> = {};
+	private linkIndexChecks: Record<string, number> = {};
+	private requestLinkIndexSave: () => void;
+	// The state as last loaded or saved, so an unchanged index isn't written again
+	private linkIndexSavedState = "";
+	// Saves run one after another; two at once could both try to create the index note
+	private linkIndexSave: Promise<void> = Promise.resolve();
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-
-		// Migration: auto-switch from deprecated archive.today variants to Wayback Machine
-		const deprecatedSites = ['archive.ph', 'archive.li', 'archive.is', 'archive.vn', 'archive.md', 'archive.today'];
-		if (deprecatedSites.includes(this.settings.archiveSite)) {
-			const oldSite = this.settings.archiveSite;
-			console.log(`Migrating from deprecated archive service ${oldSite} to web.archive.org`);
-			this.settings.archiveSite = 'web.archive.org';
+		// archiveSite is the setting archiveServices replaced; it's read for the migration below and not kept
+		const { archiveSite, ...data }: Partial<LinkArchiverSettings> & { archiveSite?: unknown } = (await this.loadData()) || {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+		// The settings tab edits these lists in place, so they mustn't be DEFAULT_SETTINGS' own arrays
+		this.settings.archiveServices = [...this.settings.archiveServices];
+		this.settings.mementoArchives = this.settings.mementoArchives.map(config => ({ ...config }));
+		this.settings.selfHostedArchives = this.settings.selfHostedArchives.map(config => ({ ...config }));
+		this.settings.excludeFolders = [...this.settings.excludeFolders];
+		this.settings.excludeFilesWithTags = [...this.settings.excludeFilesWithTags];
+		this.settings.targetFolders = [...this.settings.targetFolders];
+		this.settings.targetFilesWithTags = [...this.settings.targetFilesWithTags];
+
+		// Migration: single archiveSite setting becomes the head of the ordered service list
+		if (typeof archiveSite === "string" && !Array.isArray(data.archiveServices)) {
+			let primarySite = archiveSite;
+
+			// Every archive.today mirror is served by the one archive.today provider
+			if (ARCHIVE_TODAY_DOMAINS.includes(primarySite)) {
+				primarySite = 'archive.today';
+			}
+
+			this.settings.archiveServices = [primarySite, ...DEFAULT_SETTINGS.archiveServices.filter(site => site !== primarySite)];
+		}
+		if (archiveSite !== undefined) {
 			await this.saveSettings();
-			new Notice(`Archive service migrated from ${oldSite} to Wayback Machine due to CAPTCHA/blocking issues.`);
 		}
   }
 
@@ -230,8 +1001,31 @@ export default class LinkArchiverPlugin extends Plugin {
 	async onload() {
 		await this.loadSettings();
 		this.rateLimiter = new RateLimiter();
-		this.archiveCache = new ArchiveCache();
-		this.titleCache = new TitleCache();
+		this.requestCacheSave = debounce(() => this.saveCaches(), 5000, true);
+		this.archiveCache = new ExpiringCache<ArchiveLookupResult>(
+			(result) => (result.foundArchive ? this.settings.archiveCacheTtlHours : this.settings.archiveCacheNegativeTtlHours) * HOUR_MS,
+			() => this.settings.archiveCacheMaxEntries,
+			() => this.requestCacheSave()
+		);
+		this.titleCache = new ExpiringCache<string>(
+			() => this.settings.titleCacheTtlHours * HOUR_MS,
+			() => this.settings.titleCacheMaxEntries,
+			() => this.requestCacheSave()
+		);
+		await this.loadCaches();
+		this.registerArchiveProvider(new WaybackProvider(this));
+		this.registerArchiveProvider(new GhostArchiveProvider(this));
+		this.registerArchiveProvider(new ArchiveTodayProvider(this));
+		this.registerArchiveProvider(new LocalCopyProvider(this));
+		this.registerConfiguredProviders();
+		this.savePageNow = new SavePageNowClient(this);
+		this.requestJobSave = debounce(() => this.saveArchiveJob(), 2000, true);
+		this.requestUndoSave = debounce(() => this.saveUndoJournal(), 2000, true);
+		this.requestCaptureQueueSave = debounce(() => this.saveCaptureQueue(), 2000, true);
+		await this.loadCaptureQueue();
+		await this.loadUndoJournal();
+		this.requestLinkIndexSave = debounce(() => this.saveLinkIndex(), 2000, true);
+		await this.loadLinkIndex();
 		this.addSettingTab(new LinkArchiverSettingTab(this.app, this));
 		this.updateRibbonIcon();
 		
@@ -242,12 +1036,30 @@ export default class LinkArchiverPlugin extends Plugin {
 			editorCallback: (editor: Editor) => this.archiveLinkAtCursor(editor),
 		});
 		
+		this.addCommand({
+			id: "save-local-copy-at-cursor",
+			name: "Save local copy of link at cursor",
+			editorCallback: (editor: Editor) => this.saveLocalCopyAtCursor(editor),
+		});
+		
+		this.addCommand({
+			id: "clip-archived-link-at-cursor",
+			name: "Clip archived link at cursor",
+			editorCallback: (editor: Editor) => this.clipArchivedLinkAtCursor(editor),
+		});
+		
 		this.addCommand({
 			id: "archive-all-links-in-note",
 			name: "Archive all links in current note",
 			editorCallback: (editor: Editor) => this.archiveAllLinksInNote(editor),
 		});
 		
+		this.addCommand({
+			id: "check-link-health-in-note",
+			name: "Archive and check link health in current note",
+			editorCallback: (editor: Editor) => this.archiveAllLinksInNote(editor, true),
+		});
+		
 		this.addCommand({
 			id: "archive-all-links-in-vault",
 			name: "Archive all links in vault",
@@ -280,6 +1092,123 @@ export default class LinkArchiverPlugin extends Plugin {
 			editorCallback: (editor: Editor) => this.convertAllNakedUrlsInNote(editor),
 		});
 
+		// Archive queue commands
+		this.addCommand({
+			id: "pause-archive-queue",
+			name: "Pause archive queue",
+			callback: () => this.pauseArchiveQueue(),
+		});
+
+		this.addCommand({
+			id: "resume-vault-archive-job",
+			name: "Resume archive queue",
+			callback: () => this.resumeArchiveJob(),
+		});
+
+		this.addCommand({
+			id: "cancel-vault-archive-job",
+			name: "Cancel archive queue",
+			callback: () => this.cancelArchiveJob(),
+		});
+
+		this.addCommand({
+			id: "resume-capture-queue",
+			name: "Resume capture queue",
+			callback: () => this.resumeCaptureQueue(),
+		});
+
+		this.addCommand({
+			id: "show-vault-archive-job-status",
+			name: "Show archive queue",
+			callback: () => new ArchiveQueueModal(this.app, this).open(),
+		});
+
+		// Queue progress in the status bar; click for the live queue view
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass("mod-clickable");
+		this.statusBarEl.addEventListener("click", () => new ArchiveQueueModal(this.app, this).open());
+		this.updateQueueStatusBar();
+
+		// Continue a job and captures left over from a previous session once the vault is ready
+		this.app.workspace.onLayoutReady(() => {
+			this.restoreArchiveJob();
+			this.restoreCaptureQueue();
+		});
+
+		this.addCommand({
+			id: "undo-last-archive-run",
+			name: "Undo last archive run",
+			callback: () => this.undoLastArchiveRun(),
+		});
+
+		this.registerView(LINK_ARCHIVE_VIEW_TYPE, (leaf) => new LinkArchiveView(leaf, this));
+		this.addCommand({
+			id: "open-link-archive-view",
+			name: "Open link archive sidebar",
+			callback: () => this.openLinkArchiveView(),
+		});
+
+		this.registerView(LINK_DASHBOARD_VIEW_TYPE, (leaf) => new LinkDashboardView(leaf, this));
+		this.addCommand({
+			id: "open-link-dashboard",
+			name: "Open link dashboard",
+			callback: () => this.openLinkDashboard(),
+		});
+
+		this.addCommand({
+			id: "refresh-stale-archive-links-in-note",
+			name: "Refresh stale archive links in current note",
+			callback: () => {
+				const file = this.app.workspace.getActiveFile();
+				if (file) {
+					this.refreshStaleArchiveLinks([file]);
+				} else {
+					new Notice("No active note.");
+				}
+			},
+		});
+
+		this.addCommand({
+			id: "refresh-stale-archive-links-in-vault",
+			name: "Refresh stale archive links in vault",
+			callback: () => this.refreshStaleArchiveLinks(this.app.vault.getMarkdownFiles().filter(file => !this.shouldExcludeFile(file).excluded)),
+		});
+
+		this.addCommand({
+			id: "rebuild-link-index",
+			name: "Rebuild link index",
+			callback: () => this.rebuildLinkIndex(),
+		});
+
+		// Keep the link index in step with renamed and deleted notes
+		this.registerEvent(this.app.vault.on("rename", (file, oldPath) => this.moveLinkIndexNote(oldPath, file.path)));
+		this.registerEvent(this.app.vault.on("delete", (file) => this.moveLinkIndexNote(file.path, null)));
+
+		this.addCommand({
+			id: "mark-legacy-archive-links",
+			name: "Convert existing archive links to marked format",
+			callback: () => this.migrateArchiveLinks(),
+		});
+
+		// Cache maintenance commands
+		this.addCommand({
+			id: "show-archive-cache",
+			name: "Show archive cache statistics",
+			callback: () => new CacheStatsModal(this.app, this).open(),
+		});
+
+		this.addCommand({
+			id: "prune-archive-cache",
+			name: "Prune expired archive cache entries",
+			callback: () => this.pruneCaches(),
+		});
+
+		this.addCommand({
+			id: "clear-archive-cache",
+			name: "Clear archive cache",
+			callback: () => this.clearCaches(),
+		});
+
 		// Register a single context menu item
 		this.registerEvent(
 			this.app.workspace.on("editor-menu", (menu, editor, view) => {
@@ -299,23 +1228,37 @@ export default class LinkArchiverPlugin extends Plugin {
 					const nakedUrlPattern = /(?<!\]\()https?:\/\/[^\s)\]]+(?!\))/;
 					const hasNakedUrl = nakedUrlPattern.test(textToCheck);
 
-					if (this.lineContainsArchiveLink(textToCheck)) {
+					// Links archived to the frontmatter only show as archived with the note's frontmatter at hand
+					const frontmatterArchives = this.getFrontmatterArchives(editor.getValue().split('\n'));
+					if (this.lineContainsArchiveLink(textToCheck, frontmatterArchives)) {
 						menu.addItem((item) =>
 							item
 								.setTitle("Remove archive link")
 								.setIcon("trash")
-								.onClick(() => {
-									const originalLink = this.extractOriginalLinkFromArchiveLine(textToCheck);
-									if (originalLink) {
-										if (hasUrlInSelection) {
-											editor.replaceSelection(originalLink);
-										} else {
-											editor.setLine(cursor.line, originalLink);
-										}
-										new Notice("Archive link removed.");
+								.onClick(async () => {
+									// Footnotes and frontmatter entries live elsewhere in the note, so go through the whole note
+									const file = view.file;
+									if (!file) {
+										return;
+									}
+									if (hasUrlInSelection) {
+										const from = editor.getCursor("from").line;
+										const to = editor.getCursor("to").line;
+										const changes = this.collectArchiveLinkRemovals(file.path, editor.getValue(), (i) => i >= from && i <= to);
+										await this.applyLineChangesToFile(file, changes);
+									} else {
+										// The archive link of the link under the cursor, or every one on the line
+										await this.removeArchiveLinkAt(file, cursor.line, cursor.ch);
 									}
+									new Notice("Archive link removed.");
 								})
 						);
+						menu.addItem((item) =>
+							item
+								.setTitle("Clip archived page")
+								.setIcon("scissors")
+								.onClick(() => this.clipArchivedLinkAtCursor(editor))
+						);
 					} else {
 						menu.addItem((item) =>
 							item
@@ -323,6 +1266,12 @@ export default class LinkArchiverPlugin extends Plugin {
 								.setIcon("link")
 								.onClick(() => this.archiveLinkAtCursor(editor))
 						);
+						menu.addItem((item) =>
+							item
+								.setTitle("Save local copy")
+								.setIcon("download")
+								.onClick(() => this.saveLocalCopyAtCursor(editor))
+						);
 
 						// Add convert to markdown option if naked URLs detected and scraping is enabled
 						if (hasNakedUrl && this.settings.scrapePageTitles) {
@@ -359,42 +1308,192 @@ export default class LinkArchiverPlugin extends Plugin {
 		);
 	}
 	
-	// Create a meaningful title for a markdown link by scraping the URL
-	async createLinkTitle(editor: Editor, linkInfo: any) {
+	onunload() {
+		// Flush any pending debounced cache write
+		this.saveCaches();
+		// Same for the archive queue, undo journal and link index
+		this.saveArchiveJob();
+		this.saveUndoJournal();
+		this.saveCaptureQueue();
+		if (this.settings.maintainLinkIndex) {
+			this.saveLinkIndex();
+		}
+		this.clearJobResumeTimer();
+		this.clearCaptureQueueTimer();
+	}
+
+	private getCacheFilePath(): string {
+		return normalizePath(`${this.manifest.dir}/${CACHE_FILE_NAME}`);
+	}
+
+	async loadCaches() {
+		if (!this.settings.persistCache) {
+			return;
+		}
+
 		try {
-			new Notice("Fetching page title...");
-			const title = await this.extractTitleFromUrl(linkInfo.originalUrl);
-			
-			if (title && title !== linkInfo.originalUrl && title !== "Link") {
-				const cursor = editor.getCursor();
-				const line = editor.getLine(cursor.line);
-				
-				// Create the new markdown link with the fetched title
-				const newLink = `[${title}](${linkInfo.originalUrl})`;
-				
-				// Replace the old link with the new one
-				const newLine = line.replace(linkInfo.fullMatch, newLink);
-				editor.setLine(cursor.line, newLine);
-				new Notice("Link title created successfully!");
-			} else {
-				new Notice("Could not fetch a meaningful title for this link.");
+			const path = this.getCacheFilePath();
+			if (!(await this.app.vault.adapter.exists(path))) {
+				return;
 			}
-		} catch (error) {
+			const data = JSON.parse(await this.app.vault.adapter.read(path));
+			this.archiveCache.load(data.archives);
+			this.titleCache.load(data.titles);
 			if (this.settings.debugMode) {
-				console.error("Error creating link title:", error);
+				console.log(`Loaded ${this.archiveCache.size} archive lookups and ${this.titleCache.size} titles from cache`);
 			}
-			new Notice("Error fetching page title. Please try again.");
+		} catch (error) {
+			console.error("Error loading archive cache:", error);
 		}
 	}
-	
-	updateRibbonIcon() {
-		if (this.ribbonIconEl) {
-			this.ribbonIconEl.remove();
-			this.ribbonIconEl = null;
+
+	async saveCaches() {
+		if (!this.settings.persistCache) {
+			return;
 		}
 
-		if (this.settings.showRibbonIcon) {
-			this.ribbonIconEl = this.addRibbonIcon("link", "Archive links in note", () => {
+		try {
+			const data = {
+				version: 1,
+				archives: this.archiveCache.serialize(),
+				titles: this.titleCache.serialize()
+			};
+			await this.app.vault.adapter.write(this.getCacheFilePath(), JSON.stringify(data));
+		} catch (error) {
+			console.error("Error saving archive cache:", error);
+		}
+	}
+
+	// Remove the cache file when persistence is turned off
+	async deleteCacheFile() {
+		const path = this.getCacheFilePath();
+		if (await this.app.vault.adapter.exists(path)) {
+			await this.app.vault.adapter.remove(path);
+		}
+	}
+
+	pruneCaches(): number {
+		const removed = this.archiveCache.prune() + this.titleCache.prune();
+		new Notice(`Pruned ${removed} expired cache entr${removed === 1 ? 'y' : 'ies'}.`);
+		return removed;
+	}
+
+	clearCaches() {
+		this.archiveCache.clear();
+		this.titleCache.clear();
+		new Notice("Archive lookup and title caches cleared.");
+	}
+
+	// Make an archive service available in settings and lookups
+	registerArchiveProvider(provider: ArchiveProvider) {
+		this.archiveProviders.set(provider.id, provider);
+		this.rateLimiter.setDelay(provider.id, provider.rateLimitDelay);
+	}
+
+	// Providers for the Memento and self-hosted archives in settings; called again whenever they change
+	registerConfiguredProviders() {
+		for (const provider of this.getArchiveProviders()) {
+			if (provider instanceof MementoProvider || provider instanceof SelfHostedProvider) {
+				this.archiveProviders.delete(provider.id);
+			}
+		}
+		// A config with a URL that doesn't parse (edited by hand, or saved by an older version) is skipped
+		// rather than failing the plugin load
+		for (const config of this.settings.mementoArchives) {
+			try {
+				this.registerArchiveProvider(new MementoProvider(this, config));
+			} catch (error) {
+				console.error(`Skipping Memento archive ${config.name}:`, error);
+			}
+		}
+		for (const config of this.settings.selfHostedArchives) {
+			try {
+				this.registerArchiveProvider(createSelfHostedProvider(this, config));
+			} catch (error) {
+				console.error(`Skipping self-hosted archive ${config.name}:`, error);
+			}
+		}
+		// Drop removed archives from the service order
+		this.settings.archiveServices = this.settings.archiveServices.filter(id => this.archiveProviders.has(id));
+	}
+
+	getArchiveProviders(): ArchiveProvider[] {
+		return Array.from(this.archiveProviders.values());
+	}
+
+	// Enabled providers in the priority order chosen in settings, falling back to the Wayback Machine
+	getEnabledProviders(): ArchiveProvider[] {
+		const providers = this.settings.archiveServices
+			.map(id => this.archiveProviders.get(id))
+			.filter((provider): provider is ArchiveProvider => !!provider);
+		return providers.length > 0 ? providers : [this.archiveProviders.get("web.archive.org")!];
+	}
+
+	// Highest-priority provider, used when creating new snapshots
+	getActiveProvider(): ArchiveProvider {
+		return this.getEnabledProviders()[0];
+	}
+
+	// Provider that serves the given archive URL, if any
+	getProviderForUrl(url: string): ArchiveProvider | null {
+		for (const provider of this.archiveProviders.values()) {
+			if (provider.isArchiveUrl(url)) {
+				return provider;
+			}
+		}
+		return null;
+	}
+
+	// Shared rate limiting for code that talks to archive services outside of lookups
+	async waitForArchiveService(serviceName: string): Promise<void> {
+		await this.rateLimiter.waitIfNeeded(serviceName);
+	}
+
+	// Every domain that hosts archive pages
+	getArchiveDomains(): string[] {
+		const domains: string[] = [];
+		for (const provider of this.archiveProviders.values()) {
+			domains.push(...provider.domains);
+		}
+		return domains;
+	}
+
+	// Create a meaningful title for a markdown link by scraping the URL
+	async createLinkTitle(editor: Editor, linkInfo: any) {
+		try {
+			new Notice("Fetching page title...");
+			const title = await this.extractTitleFromUrl(linkInfo.originalUrl);
+			
+			if (title && title !== linkInfo.originalUrl && title !== "Link") {
+				const cursor = editor.getCursor();
+				const line = editor.getLine(cursor.line);
+				
+				// Create the new markdown link with the fetched title
+				const newLink = `[${title}](${linkInfo.originalUrl})`;
+				
+				// Replace the old link with the new one
+				const newLine = line.replace(linkInfo.fullMatch, newLink);
+				editor.setLine(cursor.line, newLine);
+				new Notice("Link title created successfully!");
+			} else {
+				new Notice("Could not fetch a meaningful title for this link.");
+			}
+		} catch (error) {
+			if (this.settings.debugMode) {
+				console.error("Error creating link title:", error);
+			}
+			new Notice("Error fetching page title. Please try again.");
+		}
+	}
+	
+	updateRibbonIcon() {
+		if (this.ribbonIconEl) {
+			this.ribbonIconEl.remove();
+			this.ribbonIconEl = null;
+		}
+
+		if (this.settings.showRibbonIcon) {
+			this.ribbonIconEl = this.addRibbonIcon("link", "Archive links in note", () => {
 				this.archiveAllLinksInCurrentNote();
 			});
 		}
@@ -407,98 +1506,537 @@ export default class LinkArchiverPlugin extends Plugin {
 		return markdownLinkPattern.test(text) || nakedUrlPattern.test(text);
 	}
 
-	extractUrlFromLine(line: string): { originalUrl: string; displayText: string; fullMatch: string; isNaked: boolean } | null {
-		// Skip code blocks and quotes
-		if (line.trim().startsWith("```") || line.trim().startsWith(">") || line.trim().startsWith("$$")) {
-			return null;
-		}
-		
-		// Try markdown link first
-		const markdownMatch = line.match(/\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/);
-		if (markdownMatch) {
-			// Skip if the match is inside a code block
-			if (this.isInsideCodeBlock(line, markdownMatch.index!)) {
-				return null;
+	extractUrlFromLine(line: string): LineLink | null {
+		return this.extractLinksFromLine(line)[0] || null;
+	}
+
+	// Every markdown link, <a> tag, reference definition, autolink and naked URL on a line, in the
+	// order they appear. Block context (code fences, math, frontmatter) comes from classifyMarkdownLines.
+	extractLinksFromLine(line: string): LineLink[] {
+		const links: LineLink[] = [];
+		const skipRanges = this.getInlineSkipRanges(line);
+		const overlapsFound = (start: number, end: number) => links.some(link => start < link.end && end > link.start);
+		const addMatches = (regex: RegExp, toLink: (match: RegExpMatchArray) => Omit<LineLink, "start" | "end">, offset = (match: RegExpMatchArray) => match.index!) => {
+			for (const match of line.matchAll(regex)) {
+				const link = toLink(match);
+				const start = offset(match);
+				const end = start + link.fullMatch.length;
+				// Skip matches inside inline code or math, and URLs that are part of a link found earlier
+				if (skipRanges.some(([from, to]) => start >= from && start < to) || overlapsFound(start, end)) {
+					continue;
+				}
+				links.push({ ...link, start, end });
 			}
+		};
+
+		// Reference definitions, also inside quotes and callouts. [^1]: is a footnote, not a reference.
+		addMatches(/^((?:\s*>)*\s{0,3})(\[(?!\^)([^\]]+)\]:\s*<?(https?:\/\/[^\s>]+)>?)/g, (match) => ({
+			originalUrl: match[4],
+			displayText: match[3],
+			fullMatch: match[2],
+			isNaked: false,
+			isReference: true
+		}), (match) => match.index! + match[1].length);
+
+		// Markdown links take precedence over the URLs inside them. Allows an optional title and <url>, one level of
+		// brackets in the text (an image inside the link) and balanced parentheses in the URL (Foo_(bar)).
+		addMatches(/\[((?:[^[\]]|\[[^[\]]*\])*)\]\(<?(https?:\/\/(?:[^\s()<>]|\([^\s()<>]*\))+)>?(?:\s+"[^"]*")?\)/g, (match) => ({
+			originalUrl: match[2],
+			displayText: match[1] || match[2],
+			fullMatch: match[0],
+			isNaked: false
+		}));
+
+		// HTML anchor tags
+		addMatches(/<a\s+[^>]*?href\s*=\s*['"](https?:\/\/[^'"]+)['"][^>]*?>(.*?)<\/a>/gi, (match) => ({
+			originalUrl: match[1],
+			displayText: match[2] || match[1],
+			fullMatch: match[0],
+			isNaked: false
+		}));
+
+		// Autolinks: <https://...>
+		addMatches(/<(https?:\/\/[^\s>]+)>/g, (match) => ({
+			originalUrl: match[1],
+			displayText: match[1],
+			fullMatch: match[0],
+			isNaked: true
+		}));
+
+		// Local copies saved in the vault, linked by path in angle brackets since paths may hold spaces
+		const localCopyFolder = normalizePath(this.settings.localCopyFolder).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		addMatches(new RegExp(`\\[([^\\]]*)\\]\\(<(${localCopyFolder}/[^>]+)>\\)`, "g"), (match) => ({
+			originalUrl: match[2],
+			displayText: match[1],
+			fullMatch: match[0],
+			isNaked: false
+		}));
+
+		// Naked URLs, without punctuation that ends a sentence or separates a list, or a comment tag after them
+		addMatches(/https?:\/\/[^\s<]+/g, (match) => {
+			const url = trimNakedUrl(match[0]);
 			return {
-				originalUrl: markdownMatch[2],
-				displayText: markdownMatch[1] || markdownMatch[2],
-				fullMatch: markdownMatch[0],
-				isNaked: false
+				originalUrl: url,
+				displayText: url,
+				fullMatch: url,
+				isNaked: true
 			};
+		});
+
+		return links.sort((a, b) => a.start - b.start);
+	}
+
+	// Pair each link on a line with the archive link written after it. Archive links that are
+	// companions of another link aren't listed on their own. Pass the note's frontmatter archives
+	// (getFrontmatterArchives) to also recognise links archived there.
+	pairArchiveLinks(line: string, frontmatterArchives?: Map<string, FrontmatterArchiveEntry>): ArchivedLinkPair[] {
+		const links = this.extractLinksFromLine(line);
+		// In a table row the archive link is written with its divider's pipes escaped
+		const inTable = isTableRow(line);
+		const dividers = [
+			this.settings.dividerText,
+			" | archive: ",
+			" | ",
+			" 📚 ",
+			" (archived: "
+		].map(divider => inTable ? escapeTablePipes(divider.trim()) : divider.trim());
+		const pairs: ArchivedLinkPair[] = [];
+
+		for (let i = 0; i < links.length; i++) {
+			const link = links[i];
+			const next = links[i + 1];
+
+			// A marked archive link belongs to the link before it, whatever the divider. The output
+			// template may put text between the archive link and the marker.
+			const marker = next ? [ARCHIVE_LINK_MARKER, DEAD_LINK_MARKER]
+				.map(text => ({ text, index: line.indexOf(text, next.end) }))
+				.filter(found => found.index !== -1)
+				.sort((a, b) => a.index - b.index)[0] : undefined;
+			if (marker && (!links[i + 2] || marker.index < links[i + 2].start)) {
+				pairs.push({
+					link,
+					companion: next,
+					companionEnd: marker.index + marker.text.length,
+					marked: true,
+					swapped: marker.text === DEAD_LINK_MARKER
+				});
+				i++;
+				continue;
+			}
+
+			// Otherwise guess from the known dividers
+			const divider = next ? line.slice(link.end, next.start).trim() : "";
+			const isCompanion = next && !this.isArchiveUrl(link.originalUrl) && this.isArchiveUrl(next.originalUrl) &&
+				dividers.includes(divider);
+
+			if (!isCompanion) {
+				const footnote = line.slice(link.end).match(ARCHIVE_FOOTNOTE_REFERENCE);
+				pairs.push({
+					link,
+					companion: null,
+					companionEnd: link.end + (footnote ? footnote[0].length : 0),
+					marked: false,
+					footnote: footnote?.[1],
+					inFrontmatter: frontmatterArchives?.has(link.originalUrl)
+				});
+				continue;
+			}
+
+			const closesParenthesis = divider.startsWith("(") && line.charAt(next.end) === ")";
+			pairs.push({ link, companion: next, companionEnd: next.end + (closesParenthesis ? 1 : 0), marked: false });
+			i++;
 		}
 
-		// Try HTML anchor tag
-		const htmlMatch = line.match(/<a\s+[^>]*?href\s*=\s*['"](https?:\/\/[^'"]+)['"][^>]*?>(.*?)<\/a>/i);
-		if (htmlMatch) {
-			if (this.isInsideCodeBlock(line, htmlMatch.index!)) {
-				return null;
+		return pairs;
+	}
+
+	// Links on a line that still need an archive link
+	getUnarchivedLinks(line: string, frontmatterArchives?: Map<string, FrontmatterArchiveEntry>): LineLink[] {
+		return this.pairArchiveLinks(line, frontmatterArchives)
+			.filter(pair => !hasArchiveLink(pair) && !pair.link.isReference && !this.isArchiveUrl(pair.link.originalUrl))
+			.map(pair => pair.link);
+	}
+
+	// First link to url on a line that still needs an archive link
+	findUnarchivedLink(line: string, url: string, frontmatterArchives?: Map<string, FrontmatterArchiveEntry>): LineLink | null {
+		return this.getUnarchivedLinks(line, frontmatterArchives).find(link => link.originalUrl === url) || null;
+	}
+
+	// Line index of the frontmatter's closing ---, or -1 when the note has no frontmatter
+	getFrontmatterEnd(lines: string[]): number {
+		// YAML frontmatter must open on the first line
+		if (lines.length === 0 || lines[0].trim() !== "---") {
+			return -1;
+		}
+		return lines.findIndex((line, i) => i > 0 && (line.trim() === "---" || line.trim() === "..."));
+	}
+
+	// Links the frontmatter archives: map records, keyed by original URL. Empty when there's none
+	// or the frontmatter isn't valid YAML.
+	getFrontmatterArchives(lines: string[]): Map<string, FrontmatterArchiveEntry> {
+		const archives = new Map<string, FrontmatterArchiveEntry>();
+		const end = this.getFrontmatterEnd(lines);
+		if (end === -1) {
+			return archives;
+		}
+
+		let entries: unknown;
+		try {
+			entries = parseYaml(lines.slice(1, end).join('\n'))?.[FRONTMATTER_ARCHIVES_KEY];
+		} catch {
+			return archives;
+		}
+		if (entries && typeof entries === "object" && !Array.isArray(entries)) {
+			for (const [url, entry] of Object.entries(entries)) {
+				if (entry && typeof entry.url === "string") {
+					archives.set(url, { url: entry.url, timestamp: entry.timestamp ? String(entry.timestamp) : undefined });
+				}
 			}
-			return {
-				originalUrl: htmlMatch[1],
-				displayText: htmlMatch[2] || htmlMatch[1],
-				fullMatch: htmlMatch[0],
-				isNaked: false
-			};
 		}
+		return archives;
+	}
 
-		// Try naked URL
-		const nakedMatch = line.match(/(https?:\/\/[^\s]+)/);
-		if (nakedMatch) {
-			if (this.isInsideCodeBlock(line, nakedMatch.index!)) {
-				return null;
+	// Links in the frontmatter's properties, other than the archives property, with the line each is on
+	getFrontmatterLinks(lines: string[]): Array<{ url: string, line: number }> {
+		const end = this.getFrontmatterEnd(lines);
+		if (end === -1) {
+			return [];
+		}
+
+		let frontmatter: unknown;
+		try {
+			frontmatter = parseYaml(lines.slice(1, end).join('\n'));
+		} catch {
+			return [];
+		}
+		if (!frontmatter || typeof frontmatter !== "object") {
+			return [];
+		}
+
+		const links: Array<{ url: string, line: number }> = [];
+		const addLinks = (value: unknown) => {
+			if (typeof value === "string") {
+				for (const link of this.extractLinksFromLine(value)) {
+					const line = lines.findIndex((text, i) => i > 0 && i < end && text.includes(link.originalUrl));
+					links.push({ url: link.originalUrl, line: line === -1 ? 0 : line });
+				}
+			} else if (value && typeof value === "object") {
+				Object.values(value).forEach(addLinks);
+			}
+		};
+		for (const [key, value] of Object.entries(frontmatter)) {
+			if (key !== FRONTMATTER_ARCHIVES_KEY) {
+				addLinks(value);
 			}
-			return {
-				originalUrl: nakedMatch[1],
-				displayText: nakedMatch[1],
-				fullMatch: nakedMatch[0],
-				isNaked: true
-			};
 		}
+		return links;
+	}
 
-		return null;
+	// Archive footnote definitions of a note, keyed by label
+	getArchiveFootnotes(lines: string[]): Map<string, FrontmatterArchiveEntry> {
+		const footnotes = new Map<string, FrontmatterArchiveEntry>();
+		for (const line of lines) {
+			const label = line.match(ARCHIVE_FOOTNOTE_DEFINITION)?.[1];
+			const archiveLink = label ? this.extractLinksFromLine(line)[0] : undefined;
+			if (label && archiveLink) {
+				footnotes.set(label, { url: archiveLink.originalUrl, timestamp: line.match(/ on (\S+)$/)?.[1] });
+			}
+		}
+		return footnotes;
 	}
 
-	private isInsideCodeBlock(line: string, index: number): boolean {
-		// Check for inline code (single backticks)
-		const backtickSegments = line.split('`');
-		let inInlineCode = false;
-		let currentPos = 0;
-		
-		for (const segment of backtickSegments) {
-			const segmentStart = currentPos;
-			const segmentEnd = currentPos + segment.length;
-			
-			if (inInlineCode && index >= segmentStart && index < segmentEnd) {
-				return true;
+	// Every link in a note, each with its archive link if it has one. Archive links written for other
+	// links, frontmatter and archive footnote definitions aren't listed.
+	collectNoteLinks(lines: string[]): NoteLink[] {
+		const contexts = this.classifyMarkdownLines(lines);
+		const frontmatterArchives = this.getFrontmatterArchives(lines);
+		const footnotes = this.getArchiveFootnotes(lines);
+		const noteLinks: NoteLink[] = [];
+
+		for (let i = 0; i < lines.length; i++) {
+			if (contexts[i] === "frontmatter" || ARCHIVE_FOOTNOTE_DEFINITION.test(lines[i])) {
+				continue;
+			}
+
+			for (const pair of this.pairArchiveLinks(lines[i], frontmatterArchives)) {
+				const noteLink: NoteLink = { link: pair.link, line: i, context: contexts[i] };
+				if (pair.swapped) {
+					// The original of a dead link swap sits after its archive link
+					noteLink.link = pair.companion!;
+					noteLink.placement = "inline";
+					noteLink.archiveUrl = pair.link.originalUrl;
+				} else if (pair.companion) {
+					noteLink.placement = "inline";
+					noteLink.archiveUrl = pair.companion.originalUrl;
+				} else if (pair.footnote) {
+					noteLink.placement = "footnote";
+					noteLink.archiveUrl = footnotes.get(pair.footnote)?.url;
+					noteLink.timestamp = footnotes.get(pair.footnote)?.timestamp;
+				} else if (pair.inFrontmatter) {
+					noteLink.placement = "frontmatter";
+					noteLink.archiveUrl = frontmatterArchives.get(pair.link.originalUrl)?.url;
+					noteLink.timestamp = frontmatterArchives.get(pair.link.originalUrl)?.timestamp;
+				}
+				noteLinks.push(noteLink);
 			}
-			
-			inInlineCode = !inInlineCode;
-			currentPos = segmentEnd + 1; // +1 for the backtick
 		}
-		
-		// Check for code blocks (triple backticks)
-		const tripleBacktickCount = (line.match(/```/g) || []).length;
-		return tripleBacktickCount > 0;
+
+		return noteLinks;
 	}
-	
-	// Helper method to check if a line is in a code block or quote
-	isCodeBlockOrQuote(lines: string[], lineIndex: number): boolean {
-		// Check if the current line is a code block marker or quote
-		const line = lines[lineIndex];
-		if (line.trim().startsWith("```") || line.trim().startsWith(">") || line.trim().startsWith("$$")) {
-			return true;
+
+	// Join the original and archive parts with the divider, or through the output template when it's on
+	private async combineArchiveParts(linkInfo: any, originalPart: string, archivedPart: string, plainArchivedUrl: string, snapshot?: ArchiveSnapshot): Promise<string> {
+		const keepHtml = linkInfo.fullMatch.startsWith('<a') && this.settings.respectOriginalFormat;
+		if (!this.settings.useCustomFormat || keepHtml) {
+			// Combine with the user's divider text
+			return `${originalPart}${this.settings.dividerText}${archivedPart}${this.getArchiveLinkMarker(plainArchivedUrl)}`;
 		}
-		
-		// Check if we're inside a code block
-		let inCodeBlock = false;
-		for (let i = 0; i < lineIndex; i++) {
-			if (lines[i].trim().startsWith("```")) {
-				inCodeBlock = !inCodeBlock;
+
+		// Only scrape a title for naked URLs when the template asks for one
+		let title = linkInfo.isNaked ? linkInfo.originalUrl : linkInfo.displayText;
+		if (linkInfo.isNaked && this.settings.customFormat.includes("{title}") && this.settings.scrapePageTitles) {
+			try {
+				title = await this.extractTitleFromUrl(linkInfo.originalUrl);
+			} catch {
+				// Keep the URL as the title
 			}
 		}
-		
-		return inCodeBlock;
+
+		let domain = "";
+		try {
+			domain = new URL(linkInfo.originalUrl).hostname.replace(/^www\./, '');
+		} catch {
+			// Leave {domain} empty for unparseable URLs
+		}
+
+		const rendered = this.renderArchiveTemplate(this.settings.customFormat, {
+			original: originalPart,
+			archived: archivedPart,
+			title,
+			url: linkInfo.originalUrl,
+			archiveUrl: plainArchivedUrl,
+			service: snapshot?.service || this.getProviderForUrl(plainArchivedUrl)?.name || "",
+			domain,
+			timestamp: this.getSnapshotTimestamp(plainArchivedUrl, snapshot)
+		});
+		// Template output can't be recognised by its divider, so it's always marked
+		return `${rendered}${ARCHIVE_LINK_MARKER}`;
+	}
+
+	// Fill {name} placeholders; {timestamp} takes an optional moment.js format, as in {timestamp:D MMM YYYY}.
+	// Unknown placeholders are left as written.
+	renderArchiveTemplate(template: string, values: ArchiveTemplateValues): string {
+		return template.replace(/\{(\w+)(?::([^}]*))?\}/g, (placeholder, name: string, format?: string) => {
+			if (name === "timestamp") {
+				return this.formatSnapshotTimestamp(values.timestamp, format || DEFAULT_TIMESTAMP_FORMAT);
+			}
+			return name in values ? values[name as keyof ArchiveTemplateValues] : placeholder;
+		});
+	}
+
+	// Snapshot timestamps are either 14-digit Wayback stamps or whatever date text a service shows
+	formatSnapshotTimestamp(timestamp: string, format: string): string {
+		if (!timestamp) {
+			return "";
+		}
+		const parsed = this.parseSnapshotTimestamp(timestamp);
+		return parsed.isValid() ? parsed.format(format) : timestamp;
+	}
+
+	// Snapshot time in ms since epoch, or null when the timestamp can't be read
+	getSnapshotTime(timestamp: string): number | null {
+		const parsed = timestamp ? this.parseSnapshotTimestamp(timestamp) : null;
+		return parsed && parsed.isValid() ? parsed.valueOf() : null;
+	}
+
+	private parseSnapshotTimestamp(timestamp: string): ReturnType<typeof moment> {
+		return /^\d{14}$/.test(timestamp) ?
+			moment.utc(timestamp, "YYYYMMDDHHmmss") :
+			moment(new Date(timestamp));
+	}
+
+	// Text that tags a newly inserted archive link, if marking is on. Snapshots on hosts no provider knows
+	// (a Memento aggregator's results from other archives, say) are always marked, since divider guessing
+	// only pairs archive links it recognises by host.
+	getArchiveLinkMarker(plainArchivedUrl: string): string {
+		return this.settings.markArchiveLinks || !this.isArchiveUrl(plainArchivedUrl) ? ARCHIVE_LINK_MARKER : "";
+	}
+
+	// A dead link replaced by its archive link, with the original after the divider. Always marked, since
+	// the archive link comes first and divider guessing would take it for an unarchived link.
+	formatDeadLinkSwap(link: LineLink, archiveUrl: string): string {
+		if (link.fullMatch.startsWith('<a')) {
+			return `${link.fullMatch.replace(link.originalUrl, archiveUrl)}${this.settings.dividerText}<a href="${link.originalUrl}">original</a>${DEAD_LINK_MARKER}`;
+		}
+		const originalPart = this.settings.useNakedUrls || this.settings.useNakedArchiveOnly ?
+			link.originalUrl :
+			`[${ORIGINAL_LINK_TEXT}](${link.originalUrl})`;
+		return `[${link.displayText}](${archiveUrl})${this.settings.dividerText}${originalPart}${DEAD_LINK_MARKER}`;
+	}
+
+	// The original link of a dead link swap as it was written before the swap
+	restoreSwappedLink(pair: ArchivedLinkPair): string {
+		const { link, companion } = pair;
+		// Naked URLs were given their own URL as link text
+		if (link.displayText === companion!.originalUrl) {
+			return companion!.originalUrl;
+		}
+		return link.fullMatch.replace(link.originalUrl, companion!.originalUrl);
+	}
+
+	// Rewrite archive links found by divider guessing into the current divider plus the marker
+	async migrateArchiveLinks() {
+		if (!this.settings.markArchiveLinks) {
+			new Notice("Turn on \"Mark archive links\" in settings before converting existing archive links.");
+			return;
+		}
+
+		const changes: ProposedLineChange[] = [];
+		new Notice("Looking for unmarked archive links...");
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			try {
+				const lines = (await this.app.vault.read(file)).split('\n');
+				const contexts = this.classifyMarkdownLines(lines);
+
+				for (let i = 0; i < lines.length; i++) {
+					if (contexts[i] !== "text") {
+						continue;
+					}
+
+					// Last pair first so earlier offsets stay valid
+					const legacyPairs = this.pairArchiveLinks(lines[i]).filter(pair => pair.companion && !pair.marked).reverse();
+					let newLine = lines[i];
+					for (const { link, companion, companionEnd } of legacyPairs) {
+						newLine = newLine.slice(0, link.end) + this.settings.dividerText + companion!.fullMatch + ARCHIVE_LINK_MARKER + newLine.slice(companionEnd);
+					}
+					if (newLine !== lines[i]) {
+						changes.push({ file: file.path, line: i, oldLine: lines[i], newLine });
+					}
+				}
+			} catch (error) {
+				console.error(`Error processing file ${file.path}:`, error);
+			}
+		}
+
+		await this.commitLineChanges("Mark archive links", changes, "archive link marker");
+	}
+
+	// Put replacement where link sits in line
+	spliceLink(line: string, link: LineLink, replacement: string): string {
+		return line.slice(0, link.start) + replacement + line.slice(link.end);
+	}
+
+	// Character ranges of inline code spans, inline math and HTML comments, where links aren't links
+	private getInlineSkipRanges(line: string): Array<[number, number]> {
+		const ranges: Array<[number, number]> = [];
+		const inRange = (index: number) => ranges.some(([from, to]) => index >= from && index < to);
+
+		// Code spans: a run of backticks closed by a run of the same length
+		const backtickRuns = Array.from(line.matchAll(/`+/g));
+		for (let i = 0; i < backtickRuns.length; i++) {
+			const opening = backtickRuns[i];
+			if (inRange(opening.index!)) {
+				continue;
+			}
+			const closing = backtickRuns.slice(i + 1).find(run => run[0].length === opening[0].length);
+			if (closing) {
+				ranges.push([opening.index!, closing.index! + closing[0].length]);
+			}
+		}
+
+		// Inline math: $$...$$, or $...$ that doesn't look like a price ("$5 and $10")
+		for (const match of line.matchAll(/\$\$[^$]+\$\$|\$(?=\S)[^$]*?\S\$(?!\d)|\$\S\$(?!\d)/g)) {
+			if (!inRange(match.index!)) {
+				ranges.push([match.index!, match.index! + match[0].length]);
+			}
+		}
+
+		for (const match of line.matchAll(/<!--.*?(?:-->|$)/g)) {
+			if (!inRange(match.index!)) {
+				ranges.push([match.index!, match.index! + match[0].length]);
+			}
+		}
+
+		return ranges;
+	}
+
+	// Work out which lines are prose and which are frontmatter, fenced or indented code, math blocks or
+	// HTML comments. Quotes, callouts, lists, tables and footnotes are all prose.
+	classifyMarkdownLines(lines: string[]): LineContext[] {
+		const contexts: LineContext[] = new Array(lines.length).fill("text");
+		let start = 0;
+
+		const frontmatterEnd = this.getFrontmatterEnd(lines);
+		if (frontmatterEnd !== -1) {
+			contexts.fill("frontmatter", 0, frontmatterEnd + 1);
+			start = frontmatterEnd + 1;
+		}
+
+		let fence: { char: string, length: number } | null = null;
+		let inMath = false;
+		let inComment = false;
+		let inList = false;
+		let previousBlank = true;
+		let inIndentedCode = false;
+
+		for (let i = start; i < lines.length; i++) {
+			const line = lines[i];
+			// Fences and math blocks can sit inside quotes and callouts
+			const content = line.replace(/^(\s*>)+/, "").trim();
+			const isBlank = line.trim() === "";
+
+			if (fence) {
+				contexts[i] = "code";
+				const closing = content.match(/^(`{3,}|~{3,})\s*$/);
+				if (closing && closing[1][0] === fence.char && closing[1].length >= fence.length) {
+					fence = null;
+				}
+			} else if (inMath) {
+				contexts[i] = "math";
+				inMath = !content.endsWith("$$");
+			} else if (inComment) {
+				contexts[i] = "comment";
+				inComment = !line.includes("-->");
+			} else {
+				const opening = content.match(/^(`{3,}|~{3,})(.*)$/);
+				const isIndented = /^( {4}|\t)/.test(line) && !isBlank;
+				const isListItem = /^\s*([-*+]|\d+[.)])\s/.test(line);
+
+				// A backtick fence's info string can't contain backticks; otherwise it's inline code
+				if (opening && !(opening[1][0] === "`" && opening[2].includes("`"))) {
+					contexts[i] = "code";
+					fence = { char: opening[1][0], length: opening[1].length };
+				} else if (content.startsWith("$$")) {
+					contexts[i] = "math";
+					inMath = !(content.length > 2 && content.endsWith("$$"));
+				} else if (content.startsWith("<!--")) {
+					contexts[i] = "comment";
+					inComment = !content.includes("-->");
+				} else if (isIndented && !isListItem && (inIndentedCode || (previousBlank && !inList))) {
+					// Indented code needs a blank line before it and can't be list content
+					contexts[i] = "code";
+					inIndentedCode = true;
+				} else if (!isBlank) {
+					inIndentedCode = false;
+				}
+
+				if (isListItem) {
+					inList = true;
+				} else if (!isBlank && !isIndented) {
+					inList = false;
+				}
+			}
+
+			previousBlank = isBlank;
+		}
+
+		return contexts;
+	}
+
+	// True when a line is code, math, frontmatter or a comment rather than prose
+	isCodeOrMathLine(lines: string[], lineIndex: number): boolean {
+		return this.classifyMarkdownLines(lines)[lineIndex] !== "text";
 	}
 
 	async archiveLinkAtCursor(editor: Editor) {
@@ -508,40 +2046,38 @@ export default class LinkArchiverPlugin extends Plugin {
 	 // Check if line is in a code block
 	 const content = editor.getValue();
 	 const lines = content.split('\n');
-	 if (this.isCodeBlockOrQuote(lines, cursor.line)) {
+	 if (this.isCodeOrMathLine(lines, cursor.line)) {
 	   new Notice("No valid URL found on this line.");
 	   return;
 	 }
 	 
-	 // Check if line already contains an archive link
-	 if (this.lineContainsArchiveLink(line)) {
-	   new Notice("This line already contains an archive link. Remove it first if you want to re-archive.");
+	 // Use the link under the cursor, or the first link on the line that still needs archiving
+	 const frontmatterArchives = this.getFrontmatterArchives(lines);
+	 const pairs = this.pairArchiveLinks(line, frontmatterArchives);
+	 const pair = pairs.find(candidate => cursor.ch >= candidate.link.start && cursor.ch <= Math.max(candidate.companionEnd, (candidate.companion || candidate.link).end)) ||
+	   pairs.find(candidate => !hasArchiveLink(candidate) && !this.isArchiveUrl(candidate.link.originalUrl)) ||
+	   pairs[0];
+	 if (!pair) {
+	   new Notice("No valid URL found on this line.");
 	   return;
 	 }
 	 
-	 const linkInfo = this.extractUrlFromLine(line);
-	 if (!linkInfo) {
-	   new Notice("No valid URL found on this line.");
+	 // Check if the link already has an archive link
+	 if (hasArchiveLink(pair)) {
+	   new Notice("This link already has an archive link. Remove it first if you want to re-archive.");
 	   return;
 	 }
 	 
+	 const linkInfo = pair.link;
+	 
 	 // Check if the URL is an archive URL
 	 if (this.isArchiveUrl(linkInfo.originalUrl)) {
 	   new Notice("Cannot archive an archive URL.");
 	   return;
 	 }
 
-	 // Handle ghostarchive URLs specifically
-	 const ghostArchivePattern = /https?:\/\/ghostarchive\.org\/(archive|varchive)\/[a-zA-Z0-9]+/g;
-	 if (linkInfo.originalUrl.match(ghostArchivePattern)) {
-	   // Remove ghostarchive link
-	   const originalLink = this.extractOriginalLinkFromArchiveLine(line);
-	   if (originalLink) {
-	     editor.setLine(cursor.line, originalLink);
-	     new Notice("Ghostarchive link removed.");
-	   } else {
-	     new Notice("Could not remove ghostarchive link.");
-	   }
+	 if (linkInfo.isReference) {
+	   new Notice("Reference definitions can't hold an archive link.");
 	   return;
 	 }
 
@@ -558,9 +2094,10 @@ export default class LinkArchiverPlugin extends Plugin {
 	           // Get fresh line data to ensure we have the most current state
 	           const currentLineNumber = cursor.line;
 	           const currentLine = editor.getLine(currentLineNumber);
-	           const currentLinkInfo = this.extractUrlFromLine(currentLine);
+	           const currentLinkInfo = this.findUnarchivedLink(currentLine, linkInfo.originalUrl, frontmatterArchives);
 	           if (currentLinkInfo) {
-	             this.replaceLinkInLine(editor, currentLineNumber, currentLine, currentLinkInfo, selectedUrl);
+	             this.replaceLinkInLine(editor, currentLineNumber, currentLine, currentLinkInfo, selectedUrl,
+	               result.snapshots.find(snapshot => snapshot.url === selectedUrl));
 	             new Notice("Link archived with selected snapshot.");
 	           } else {
 	             new Notice("Could not find link on current line.");
@@ -568,17 +2105,28 @@ export default class LinkArchiverPlugin extends Plugin {
 	         }
 				} else if (result.archivedUrl) {
 					// Single archive found or auto-pick enabled
-					this.replaceLinkInLine(editor, cursor.line, line, linkInfo, result.archivedUrl);
-					new Notice("Link archived with existing snapshot.");
+					const currentLine = editor.getLine(cursor.line);
+					const currentLinkInfo = this.findUnarchivedLink(currentLine, linkInfo.originalUrl, frontmatterArchives);
+					if (!currentLinkInfo) {
+						new Notice("Could not find link on current line.");
+						return;
+					}
+					this.replaceLinkInLine(editor, cursor.line, currentLine, currentLinkInfo, result.archivedUrl,
+						result.snapshots?.find(snapshot => snapshot.url === result.archivedUrl));
+					new Notice(`Link archived with existing ${result.service || "archive"} snapshot.`);
 				}
 			} else {
-				// No existing archive found, prompt user to create one
-				const newArchiveUrl = await this.showArchivePromptModal(linkInfo.originalUrl);
+				// A service that asked for a CAPTCHA may have a snapshot; let the user look it up in the browser
+				const handoffUrl = result.captchaRequired ?
+					await this.showCaptchaHandoffModal(result.captchaRequired[0], linkInfo.originalUrl) : null;
+				// No existing archive found: capture through a self-hosted archive or Save Page Now if configured, otherwise prompt user to create one
+				const newArchiveUrl = handoffUrl || await this.captureNewSnapshot(linkInfo.originalUrl) ||
+					await this.showArchivePromptModal(linkInfo.originalUrl);
 				if (newArchiveUrl) {
 					// Get fresh line data
 					const currentLineNumber = cursor.line;
 					const currentLine = editor.getLine(currentLineNumber);
-					const currentLinkInfo = this.extractUrlFromLine(currentLine);
+					const currentLinkInfo = this.findUnarchivedLink(currentLine, linkInfo.originalUrl, frontmatterArchives);
 					
 					if (currentLinkInfo) {
 						this.replaceLinkInLine(editor, currentLineNumber, currentLine, currentLinkInfo, newArchiveUrl);
@@ -596,15 +2144,549 @@ export default class LinkArchiverPlugin extends Plugin {
 		}
 	}
 	
-	async showArchivePromptModal(originalUrl: string): Promise<string | null> {
-		return new Promise((resolve) => {
-			new ArchivePromptModal(this.app, originalUrl, resolve, this).open();
-		});
+	// Service that captures new snapshots without a browser: the first enabled service with a capture API
+	// (a self-hosted archive), otherwise Save Page Now when it's set up. With the local copy fallback on, a
+	// local copy stands in when neither is available or the capture fails.
+	getCaptureService(): { name: string, capture: (originalUrl: string) => Promise<string> } | null {
+		const provider = this.getEnabledProviders().find(provider => provider.capture);
+		const service = provider ? { name: provider.name, capture: (originalUrl: string) => provider.capture!(originalUrl) } :
+			this.savePageNow.isConfigured() ? { name: "Save Page Now", capture: (originalUrl: string) => this.savePageNow.capture(originalUrl) } :
+			null;
+		if (!this.settings.localCopyFallback) {
+			return service;
+		}
+		if (!service) {
+			return { name: "Local copy", capture: (originalUrl) => this.saveLocalCopy(originalUrl) };
+		}
+
+		// The service may be down or refuse the page; keep a local copy instead
+		return {
+			name: service.name,
+			capture: async (originalUrl) => {
+				try {
+					return await service.capture(originalUrl);
+				} catch (error) {
+					console.error(`${service.name} capture failed, saving a local copy of ${originalUrl}:`, error);
+					return this.saveLocalCopy(originalUrl);
+				}
+			}
+		};
 	}
 
-	async extractTitleFromUrl(url: string, retryCount = 0): Promise<string> {
-		// Check cache first (if enabled and not a retry)
-		if (this.settings.enableTitleCache && retryCount === 0) {
+	// Create a snapshot through the capture service. Returns null when there is none or the capture fails.
+	async captureNewSnapshot(originalUrl: string): Promise<string | null> {
+		const service = this.getCaptureService();
+		if (!service) {
+			return null;
+		}
+
+		new Notice(`No existing archive found. Capturing with ${service.name}...`, 5000);
+
+		try {
+			const snapshotUrl = await service.capture(originalUrl);
+			// Forget the cached "no snapshots" result
+			this.archiveCache.delete(originalUrl);
+			return snapshotUrl;
+		} catch (error) {
+			if (this.settings.debugMode) {
+				console.error(`${service.name} capture failed:`, error);
+			}
+			new Notice(`${service.name} capture failed: ${error.message || "Unknown error"}`);
+			return null;
+		}
+	}
+
+	// Remember a link that had no snapshot during a batch run so it can be captured afterwards
+	queueCapture(filePath: string, url: string) {
+		if (!this.captureQueue.some(item => item.filePath === filePath && item.url === url)) {
+			this.captureQueue.push({ filePath, url });
+			this.requestCaptureQueueSave();
+		}
+	}
+
+	private getCaptureQueueFilePath(): string {
+		return normalizePath(`${this.manifest.dir}/${CAPTURE_QUEUE_FILE_NAME}`);
+	}
+
+	async loadCaptureQueue() {
+		try {
+			const path = this.getCaptureQueueFilePath();
+			if (await this.app.vault.adapter.exists(path)) {
+				const data = JSON.parse(await this.app.vault.adapter.read(path));
+				this.captureQueue = data.items || [];
+				this.captureQueueResumeAt = data.resumeAt;
+			}
+		} catch (error) {
+			console.error("Error loading capture queue:", error);
+		}
+	}
+
+	// The file is removed once the queue is empty
+	async saveCaptureQueue() {
+		try {
+			const path = this.getCaptureQueueFilePath();
+			if (this.captureQueue.length > 0) {
+				await this.app.vault.adapter.write(path, JSON.stringify({ items: this.captureQueue, resumeAt: this.captureQueueResumeAt }));
+			} else if (await this.app.vault.adapter.exists(path)) {
+				await this.app.vault.adapter.remove(path);
+			}
+		} catch (error) {
+			console.error("Error saving capture queue:", error);
+		}
+	}
+
+	// Pick up captures left by a rate limit or by closing Obsidian
+	private restoreCaptureQueue() {
+		if (this.captureQueue.length === 0) {
+			return;
+		}
+		const count = `${this.captureQueue.length} link${this.captureQueue.length > 1 ? 's' : ''}`;
+		if (this.settings.autoResumeArchiveJobs) {
+			new Notice(`Unfinished captures found (${count} left). They will resume automatically.`);
+			this.scheduleCaptureQueueResume();
+		} else {
+			new Notice(`Unfinished captures found (${count} left). Use "Resume capture queue" to continue.`);
+		}
+	}
+
+	private scheduleCaptureQueueResume() {
+		this.clearCaptureQueueTimer();
+		const delay = Math.max((this.captureQueueResumeAt || 0) - Date.now(), 5000);
+		this.captureQueueTimer = window.setTimeout(() => {
+			this.captureQueueTimer = null;
+			this.processCaptureQueue().catch(error => console.error("Error processing capture queue:", error));
+		}, delay);
+	}
+
+	private clearCaptureQueueTimer() {
+		if (this.captureQueueTimer !== null) {
+			window.clearTimeout(this.captureQueueTimer);
+			this.captureQueueTimer = null;
+		}
+	}
+
+	async resumeCaptureQueue() {
+		if (this.captureQueue.length === 0) {
+			new Notice("The capture queue is empty.");
+			return;
+		}
+		if (this.captureQueueRunning) {
+			new Notice("The capture queue is already running.");
+			return;
+		}
+		if (!this.getCaptureService()) {
+			new Notice("No capture service is set up. Add Save Page Now keys or a self-hosted archive in settings.");
+			return;
+		}
+		this.clearCaptureQueueTimer();
+		this.captureQueueResumeAt = undefined;
+		await this.processCaptureQueue();
+	}
+
+	shouldQueueCaptures(): boolean {
+		return this.settings.queueCapturesForMissing && !!this.getCaptureService();
+	}
+
+	// Capture queued links one at a time and insert the finished snapshots into their notes
+	async processCaptureQueue() {
+		const service = this.getCaptureService();
+		// Still cooling down from a rate limit; the resume timer or "Resume capture queue" picks it up
+		if (this.captureQueueRunning || this.captureQueue.length === 0 || !service || (this.captureQueueResumeAt || 0) > Date.now()) {
+			return;
+		}
+		this.captureQueueRunning = true;
+		this.clearCaptureQueueTimer();
+		this.captureQueueResumeAt = undefined;
+
+		let captured = 0;
+		let failed = 0;
+		const undoRun = this.beginUndoRun(`capture-${Date.now().toString(36)}`, `${service.name} captures`);
+		new Notice(`Capturing ${this.captureQueue.length} link${this.captureQueue.length > 1 ? 's' : ''} with ${service.name}...`);
+
+		try {
+			let item;
+			while ((item = this.captureQueue.shift())) {
+				this.requestCaptureQueueSave();
+				try {
+					const snapshotUrl = await service.capture(item.url);
+					this.archiveCache.delete(item.url);
+
+					const file = this.app.vault.getAbstractFileByPath(item.filePath);
+					if (file instanceof TFile && await this.insertArchiveLinkInFile(file, item.url, snapshotUrl, undoRun)) {
+						captured++;
+					} else {
+						failed++;
+					}
+				} catch (error) {
+					if (this.settings.debugMode) {
+						console.error(`${service.name} capture failed for ${item.url}:`, error);
+					}
+
+					// Stop and keep the remaining links queued if the service is rate limiting us
+					const archiveError = this.classifyArchiveError(error, service.name);
+					if (archiveError.type === ArchiveErrorType.RATE_LIMITED) {
+						this.captureQueue.unshift(item);
+						this.captureQueueResumeAt = Date.now() + this.settings.rateLimitCooldownMinutes * 60 * 1000;
+						if (this.settings.autoResumeArchiveJobs) {
+							this.scheduleCaptureQueueResume();
+							new Notice(`${archiveError.message} ${this.captureQueue.length} captures left; they will resume in ${this.settings.rateLimitCooldownMinutes} minutes.`);
+						} else {
+							new Notice(`${archiveError.message} ${this.captureQueue.length} captures left. Use "Resume capture queue" to continue.`);
+						}
+						break;
+					}
+					failed++;
+				}
+			}
+		} finally {
+			this.captureQueueRunning = false;
+			await this.saveCaptureQueue();
+		}
+
+		new Notice(`${service.name} complete. Captured: ${captured}, Failed: ${failed}`);
+	}
+
+	// True for the vault path of a local copy
+	isLocalCopyPath(url: string): boolean {
+		return url.startsWith(`${normalizePath(this.settings.localCopyFolder)}/`);
+	}
+
+	// Open a snapshot: local copies through Obsidian, anything else in the browser
+	openArchiveUrl(url: string) {
+		if (this.isLocalCopyPath(url)) {
+			this.app.workspace.openLinkText(url, "", true);
+		} else {
+			window.open(url);
+		}
+	}
+
+	// Save a copy of the page into the local copy folder, in the format chosen in settings, and resolve to its
+	// vault path. Throws when the page can't be fetched.
+	async saveLocalCopy(originalUrl: string): Promise<string> {
+		const response = await requestUrl({
+			url: originalUrl,
+			headers: {
+				'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+				'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+				'Accept-Language': 'en-US,en;q=0.5'
+			},
+			throw: false
+		});
+		if (response.status >= 400) {
+			throw new Error(`The page returned status ${response.status}`);
+		}
+
+		const markdown = this.settings.localCopyFormat === "markdown";
+		const content = markdown ?
+			this.buildReadableCopy(originalUrl, response.text) :
+			await this.buildSingleFileHtml(originalUrl, response.text);
+
+		let host = "page";
+		try {
+			host = new URL(originalUrl).hostname.replace(/^www\./, '');
+		} catch {
+			// Keep the generic name
+		}
+		const folder = normalizePath(this.settings.localCopyFolder);
+		if (!(await this.app.vault.adapter.exists(folder))) {
+			await this.app.vault.createFolder(folder);
+		}
+		const baseName = `${host} ${getLocalCopyKey(originalUrl)} ${moment.utc().format("YYYYMMDDHHmmss")}`;
+		const extension = markdown ? "md" : "html";
+		let path = `${folder}/${baseName}.${extension}`;
+		for (let i = 2; await this.app.vault.adapter.exists(path); i++) {
+			path = `${folder}/${baseName}-${i}.${extension}`;
+		}
+		await this.app.vault.create(path, content);
+		return path;
+	}
+
+	// The page as one HTML file: stylesheets and images inlined, scripts removed, links made absolute. Images
+	// referenced from CSS stay on the web.
+	private async buildSingleFileHtml(pageUrl: string, html: string): Promise<string> {
+		const $ = cheerio.load(html);
+		const resolve = (url: string) => {
+			try {
+				return new URL(url, pageUrl).href;
+			} catch {
+				return url;
+			}
+		};
+		const absoluteCssUrls = (css: string, base: string) => css.replace(/url\(\s*(['"]?)(?!data:)([^'")]+)\1\s*\)/g, (_, quote, url) => {
+			try {
+				return `url(${quote}${new URL(url, base).href}${quote})`;
+			} catch {
+				return `url(${quote}${url}${quote})`;
+			}
+		});
+
+		$('script, noscript, iframe, object, embed, base, link[rel="preload"], link[rel="prefetch"], link[rel="modulepreload"], meta[http-equiv="refresh"]').remove();
+
+		for (const element of $('link[rel="stylesheet"]').toArray()) {
+			const href = $(element).attr("href");
+			const resource = href ? await this.fetchLocalCopyResource(resolve(href)) : null;
+			if (resource) {
+				$(element).replaceWith(`<style>${absoluteCssUrls(resource.text, resolve(href!)).replace(/<\/style/gi, "<\\/style")}</style>`);
+			} else if (href) {
+				$(element).attr("href", resolve(href));
+			}
+		}
+		$("style").each((_, element) => {
+			$(element).text(absoluteCssUrls($(element).text(), pageUrl));
+		});
+
+		for (const element of $("img").toArray()) {
+			const src = $(element).attr("src") || $(element).attr("data-src");
+			if (!src || src.startsWith("data:")) {
+				continue;
+			}
+			const resource = await this.fetchLocalCopyResource(resolve(src));
+			const type = resource && (resource.headers["content-type"] || resource.headers["Content-Type"] || "").split(";")[0];
+			$(element).attr("src", resource && type?.startsWith("image/") ?
+				`data:${type};base64,${arrayBufferToBase64(resource.arrayBuffer)}` : resolve(src));
+			$(element).removeAttr("srcset").removeAttr("data-src").removeAttr("loading");
+		}
+		$("picture source").remove();
+
+		$("a[href]").each((_, element) => {
+			const href = $(element).attr("href")!;
+			if (!href.startsWith("#")) {
+				$(element).attr("href", resolve(href));
+			}
+		});
+
+		// Where the copy came from, for anyone opening the file later
+		$("head").prepend(`<meta charset="utf-8"><meta name="original-url" content="${pageUrl.replace(/"/g, "&quot;")}"><meta name="saved-at" content="${new Date().toISOString()}">`);
+		return $.html();
+	}
+
+	// Stylesheet or image for an HTML copy; null when it can't be fetched or is too big to inline
+	private async fetchLocalCopyResource(url: string): Promise<RequestUrlResponse | null> {
+		try {
+			const response = await requestUrl({ url, throw: false });
+			if (response.status >= 400 || response.arrayBuffer.byteLength > LOCAL_COPY_MAX_RESOURCE_BYTES) {
+				return null;
+			}
+			return response;
+		} catch (error) {
+			if (this.settings.debugMode) {
+				console.log(`Local copy: could not fetch ${url}`, error);
+			}
+			return null;
+		}
+	}
+
+	// The page's main content as a markdown note, with where it came from in the frontmatter
+	private buildReadableCopy(pageUrl: string, html: string): string {
+		const page = extractReadablePage(html, pageUrl);
+		const frontmatter: Record<string, string> = { source: pageUrl, saved: new Date().toISOString() };
+		if (page.title) {
+			frontmatter.title = page.title;
+		}
+		if (page.author) {
+			frontmatter.author = page.author;
+		}
+		// The article usually starts with its own heading
+		const heading = page.title && !page.markdown.startsWith("# ") ? `# ${page.title}\n\n` : "";
+		return `---\n${stringifyYaml(frontmatter)}---\n\n${heading}${page.markdown}\n`;
+	}
+
+	// Save a local copy of the link under the cursor and add it as the link's archive link
+	async saveLocalCopyAtCursor(editor: Editor) {
+		const cursor = editor.getCursor();
+		const lines = editor.getValue().split('\n');
+		if (this.isCodeOrMathLine(lines, cursor.line)) {
+			new Notice("No valid URL found on this line.");
+			return;
+		}
+
+		const frontmatterArchives = this.getFrontmatterArchives(lines);
+		const unarchived = this.getUnarchivedLinks(lines[cursor.line], frontmatterArchives);
+		const linkInfo = unarchived.find(link => cursor.ch >= link.start && cursor.ch <= link.end) || unarchived[0];
+		if (!linkInfo) {
+			new Notice("No link without an archive link on this line.");
+			return;
+		}
+
+		new Notice(`Saving a local copy of ${linkInfo.originalUrl}...`);
+		let path: string;
+		try {
+			path = await this.saveLocalCopy(linkInfo.originalUrl);
+		} catch (error) {
+			console.error("Error saving local copy:", error);
+			new Notice(`Could not save a local copy: ${error.message || "Unknown error"}`);
+			return;
+		}
+
+		// The note may have changed while the page was fetched
+		const currentLine = editor.getLine(cursor.line);
+		const currentLinkInfo = this.findUnarchivedLink(currentLine, linkInfo.originalUrl, frontmatterArchives);
+		if (currentLinkInfo) {
+			this.replaceLinkInLine(editor, cursor.line, currentLine, currentLinkInfo, path);
+			new Notice("Local copy saved and linked.");
+		} else {
+			new Notice(`Local copy saved to ${path}, but the link was no longer on its line.`);
+		}
+	}
+
+	// Clip the archived link under the cursor: write the main content of its snapshot to a note in the clip
+	// folder and link the clip right after the archive link
+	async clipArchivedLinkAtCursor(editor: Editor) {
+		const cursor = editor.getCursor();
+		const noteLinks = this.collectNoteLinks(editor.getValue().split('\n'))
+			.filter(noteLink => noteLink.line === cursor.line && noteLink.archiveUrl);
+		const noteLink = noteLinks.find(candidate => cursor.ch >= candidate.link.start && cursor.ch <= candidate.link.end) || noteLinks[0];
+		if (!noteLink) {
+			new Notice("No archived link on this line.");
+			return;
+		}
+		const originalUrl = noteLink.link.originalUrl;
+
+		new Notice(`Clipping ${originalUrl}...`);
+		let clipPath: string;
+		try {
+			clipPath = await this.createClipNote(originalUrl, noteLink.archiveUrl!, noteLink.timestamp);
+		} catch (error) {
+			console.error("Error clipping archived page:", error);
+			new Notice(`Could not clip the archived page: ${error.message || "Unknown error"}`);
+			return;
+		}
+
+		// The line may have changed while the snapshot was fetched. A swapped dead link has its original second.
+		const line = editor.getLine(cursor.line);
+		const pair = this.pairArchiveLinks(line, this.getFrontmatterArchives(editor.getValue().split('\n')))
+			.find(candidate => (candidate.swapped ? candidate.companion!.originalUrl : candidate.link.originalUrl) === originalUrl);
+		if (pair) {
+			const clipLink = ` ([[${clipPath.replace(/\.md$/, "")}|${CLIP_LINK_TEXT}]])`;
+			const clipLinkText = isTableRow(line) ? escapeTablePipes(clipLink) : clipLink;
+			editor.setLine(cursor.line, line.slice(0, pair.companionEnd) + clipLinkText + line.slice(pair.companionEnd));
+			new Notice("Clip saved and linked.");
+		} else {
+			new Notice(`Clip saved to ${clipPath}, but the link was no longer on its line.`);
+		}
+	}
+
+	// Write a clip note for a snapshot and resolve to its path. recordedTimestamp is the capture date written
+	// with the archive link, for snapshots whose URL doesn't carry one.
+	async createClipNote(originalUrl: string, archiveUrl: string, recordedTimestamp?: string): Promise<string> {
+		const provider = this.getProviderForUrl(archiveUrl);
+		let html: string;
+		if (this.isLocalCopyPath(archiveUrl)) {
+			if (!archiveUrl.endsWith(".html")) {
+				throw new Error("This local copy is already a readable note");
+			}
+			html = await this.app.vault.adapter.read(archiveUrl);
+		} else {
+			const response = await requestUrl({
+				url: provider?.getRawSnapshotUrl?.(archiveUrl) || archiveUrl,
+				headers: {
+					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+					'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+				},
+				throw: false
+			});
+			if (response.status >= 400) {
+				throw new Error(`The snapshot returned status ${response.status}`);
+			}
+			html = response.text;
+		}
+
+		const page = extractReadablePage(html, originalUrl);
+		if (!page.markdown) {
+			throw new Error("No readable content found in the snapshot");
+		}
+		const title = provider ? provider.cleanTitle(page.title) : page.title;
+		let host = "";
+		try {
+			host = new URL(originalUrl).hostname.replace(/^www\./, '');
+		} catch {
+			// No site name to fall back on
+		}
+		// A service's page (GhostArchive's, say) names the service rather than the site
+		const isServiceName = provider && [provider.name, ...provider.domains]
+			.some(name => page.siteName.toLowerCase() === name.toLowerCase() || page.siteName.toLowerCase() === name.split('.')[0]);
+		const siteName = isServiceName ? host : page.siteName;
+
+		const frontmatter: Record<string, string> = { source: originalUrl, archive: archiveUrl };
+		const captured = this.getSnapshotTime(this.getSnapshotTimestamp(archiveUrl) || recordedTimestamp || "");
+		if (captured !== null) {
+			frontmatter.captured = new Date(captured).toISOString();
+		}
+		if (title) {
+			frontmatter.title = title;
+		}
+		if (page.author) {
+			frontmatter.author = page.author;
+		}
+		if (siteName) {
+			frontmatter.site = siteName;
+		}
+
+		const folder = normalizePath(this.settings.clipFolder);
+		if (!(await this.app.vault.adapter.exists(folder))) {
+			await this.app.vault.createFolder(folder);
+		}
+		// Characters Obsidian doesn't allow in file names or that break links
+		const baseName = (title || host || "Clip").replace(/[\\/:*?"<>|#^[\]]/g, "").replace(/\s+/g, " ").trim().slice(0, 100) || "Clip";
+		let path = `${folder}/${baseName}.md`;
+		for (let i = 2; await this.app.vault.adapter.exists(path); i++) {
+			path = `${folder}/${baseName} ${i}.md`;
+		}
+
+		// The article usually starts with its own heading
+		const heading = title && !page.markdown.startsWith("# ") ? `# ${title}\n\n` : "";
+		await this.app.vault.create(path, `---\n${stringifyYaml(frontmatter)}---\n\n${heading}${page.markdown}\n`);
+		return path;
+	}
+
+	// Add an archive link next to the first unarchived occurrence of url in a file
+	async insertArchiveLinkInFile(file: TFile, url: string, archivedUrl: string, undoRun?: UndoRun): Promise<boolean> {
+		const lines = (await this.app.vault.read(file)).split('\n');
+		const contexts = this.classifyMarkdownLines(lines);
+		const frontmatterArchives = this.getFrontmatterArchives(lines);
+
+		for (let i = 0; i < lines.length; i++) {
+			if (contexts[i] !== "text") {
+				continue;
+			}
+
+			const linkInfo = this.findUnarchivedLink(lines[i], url, frontmatterArchives);
+			if (!linkInfo) {
+				continue;
+			}
+
+			const changes = await this.buildArchiveChanges(file.path, lines, i, linkInfo, archivedUrl);
+			if (changes === null) {
+				return false;
+			}
+
+			// The lines are checked again in case the note changed while the title was being fetched
+			return (await this.applyLineChangesToFile(file, changes, undoRun)) === changes.length;
+		}
+
+		return false;
+	}
+
+	async showArchivePromptModal(originalUrl: string): Promise<string | null> {
+		return new Promise((resolve) => {
+			new ArchivePromptModal(this.app, originalUrl, resolve, this).open();
+		});
+	}
+
+	// Snapshot URL the user brings back from a service's CAPTCHA-protected page, or null if they give up
+	async showCaptchaHandoffModal(providerId: string, originalUrl: string): Promise<string | null> {
+		const provider = this.archiveProviders.get(providerId);
+		if (!provider) {
+			return null;
+		}
+		return new Promise((resolve) => {
+			new CaptchaHandoffModal(this.app, provider, originalUrl, resolve).open();
+		});
+	}
+
+	async extractTitleFromUrl(url: string, retryCount = 0): Promise<string> {
+		// Check cache first (if enabled and not a retry)
+		if (this.settings.enableTitleCache && retryCount === 0) {
 			const cachedTitle = this.titleCache.get(url);
 			if (cachedTitle) {
 				if (this.settings.debugMode) {
@@ -617,11 +2699,8 @@ export default class LinkArchiverPlugin extends Plugin {
 // Helper function to detect YouTube URLs
 const isYouTube = (url: string) => url.includes('youtube.com/watch') || url.includes('youtu.be/');
 
-// Helper function to detect GhostArchive URLs
-const isGhostArchive = (url: string) => url.includes('ghostarchive.org/archive/') || url.includes('ghostarchive.org/varchive/');
-
-// Helper function to detect Wayback Machine URLs
-const isWaybackMachine = (url: string) => url.includes('web.archive.org');
+// Archive pages are titled by the provider that serves them
+const archiveProvider = this.getProviderForUrl(url);
 
 		try {
 			// Enhanced headers to avoid detection and improve success rate
@@ -649,21 +2728,9 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 				const $ = cheerio.load(response.text);
 				let title = '';
 
-    // For GhostArchive URLs, extract the archived page's title
-    if (isGhostArchive(url)) {
-      // GhostArchive-specific title cleaning
-      const cleanGhostTitle = (title: string): string => {
-        return title
-          .replace(/ - GhostArchive$/, '')
-          .replace(/ \| GhostArchive$/, '')
-          .replace(/GhostArchive - /, '')
-          .replace(/^GhostArchive:\s*/i, '')
-          .trim();
-      };
-
-      // Apply cleaning to all title sources
-      title = cleanGhostTitle(title);
-					// GhostArchive pages contain the original title
+    // For archive snapshots, extract the archived page's title
+    if (archiveProvider && archiveProvider.isSnapshotUrl(url)) {
+					// Archive pages contain the original title
 					// Try og:title first (most reliable for archived content)
 					title = $('meta[property="og:title"]').attr('content')?.trim() || '';
 
@@ -681,18 +2748,14 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 								$('[class*="title"]').first().text().trim();
 					}
 
-					// Fall back to <title> tag, removing "GhostArchive" suffix if present
+					// Fall back to <title> tag
 					if (!title) {
 						title = $('title').first().text().trim();
-						title = title.replace(/ - GhostArchive$/, '')
-									 .replace(/ \| GhostArchive$/, '')
-									 .replace(/GhostArchive - /, '')
-									 .trim();
 					}
 
-					// Additional cleanup for GhostArchive titles
+					// Remove the service's branding from whichever source we used
 					if (title) {
-						title = title.replace(/^GhostArchive:\s*/i, '').trim();
+						title = archiveProvider.cleanTitle(title);
 					}
 				}
     // For YouTube, prioritize meta tags over <title> (which includes " - YouTube")
@@ -895,11 +2958,7 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 					if (titleMatch && titleMatch[1]) {
 						title = titleMatch[1].trim();
 					} else {
-						title = rawTitle.replace(/ - GhostArchive$/, '')
-									 .replace(/ \| GhostArchive$/, '')
-									 .replace(/GhostArchive - /, '')
-									 .replace(/^GhostArchive:\s*/i, '')
-									 .trim();
+						title = this.archiveProviders.get("ghostarchive.org")?.cleanTitle(rawTitle) ?? rawTitle;
 					}
 					if (title && title !== rawTitle) console.log(`Cleaned title: "${title}"`);
 				}
@@ -1045,61 +3104,201 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 		return youtubeUrl;
 	}
 
-	async replaceLinkInLine(editor: Editor, lineNumber: number, originalLine: string, linkInfo: any, archivedUrl: string) {
-		// Extract the plain URL if archivedUrl is a markdown link
-		let plainArchivedUrl = archivedUrl;
-		const markdownMatch = archivedUrl.match(/\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/);
-		if (markdownMatch) {
-			plainArchivedUrl = markdownMatch[2];
-		}
-		
-		// For ghostarchive.org, ensure URL is properly formatted
-		if (this.settings.archiveSite === 'ghostarchive.org') {
-		  // Allow both regular and video archives
-		  if (!plainArchivedUrl.includes('ghostarchive.org/archive/') &&
-		      !plainArchivedUrl.includes('ghostarchive.org/varchive/')) {
-		    new Notice(`Invalid ghostarchive.org URL: ${plainArchivedUrl}`);
-		    return;
-		  }
-		}
-		
-		let newLine;
-		
-		// Determine how to format the original link and archive link
-		let originalPart, archivedPart;
-	  
-	  // Check if it's an HTML anchor tag
-	  if (linkInfo.fullMatch.startsWith('<a')) {
-	    // For HTML links, preserve the original tag and append archive link
-	    originalPart = linkInfo.fullMatch;
-	    archivedPart = `<a href="${plainArchivedUrl}">archive</a>`;
-	  }
-	  // Handle markdown and naked URLs
-	  else {
-	    // Case 1: If it's a markdown link and we want to preserve it
-	    if (!linkInfo.isNaked && this.settings.preserveMarkdownLinks) {
-	      // Keep the original markdown link as is
-	      originalPart = `[${linkInfo.displayText}](${linkInfo.originalUrl})`;
+	async replaceLinkInLine(editor: Editor, lineNumber: number, originalLine: string, linkInfo: LineLink, archivedUrl: string, snapshot?: ArchiveSnapshot) {
+	  // More robust replacement - ensure we're replacing the exact match
+	  if (originalLine.slice(linkInfo.start, linkInfo.end) === linkInfo.fullMatch) {
+	    const file = this.getEditorFile(editor);
+	    if (this.settings.archivePlacement === "inline" || !file) {
+	      const newLine = await this.archiveLinkInLine(originalLine, linkInfo, archivedUrl, snapshot);
+	      if (newLine !== null) {
+	        editor.setLine(lineNumber, newLine);
+	        if (file) {
+	          this.indexNoteLinks(file.path, editor.getValue());
+	        }
+	      }
+	      return;
 	    }
-	    // Case 2: If we want to use naked URLs
-	    else if (this.settings.useNakedUrls) {
-	      // Just use the naked URL, regardless of whether it was markdown before
-	      originalPart = linkInfo.originalUrl;
+
+	    // Footnotes and frontmatter touch other lines of the note too
+	    try {
+	      const changes = await this.buildArchiveChanges(file.path, editor.getValue().split('\n'), lineNumber, linkInfo, archivedUrl, snapshot);
+	      if (changes !== null) {
+	        await this.applyLineChangesToFile(file, changes);
+	      }
+	    } catch (error) {
+	      new Notice(`Could not write archive link: ${error.message}`);
 	    }
-	    // Case 3: Default to markdown links (convert naked URLs to markdown or update existing markdown links)
-	    else {
-	      // For both naked URLs and markdown links when preserveMarkdownLinks is disabled
-	      let displayText;
-	      
-	      // Always try to get a meaningful title from the website
-	      try {
-	        displayText = await this.extractTitleFromUrl(linkInfo.originalUrl);
-	      } catch {
-	        // If title scraping fails, use a more descriptive part of the URL if possible
-	        try {
-	          const urlObj = new URL(linkInfo.originalUrl);
-	          const pathParts = urlObj.pathname.split('/').filter(part => part.length > 0);
-	          
+	  } else {
+	    // Fallback: if exact match fails, log and show error
+	    if (this.settings.debugMode) {
+	  console.warn(`Could not find exact match for: ${linkInfo.fullMatch} in line: ${originalLine}`);
+	 }
+	    new Notice(`Could not match link in line for replacement: ${linkInfo.originalUrl}`);
+	  }
+}
+
+	// The one line transformation behind every archive command (cursor, note, vault, targeted and
+	// captures): line with linkInfo followed by its archive link. Null if the archive URL is invalid.
+	async archiveLinkInLine(line: string, linkInfo: LineLink, archivedUrl: string, snapshot?: ArchiveSnapshot): Promise<string | null> {
+		const replacement = await this.formatArchiveReplacement(linkInfo, archivedUrl, snapshot);
+		if (replacement === null) {
+			return null;
+		}
+		return this.spliceLink(line, linkInfo, isTableRow(line) ? escapeTablePipes(replacement) : replacement);
+	}
+
+	// The changes that archiving linkInfo on lines[lineIndex] as archivedUrl makes to the note, for the
+	// chosen placement. Null if the archive URL is invalid.
+	async buildArchiveChanges(path: string, lines: string[], lineIndex: number, linkInfo: LineLink, archivedUrl: string, snapshot?: ArchiveSnapshot): Promise<ProposedLineChange[] | null> {
+		if (this.settings.archivePlacement === "inline") {
+			const newLine = await this.archiveLinkInLine(lines[lineIndex], linkInfo, archivedUrl, snapshot);
+			return newLine === null ? null : [{ file: path, line: lineIndex, oldLine: lines[lineIndex], newLine }];
+		}
+
+		const plainArchivedUrl = this.getPlainArchiveUrl(archivedUrl);
+		if (!this.isUsableArchiveUrl(plainArchivedUrl)) {
+			return null;
+		}
+
+		if (this.settings.archivePlacement === "footnote") {
+			return this.buildFootnoteArchiveChanges(path, lines, lineIndex, linkInfo, plainArchivedUrl, snapshot);
+		}
+
+		const timestamp = this.formatSnapshotTimestamp(this.getSnapshotTimestamp(plainArchivedUrl, snapshot), DEFAULT_TIMESTAMP_FORMAT);
+		return [this.buildFrontmatterArchiveChange(path, lines, (archives) => {
+			archives[linkInfo.originalUrl] = timestamp ? { url: plainArchivedUrl, timestamp } : { url: plainArchivedUrl };
+		})];
+	}
+
+	// Footnote placement: a reference after the link and its definition added to the archive
+	// footnotes at the end of the note
+	private buildFootnoteArchiveChanges(path: string, lines: string[], lineIndex: number, linkInfo: LineLink, plainArchivedUrl: string, snapshot?: ArchiveSnapshot): ProposedLineChange[] {
+		let highest = 0;
+		for (const line of lines) {
+			for (const match of line.matchAll(/\[\^a(\d+)\]/g)) {
+				highest = Math.max(highest, parseInt(match[1], 10));
+			}
+		}
+		const label = `a${highest + 1}`;
+
+		// A reference touching a naked URL would be read as part of the URL
+		const line = lines[lineIndex];
+		const newLine = line.slice(0, linkInfo.end) + `${linkInfo.isNaked ? " " : ""}[^${label}]` + line.slice(linkInfo.end);
+
+		const service = snapshot?.service || this.getProviderForUrl(plainArchivedUrl)?.name || "archive";
+		const archiveLink = this.isLocalCopyPath(plainArchivedUrl) ? `[${service}](<${plainArchivedUrl}>)` :
+			this.settings.useNakedUrls || this.settings.useNakedArchiveOnly ? plainArchivedUrl : `[${service}](${plainArchivedUrl})`;
+		const date = this.formatSnapshotTimestamp(this.getSnapshotTimestamp(plainArchivedUrl, snapshot), DEFAULT_TIMESTAMP_FORMAT);
+		const definition = `[^${label}]: Archived at ${archiveLink}${date ? ` on ${date}` : ""}`;
+
+		// Append after the last non-blank line, so the note keeps its trailing newline. Archive
+		// footnotes stay together; a blank line separates the first one from the note.
+		let lastIndex = lines.length - 1;
+		while (lastIndex > 0 && lines[lastIndex].trim() === "") {
+			lastIndex--;
+		}
+		const lastLine = lastIndex === lineIndex ? newLine : lines[lastIndex];
+		const withDefinition = `${lastLine}${ARCHIVE_FOOTNOTE_DEFINITION.test(lastLine) ? "\n" : "\n\n"}${definition}`;
+
+		if (lastIndex === lineIndex) {
+			return [{ file: path, line: lineIndex, oldLine: line, newLine: withDefinition }];
+		}
+		return [
+			{ file: path, line: lineIndex, oldLine: line, newLine },
+			{ file: path, line: lastIndex, oldLine: lines[lastIndex], newLine: withDefinition }
+		];
+	}
+
+	// Frontmatter placement: rewrite the frontmatter (creating it if needed) with update applied to its
+	// archives: map. Throws when the frontmatter isn't valid YAML or archives isn't a map. Note that the
+	// frontmatter is written back in stringifyYaml's layout, as Obsidian's own property editing does.
+	buildFrontmatterArchiveChange(path: string, lines: string[], update: (archives: Record<string, FrontmatterArchiveEntry>) => void): ProposedLineChange {
+		const end = this.getFrontmatterEnd(lines);
+		const frontmatter = end === -1 ? {} : parseYaml(lines.slice(1, end).join('\n')) || {};
+		const archives = frontmatter[FRONTMATTER_ARCHIVES_KEY] || {};
+		if (typeof archives !== "object" || Array.isArray(archives)) {
+			throw new Error(`"${FRONTMATTER_ARCHIVES_KEY}" in the frontmatter of ${path} is not a map`);
+		}
+
+		update(archives);
+		if (Object.keys(archives).length > 0) {
+			frontmatter[FRONTMATTER_ARCHIVES_KEY] = archives;
+		} else {
+			delete frontmatter[FRONTMATTER_ARCHIVES_KEY];
+		}
+
+		const yaml = Object.keys(frontmatter).length > 0 ? stringifyYaml(frontmatter) : "";
+		if (end === -1) {
+			return { file: path, line: 0, oldLine: lines[0], newLine: `---\n${yaml}---\n${lines[0]}` };
+		}
+		return { file: path, line: 0, oldLine: lines.slice(0, end + 1).join('\n'), newLine: `---\n${yaml}---` };
+	}
+
+	// Reject URLs on a known archive service that don't point at a snapshot
+	private isUsableArchiveUrl(plainArchivedUrl: string): boolean {
+		const archiveProvider = this.getProviderForUrl(plainArchivedUrl);
+		if (archiveProvider && !archiveProvider.isSnapshotUrl(plainArchivedUrl)) {
+			new Notice(`Invalid ${archiveProvider.name} URL: ${plainArchivedUrl}`);
+			return false;
+		}
+		return true;
+	}
+
+	// Wayback-style URLs and local copy file names carry the 14-digit timestamp when no snapshot details were passed
+	getSnapshotTimestamp(plainArchivedUrl: string, snapshot?: ArchiveSnapshot): string {
+		return snapshot?.timestamp || plainArchivedUrl.match(/\/(\d{14})[a-z_]*\//)?.[1] ||
+			(this.isLocalCopyPath(plainArchivedUrl) ? plainArchivedUrl.match(LOCAL_COPY_FILE_NAME)?.[2] : "") || "";
+	}
+
+	// Archive URLs sometimes come back wrapped in a markdown link; reduce them to the URL
+	getPlainArchiveUrl(archivedUrl: string): string {
+		const markdownMatch = archivedUrl.match(/\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/);
+		return markdownMatch ? markdownMatch[2] : archivedUrl;
+	}
+
+	// Build the "original | archive" text that replaces linkInfo.fullMatch, or null if the archive URL is invalid.
+	// snapshot supplies the service and timestamp for the output template.
+	async formatArchiveReplacement(linkInfo: any, archivedUrl: string, snapshot?: ArchiveSnapshot): Promise<string | null> {
+		const plainArchivedUrl = this.getPlainArchiveUrl(archivedUrl);
+		if (!this.isUsableArchiveUrl(plainArchivedUrl)) {
+		  return null;
+		}
+		
+		// Determine how to format the original link and archive link
+		let originalPart, archivedPart;
+	  
+	  // Check if it's an HTML anchor tag
+	  if (linkInfo.fullMatch.startsWith('<a')) {
+	    // For HTML links, preserve the original tag and append archive link
+	    originalPart = linkInfo.fullMatch;
+	    archivedPart = this.isLocalCopyPath(plainArchivedUrl) ? `[${LOCAL_COPY_TEXT}](<${plainArchivedUrl}>)` : `<a href="${plainArchivedUrl}">archive</a>`;
+	  }
+	  // Handle markdown and naked URLs
+	  else {
+	    // Case 1: If it's a markdown link and we want to preserve it
+	    if (!linkInfo.isNaked && this.settings.preserveMarkdownLinks) {
+	      // Keep the original markdown link as is
+	      originalPart = `[${linkInfo.displayText}](${linkInfo.originalUrl})`;
+	    }
+	    // Case 2: If we want to use naked URLs
+	    else if (this.settings.useNakedUrls) {
+	      // Just use the naked URL, regardless of whether it was markdown before
+	      originalPart = linkInfo.originalUrl;
+	    }
+	    // Case 3: Default to markdown links (convert naked URLs to markdown or update existing markdown links)
+	    else {
+	      // For both naked URLs and markdown links when preserveMarkdownLinks is disabled
+	      let displayText;
+	      
+	      // Always try to get a meaningful title from the website
+	      try {
+	        displayText = await this.extractTitleFromUrl(linkInfo.originalUrl);
+	      } catch {
+	        // If title scraping fails, use a more descriptive part of the URL if possible
+	        try {
+	          const urlObj = new URL(linkInfo.originalUrl);
+	          const pathParts = urlObj.pathname.split('/').filter(part => part.length > 0);
+	          
 	          if (pathParts.length > 0) {
 	            // Use the last meaningful path segment, replacing hyphens with spaces
 	            const lastSegment = pathParts[pathParts.length - 1]
@@ -1129,8 +3328,10 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 	      originalPart = `[${displayText}](${linkInfo.originalUrl})`;
 	    }
 	    
-	    // Format the archive part based on settings
-	    if (this.settings.useNakedUrls || this.settings.useNakedArchiveOnly) {
+	    // Format the archive part based on settings. A vault path isn't a link on its own, so local copies are always markdown links.
+	    if (this.isLocalCopyPath(plainArchivedUrl)) {
+	      archivedPart = `[${LOCAL_COPY_TEXT}](<${plainArchivedUrl}>)`;
+	    } else if (this.settings.useNakedUrls || this.settings.useNakedArchiveOnly) {
 	      // Use naked URL for archive
 	      archivedPart = plainArchivedUrl;
 	    } else {
@@ -1140,209 +3341,33 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 	  }
 	  
 	  // Combine with the user's divider text
-	  const replacement = `${originalPart}${this.settings.dividerText}${archivedPart}`;
-	  
-	  // More robust replacement - ensure we're replacing the exact match
-	  if (originalLine.includes(linkInfo.fullMatch)) {
-	    newLine = originalLine.replace(linkInfo.fullMatch, replacement);
-	    editor.setLine(lineNumber, newLine);
-	  } else {
-	    // Fallback: if exact match fails, log and show error
-	    if (this.settings.debugMode) {
-	  console.warn(`Could not find exact match for: ${linkInfo.fullMatch} in line: ${originalLine}`);
-	 }
-	    new Notice(`Could not match link in line for replacement: ${linkInfo.originalUrl}`);
-	  }
+	  return this.combineArchiveParts(linkInfo, originalPart, archivedPart, plainArchivedUrl, snapshot);
 }
 
-	async archiveAllLinksInNote(editor: Editor) {
+	async archiveAllLinksInNote(editor: Editor, checkHealth = this.settings.checkLinkHealth) {
 	   // Check if the file should be excluded
 		const activeFile = this.app.workspace.getActiveFile();
-		if (activeFile) {
-			const exclusionResult = this.shouldExcludeFile(activeFile);
-			if (exclusionResult.excluded) {
-				new Notice(`File excluded from archiving: ${exclusionResult.reason}`);
-				return;
-			}
+		if (!activeFile) {
+			new Notice("No active note to archive.");
+			return;
+		}
+		const exclusionResult = this.shouldExcludeFile(activeFile);
+		if (exclusionResult.excluded) {
+			new Notice(`File excluded from archiving: ${exclusionResult.reason}`);
+			return;
 		}
 		
-		const content = editor.getValue();
-		const lines = content.split('\n');
-		let archivedCount = 0;
-		
-		// Detailed tracking of skipped links
-		const skippedLinks = {
-			alreadyArchived: 0,
-			isArchiveUrl: 0,
-			noSnapshots: 0,
-			errors: 0,
-			rateLimited: 0
-		};
+		// Lookups run in the background queue so the note stays editable
+		const items = this.collectArchiveJobItems(activeFile.path, editor.getValue(), checkHealth);
+		const queued = this.enqueueArchiveJobItems(items, "note");
 		
-		// For detailed reporting
-		const skippedDetails: Array<{line: number, url: string, reason: string}> = [];
-	 
-	 new Notice("Starting to archive links in note...");
-	 
-	 // Process links one by one with delays to avoid overwhelming archive services
-	 for (let i = 0; i < lines.length; i++) {
-	   // Skip code blocks and quotes
-	   if (this.isCodeBlockOrQuote(lines, i)) {
-	     continue;
-	   }
-	   
-	   const linkInfo = this.extractUrlFromLine(lines[i]);
-	   
-	   // Skip if no link found
-	   if (!linkInfo) {
-	     continue;
-	   }
-	   
-	   // Skip if line already has archive link
-	   if (this.lineContainsArchiveLink(lines[i])) {
-	     skippedLinks.alreadyArchived++;
-	     if (this.settings.detailedReporting) {
-	       skippedDetails.push({
-	         line: i + 1,
-	         url: linkInfo.originalUrl,
-	         reason: "Already has archive link"
-	       });
-	     }
-	     continue;
-	   }
-    
-    // Skip if the URL is an archive URL (including ghostarchive)
-    if (this.isArchiveUrl(linkInfo.originalUrl)) {
-      skippedLinks.isArchiveUrl++;
-      if (this.settings.detailedReporting) {
-        skippedDetails.push({
-          line: i + 1,
-          url: linkInfo.originalUrl,
-          reason: "Is an archive URL"
-        });
-      }
-      continue;
-    }
-    
-    // Skip ghostarchive URLs specifically
-    const ghostArchivePattern = new RegExp(
-        "https?://ghostarchive\\.org/(archive|varchive)/[a-z0-9]+",
-        "gi"
-    );
-    if (linkInfo.originalUrl.match(ghostArchivePattern)) {
-      skippedLinks.isArchiveUrl++;
-      if (this.settings.detailedReporting) {
-        skippedDetails.push({
-          line: i + 1,
-          url: linkInfo.originalUrl,
-          reason: "Is a ghostarchive URL"
-        });
-      }
-      continue;
-    }
-    
-    try {
-      new Notice(`Checking link ${archivedCount + Object.values(skippedLinks).reduce((a, b) => a + b, 0) + 1}...`, 1000);
-      
-      const result = await this.getExistingArchive(linkInfo.originalUrl);
-      
-      // Check for rate limiting
-      if (result.rateLimited) {
-        skippedLinks.rateLimited++;
-        if (this.settings.detailedReporting) {
-          skippedDetails.push({
-            line: i + 1,
-            url: linkInfo.originalUrl,
-            reason: "Rate limited by archive service"
-          });
-        }
-        
-        // If rate limited, show a notice and stop processing
-        new Notice("Rate limited by archive service. Please try again later.");
-        break;
-      }
-      
-      if (result.foundArchive && result.archivedUrl) {
-        this.replaceLinkInLine(editor, i, lines[i], linkInfo, result.archivedUrl);
-        archivedCount++;
-        
-        // Update lines array to reflect changes for next iterations
-        lines[i] = editor.getLine(i);
-      } else {
-        skippedLinks.noSnapshots++;
-        if (this.settings.detailedReporting) {
-          skippedDetails.push({
-            line: i + 1,
-            url: linkInfo.originalUrl,
-            reason: "No archive snapshots available"
-          });
-        }
-      }
-      
-      // Add delay between requests to be nice to archive services
-      if (i < lines.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second delay
-      }
-    } catch (error) {
-      if (this.settings.debugMode) {
-    console.error(`Error archiving link on line ${i + 1}:`, error);
-   }
-      
-      // Check if the error is related to rate limiting
-      if (error.message && (
-          error.message.includes("rate limit") ||
-          error.message.includes("too many requests") ||
-          error.message.includes("429")
-      )) {
-        skippedLinks.rateLimited++;
-        if (this.settings.detailedReporting) {
-          skippedDetails.push({
-            line: i + 1,
-            url: linkInfo.originalUrl,
-            reason: "Rate limited by archive service"
-          });
-        }
-        
-        // If rate limited, show a notice and stop processing
-        new Notice("Rate limited by archive service. Please try again later.");
-        break;
-      } else {
-        skippedLinks.errors++;
-        if (this.settings.detailedReporting) {
-          skippedDetails.push({
-            line: i + 1,
-            url: linkInfo.originalUrl,
-            reason: `Error: ${error.message || "Unknown error"}`
-          });
-        }
-      }
-    }
-  }
-
-  // Calculate total skipped
-  const totalSkipped = Object.values(skippedLinks).reduce((a, b) => a + b, 0);
-  
-  // Show detailed report if enabled
-  if (this.settings.detailedReporting && skippedDetails.length > 0) {
-    // Create a report modal
-    new ArchiveReportModal(this.app, {
-      archivedCount,
-      skippedLinks,
-      skippedDetails,
-      isNote: true,
-      filePath: activeFile ? activeFile.path : null
-    }).open();
-  } else {
-    // Simple notice
-    new Notice(`Note archiving complete. Archived: ${archivedCount}, Skipped: ${totalSkipped}`);
-  }
-  
-  return {
-    archivedCount,
-    skippedLinks,
-    skippedDetails
-  };
-}
+		if (queued === 0) {
+			new Notice("No links to archive in this note.");
+			return;
+		}
+		const what = checkHealth ? "archiving and link health checks" : "archiving";
+		new Notice(`Queued ${queued} link${queued > 1 ? 's' : ''} for ${what}. Progress is shown in the status bar.`);
+	}
 
 	// Convert naked URLs to markdown links at cursor position or in selection
 	async convertNakedUrlsToMarkdown(editor: Editor) {
@@ -1378,8 +3403,8 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 		// Skip URLs in code blocks (only check if not a selection)
 		if (!isSelection) {
 			const line = editor.getLine(lineNumber);
-			if (this.isCodeBlockOrQuote(editor.getValue().split('\n'), lineNumber)) {
-				new Notice("Cannot convert URLs inside code blocks or quotes.");
+			if (this.isCodeOrMathLine(editor.getValue().split('\n'), lineNumber)) {
+				new Notice("Cannot convert URLs inside code blocks or math.");
 				return;
 			}
 		}
@@ -1431,39 +3456,45 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 			return;
 		}
 
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice("No active note to convert.");
+			return;
+		}
+
 		const content = editor.getValue();
 		const lines = content.split('\n');
-		let totalConverted = 0;
+		const contexts = this.classifyMarkdownLines(lines);
+		const changes: ProposedLineChange[] = [];
 
 		new Notice("Converting all naked URLs in note...");
 
 		// Process line by line
 		for (let i = 0; i < lines.length; i++) {
-			// Skip code blocks and quotes
-			if (this.isCodeBlockOrQuote(lines, i)) {
+			// Skip code, math and frontmatter
+			if (contexts[i] !== "text") {
 				continue;
 			}
 
 			const line = lines[i];
 
 			// Find naked URLs (not already in markdown links)
-			const urlRegex = /(?<!\]\()https?:\/\/[^\s)\]]+(?!\))/g;
-			const urls = line.match(urlRegex);
+			const nakedLinks = this.extractLinksFromLine(line).filter(link => link.isNaked);
 
-			if (!urls || urls.length === 0) {
+			if (nakedLinks.length === 0) {
 				continue;
 			}
 
 			let modifiedLine = line;
 
-			// Process each URL in the line
-			for (const url of urls) {
+			// Process each URL in the line, last first so earlier offsets stay valid
+			for (const link of nakedLinks.reverse()) {
+				const url = link.originalUrl;
 				try {
 					const title = await this.extractTitleFromUrl(url);
 
 					// Replace naked URL with markdown link
-					modifiedLine = modifiedLine.replace(url, `[${title}](${url})`);
-					totalConverted++;
+					modifiedLine = this.spliceLink(modifiedLine, link, `[${title}](${url})`);
 
 					// Add delay between requests
 					await new Promise(resolve => setTimeout(resolve, 500));
@@ -1474,12 +3505,18 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 				}
 			}
 
-			// Update the line
-			editor.setLine(i, modifiedLine);
-			lines[i] = modifiedLine; // Keep local array in sync
+			if (modifiedLine !== line) {
+				changes.push({ file: activeFile.path, line: i, oldLine: line, newLine: modifiedLine });
+			}
+		}
+
+		if (changes.length === 0) {
+			new Notice("No naked URLs found to convert.");
+			return;
 		}
 
-		new Notice(`Conversion complete. Converted ${totalConverted} naked URL${totalConverted !== 1 ? 's' : ''} to markdown.`);
+		// Lines edited during title scraping are left alone
+		await this.commitLineChanges("Convert naked URLs", changes, "URL conversion");
 	}
 
 	async archiveAllLinksInCurrentNote() {
@@ -1510,1566 +3547,3585 @@ const isWaybackMachine = (url: string) => url.includes('web.archive.org');
 }
 
 	async archiveAllLinksInVault() {
-  new ArchiveVaultModal(this.app, async () => {
-    const files = this.app.vault.getMarkdownFiles();
-    let totalArchived = 0;
-    
-    // Detailed tracking
-    const skippedLinks = {
-      alreadyArchived: 0,
-      isArchiveUrl: 0,
-      noSnapshots: 0,
-      errors: 0,
-      rateLimited: 0
-    };
-    
-  // Track excluded files
-  const excludedFiles: Array<{path: string, reason: string}> = [];
-  const processedFiles: Array<{path: string, archived: number, skipped: number}> = [];
-  
-  // For detailed reporting
-  const skippedDetails: Array<{file: string, line: number, url: string, reason: string}> = [];
-    
-    new Notice("Starting vault-wide archiving...");
-    
-  // Filter files based on exclusion settings
-  const filesToProcess: any[] = [];
-    for (const file of files) {
-      const exclusionResult = this.shouldExcludeFile(file);
-      if (exclusionResult.excluded) {
-        excludedFiles.push({
-          path: file.path,
-          reason: exclusionResult.reason
-        });
-      } else {
-        filesToProcess.push(file);
-      }
-    }
-    
-    // Process each file
-    for (const file of filesToProcess) {
-      try {
-        const content = await this.app.vault.read(file);
-        const lines = content.split('\n');
-        let modified = false;
-        let fileArchived = 0;
-        let fileSkipped = 0;
-        
-        for (let i = 0; i < lines.length; i++) {
-          // Skip code blocks and quotes
-          if (this.isCodeBlockOrQuote(lines, i)) {
-            continue;
-          }
-          
-          const linkInfo = this.extractUrlFromLine(lines[i]);
-          
-          // Skip if no link found
-          if (!linkInfo) {
-            continue;
-          }
+  new ArchiveVaultModal(this.app, () => this.startVaultArchiveJob()).open();
+}
 
-          // Skip if line already has archive link
-          if (this.lineContainsArchiveLink(lines[i])) {
-            skippedLinks.alreadyArchived++;
-            fileSkipped++;
-            if (this.settings.detailedReporting) {
-              skippedDetails.push({
-                file: file.path,
-                line: i + 1,
-                url: linkInfo.originalUrl,
-                reason: "Already has archive link"
-              });
-            }
-            continue;
-          }
-          
-          // Skip if the URL is an archive URL
-          if (this.isArchiveUrl(linkInfo.originalUrl)) {
-            skippedLinks.isArchiveUrl++;
-            fileSkipped++;
-            if (this.settings.detailedReporting) {
-              skippedDetails.push({
-                file: file.path,
-                line: i + 1,
-                url: linkInfo.originalUrl,
-                reason: "Is an archive URL"
-              });
-            }
-            continue;
-          }
-          
-          try {
-            const result = await this.getExistingArchive(linkInfo.originalUrl);
-            
-            // Check for rate limiting
-            if (result.rateLimited) {
-              skippedLinks.rateLimited++;
-              if (this.settings.detailedReporting) {
-                skippedDetails.push({
-                  file: file.path,
-                  line: i + 1,
-                  url: linkInfo.originalUrl,
-                  reason: "Rate limited by archive service"
-                });
-              }
-              
-              // If rate limited, show a notice and stop processing
-              new Notice("Rate limited by archive service. Please try again later.");
-              throw new Error("Rate limited by archive service");
-            }
-            
-            if (result.foundArchive && result.archivedUrl) {
-              // Extract the plain URL if archivedUrl is a markdown link
-              let plainArchivedUrl = result.archivedUrl;
-              const markdownMatch = result.archivedUrl.match(/\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/);
-              if (markdownMatch) {
-                plainArchivedUrl = markdownMatch[2];
-              }
+	// Scan the vault into a persisted job and start working through it
+	async startVaultArchiveJob() {
+  const job = await this.prepareVaultArchiveJob();
+  if (job) {
+    await this.runArchiveJob(job);
+  }
+}
 
-              let newLine;
+	// Create and save a new job, unless an unfinished one is waiting
+	async prepareVaultArchiveJob(): Promise<ArchiveJob | null> {
+  const existingJob = this.activeJob || await this.loadArchiveJob();
+  if (existingJob && (existingJob.status === "running" || existingJob.status === "paused")) {
+    new Notice("The archive queue still has unfinished work. Resume or cancel it first.");
+    return null;
+  }
 
-              // Determine how to format the original link and archive link
-              let originalPart, archivedPart;
-              
-              if (this.settings.useNakedUrls) {
-                // For naked URLs mode
-                originalPart = linkInfo.originalUrl;
-                archivedPart = plainArchivedUrl;
-              } else {
-                // For markdown mode
-                if (linkInfo.isNaked) {
-                  let displayText;
-                  try {
-                    displayText = await this.extractTitleFromUrl(linkInfo.originalUrl);
-                  } catch {
-                    // If title scraping fails, use a more descriptive part of the URL if possible
-                    try {
-                      const urlObj = new URL(linkInfo.originalUrl);
-                      const pathParts = urlObj.pathname.split('/').filter(part => part.length > 0);
-                      
-                      if (pathParts.length > 0) {
-                        // Use the last meaningful path segment, replacing hyphens with spaces
-                        const lastSegment = pathParts[pathParts.length - 1]
-                          .replace(/\.html$|\.php$|\.aspx$/i, '')
-                          .replace(/-/g, ' ');
-                        displayText = lastSegment;
-                      } else {
-                        // Fall back to hostname
-                        displayText = urlObj.hostname.replace(/^www\./, '');
-                      }
-                    } catch {
-                      // If URL parsing fails, use the URL itself
-                      displayText = linkInfo.originalUrl;
-                    }
-                  }
-                  originalPart = `[${displayText}](${linkInfo.originalUrl})`;
-                } else {
-                  originalPart = `[${linkInfo.displayText}](${linkInfo.originalUrl})`;
-                }
-                
-                // Create archive markdown link - always use plainArchivedUrl to avoid nesting
-                archivedPart = this.settings.useNakedArchiveOnly ?
-                  plainArchivedUrl :
-                  `[archive](${plainArchivedUrl})`;
-              }
-              
-              // Combine with the user's divider text
-              const replacement = `${originalPart}${this.settings.dividerText}${archivedPart}`;
-              
-              // Debug logging
-              
-                  if (lines[i].includes(linkInfo.fullMatch)) {
-                    newLine = lines[i].replace(linkInfo.fullMatch, replacement);
-                    lines[i] = newLine; // MOVE THIS HERE
-                    modified = true;
-                    totalArchived++;
-                    fileArchived++;
-                } else {
-                  // Fallback: if exact match fails, log and skip this link
-                  skippedLinks.errors++;
-                  fileSkipped++;
-                  if (this.settings.detailedReporting) {
-                    skippedDetails.push({
-                      file: file.path,
-                      line: i + 1,
-                      url: linkInfo.originalUrl,
-                      reason: "Could not match link in line for replacement"
-                    });
-                  }
-                  continue;
-                }
+  new Notice("Starting vault-wide archiving...");
 
+  const job = this.createArchiveJob("vault");
 
-              modified = true;
-              totalArchived++;
-              fileArchived++;
-            } else {
-              skippedLinks.noSnapshots++;
-              fileSkipped++;
-              if (this.settings.detailedReporting) {
-                skippedDetails.push({
-                  file: file.path,
-                  line: i + 1,
-                  url: linkInfo.originalUrl,
-                  reason: "No archive snapshots available"
-                });
-              }
-              continue;
-            }
-          } catch (error) {
-            if (this.settings.debugMode) {
-    console.error(`Error archiving link in ${file.path}:`, error);
-   }
-            
-            // Check if the error is related to rate limiting
-            if (error.message && error.message.includes("Rate limited")) {
-              // Stop processing all files if rate limited
-              new Notice("Rate limited by archive service. Vault archiving stopped.");
-              
-              // Show detailed report if enabled
-              if (this.settings.detailedReporting) {
-                new ArchiveReportModal(this.app, {
-                  archivedCount: totalArchived,
-                  skippedLinks,
-                  skippedDetails,
-                  excludedFiles,
-                  processedFiles,
-                  isNote: false,
-                  rateLimited: true,
-                  filePath: null
-                }).open();
-              }
-              
-              return; // Exit the function
-            }
-            
-            skippedLinks.errors++;
-            fileSkipped++;
-            if (this.settings.detailedReporting) {
-              skippedDetails.push({
-                file: file.path,
-                line: i + 1,
-                url: linkInfo.originalUrl,
-                reason: `Error: ${error.message || "Unknown error"}`
-              });
-            }
-          }
-        }
-        
-        if (modified) {
-          await this.app.vault.modify(file, lines.join('\n'));
-        }
-        
-        // Add to processed files list
-        processedFiles.push({
-          path: file.path,
-          archived: fileArchived,
-          skipped: fileSkipped
-        });
-      } catch (error) {
-        console.error(`Error processing file ${file.path}:`, error);
-        
-        // Check if the error is related to rate limiting
-        if (error.message && error.message.includes("Rate limited")) {
-          // Already handled above, just return
-          return;
-        }
-      }
-    }
-    
-    // Calculate total skipped
-    const totalSkipped = Object.values(skippedLinks).reduce((a, b) => a + b, 0);
-    
-    // Show detailed report if enabled
-    if (this.settings.detailedReporting) {
-      new ArchiveReportModal(this.app, {
-        archivedCount: totalArchived,
-        skippedLinks,
-        skippedDetails,
-        excludedFiles,
-        processedFiles,
-        isNote: false,
-        filePath: null
-      }).open();
-    } else {
-      // Simple notice
-      new Notice(`Vault archiving complete. Archived: ${totalArchived}, Skipped: ${totalSkipped}, Excluded: ${excludedFiles.length} files`);
+  for (const file of this.app.vault.getMarkdownFiles()) {
+    const exclusionResult = this.shouldExcludeFile(file);
+    if (exclusionResult.excluded) {
+      job.excludedFiles.push({
+        path: file.path,
+        reason: exclusionResult.reason
+      });
+      continue;
     }
-  }).open();
-}
 
-	async getExistingArchive(originalUrl: string, retryCount = 0): Promise<{
-  foundArchive: boolean;
-  archivedUrl?: string;
-  snapshots?: { url: string, timestamp: string, title?: string }[];
-  rateLimited?: boolean;
-}> {
-  console.log(`Checking for existing archives of: ${originalUrl}`);
-
-  // Check cache first (only on first try, not retries)
-  if (retryCount === 0) {
-    const cachedResult = this.archiveCache.get(originalUrl);
-    if (cachedResult) {
-      console.log(`Using cached result for: ${originalUrl}`);
-      return cachedResult;
+    try {
+      job.items.push(...this.collectArchiveJobItems(file.path, await this.app.vault.cachedRead(file)));
+    } catch (error) {
+      console.error(`Error processing file ${file.path}:`, error);
     }
   }
 
-  // Enforce rate limiting
-  await this.rateLimiter.waitIfNeeded(this.settings.archiveSite);
+  this.activeJob = job;
+  await this.saveArchiveJob();
+  this.notifyArchiveQueueChanged();
+  return job;
+}
 
-  // Minimal headers to avoid detection
-  const headers = {
-    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-    'Accept-Language': 'en-US,en;q=0.5'
+	private createArchiveJob(kind: ArchiveJob["kind"]): ArchiveJob {
+  return {
+    id: Date.now().toString(36),
+    createdAt: Date.now(),
+    kind,
+    status: "running",
+    items: [],
+    excludedFiles: []
   };
+}
 
-  const archiveBaseUrl = ARCHIVE_SITES[this.settings.archiveSite as keyof typeof ARCHIVE_SITES];
-  console.log(`Using archive site: ${this.settings.archiveSite} (${archiveBaseUrl})`);
-  console.log(`Archive service type: ${typeof this.settings.archiveSite}`);
-
-  if (this.settings.archiveSite === "web.archive.org") {
-    console.log("Processing with Wayback Machine");
-    // Wayback Machine CDX Server API - returns multiple snapshots with filtering
-    try {
-      // Use CDX API to get multiple snapshots with status code filtering
-      // Parameters: url, output=json, limit (respects maxSnapshots), filter=statuscode:200
-      const limit = this.settings.maxSnapshots || 5;
-      const checkUrl = `https://web.archive.org/cdx/search/cdx?url=${encodeURIComponent(originalUrl)}&output=json&limit=${limit}&filter=statuscode:200`;
-      console.log(`Checking Wayback Machine CDX API: ${checkUrl}`);
-
-      const res = await requestUrl({
-        url: checkUrl,
-        headers: headers
-      });
+	// Every link in a note, with links that need no lookup already marked as skipped. With checkHealth, the
+	// original URLs are also checked once the lookups are done, archived or not.
+	collectArchiveJobItems(path: string, content: string, checkHealth = this.settings.checkLinkHealth): ArchiveJobItem[] {
+  const lines = content.split('\n');
+  const contexts = this.classifyMarkdownLines(lines);
+  const frontmatterArchives = this.getFrontmatterArchives(lines);
+  const items: ArchiveJobItem[] = [];
+  const createItem = (line: number, url: string): ArchiveJobItem => {
+    const item: ArchiveJobItem = { file: path, line, url, status: "pending" };
+    if (this.settings.previewBatchChanges) {
+      item.dryRun = true;
+    }
+    if (checkHealth) {
+      item.checkHealth = true;
+    }
+    items.push(item);
+    return item;
+  };
 
-      if (res.status === 200 && res.json && Array.isArray(res.json) && res.json.length > 1) {
-        // CDX returns array of arrays: [["urlkey", "timestamp", "original", "mimetype", "statuscode", "digest", "length"], ...]
-        // First row is headers, subsequent rows are snapshots
-        const snapshots: { url: string, timestamp: string }[] = [];
-
-        // Skip first row (headers) and process snapshot rows
-        for (let i = 1; i < res.json.length; i++) {
-          const row = res.json[i];
-          if (row && row.length >= 2) {
-            const timestamp = row[1]; // Timestamp in YYYYMMDDhhmmss format
-            const snapshotUrl = `https://web.archive.org/web/${timestamp}/${originalUrl}`;
-            snapshots.push({ url: snapshotUrl, timestamp: timestamp });
-          }
-        }
+  // Frontmatter links can't hold an archive link, but are listed in the report
+  for (const { url, line } of this.getFrontmatterLinks(lines)) {
+    const item = createItem(line, url);
+    if (frontmatterArchives.has(url)) {
+      this.skipJobItem(item, "alreadyArchived", "Already has archive link");
+    } else if (this.isArchiveUrl(url)) {
+      this.skipJobItem(item, "isArchiveUrl", "Is an archive URL");
+    } else {
+      this.skipJobItem(item, "unsupported", "Links in frontmatter can't hold an archive link");
+    }
+  }
 
-        if (snapshots.length > 0) {
-          // Sort by timestamp descending (newest first)
-          snapshots.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  for (let i = 0; i < lines.length; i++) {
+    // Skip code, math and frontmatter
+    if (contexts[i] !== "text") {
+      continue;
+    }
 
-          console.log(`Found ${snapshots.length} Wayback Machine snapshots`);
+    // One item per link, so every link on the line gets its own archive link
+    for (const pair of this.pairArchiveLinks(lines[i], frontmatterArchives)) {
+      const { link } = pair;
+      const item = createItem(i, link.originalUrl);
+
+      if (hasArchiveLink(pair)) {
+        this.skipJobItem(item, "alreadyArchived", "Already has archive link");
+      } else if (this.isArchiveUrl(link.originalUrl)) {
+        this.skipJobItem(item, "isArchiveUrl", "Is an archive URL");
+      } else if (link.isReference) {
+        // Reference definitions would stop working with an archive link after them
+        this.skipJobItem(item, "unsupported", "Reference definitions can't hold an archive link");
+      }
+    }
+  }
 
-          const result = {
-            foundArchive: true,
-            archivedUrl: snapshots[0].url,
-            snapshots: snapshots
-          };
+  return items;
+}
 
-          // Cache the result
-          this.archiveCache.set(originalUrl, result);
+	// Add items to the queue, starting a job if none is loaded. Returns how many need a lookup.
+	enqueueArchiveJobItems(items: ArchiveJobItem[], kind: ArchiveJob["kind"]): number {
+  let job = this.activeJob;
+  if (!job || job.status === "completed" || job.status === "cancelled") {
+    job = this.createArchiveJob(kind);
+    this.activeJob = job;
+  }
 
-          return result;
-        }
-      }
+  // Don't queue the same link twice
+  const isUnfinished = (item: ArchiveJobItem) => item.status === "pending" || needsHealthCheck(item);
+  const newItems = items.filter(item => !job!.items.some(existing =>
+    existing.file === item.file && existing.url === item.url && existing.line === item.line && isUnfinished(existing)
+  ));
+  job.items.push(...newItems);
+  const pending = newItems.filter(isUnfinished).length;
+
+  this.saveArchiveJob();
+  this.notifyArchiveQueueChanged();
+
+  // A paused queue picks up the new links when it resumes
+  if (pending > 0 && !this.archiveJobRunning && job.status === "running") {
+    this.runArchiveJob(job);
+  } else if (pending === 0 && !this.archiveJobRunning && !job.items.some(isUnfinished)) {
+    this.activeJob = null;
+    this.deleteArchiveJob();
+  }
 
-      if (this.settings.debugMode) {
-        console.log(`No Wayback Machine snapshots found`);
-      }
-    } catch (err) {
-      console.error("Error checking Wayback Machine:", err);
+  return pending;
+}
 
-      // Classify the error
-      const archiveError = this.classifyArchiveError(err, "Wayback Machine");
+	private skipJobItem(item: ArchiveJobItem, category: SkipCategory, reason: string) {
+  item.status = "skipped";
+  item.skipCategory = category;
+  item.reason = reason;
+}
 
-      // Show user-friendly error message
-      if (archiveError.type !== ArchiveErrorType.UNKNOWN) {
-        new Notice(archiveError.message);
-      }
+	// Background worker: process pending items one at a time until the queue is empty, paused or cancelled
+	async runArchiveJob(job: ArchiveJob) {
+  if (this.archiveJobRunning) {
+    return;
+  }
+  this.archiveJobRunning = true;
+  this.captchaServices = new Set();
+  this.clearJobResumeTimer();
 
-      // Check for rate limiting
-      if (archiveError.type === ArchiveErrorType.RATE_LIMITED) {
-        console.log("Rate limited by Wayback Machine");
-        return { foundArchive: false, rateLimited: true };
+  try {
+    job.status = "running";
+    job.resumeAt = undefined;
+    job.pausedByUser = false;
+    await this.saveArchiveJob();
+    this.notifyArchiveQueueChanged();
+
+    // A resumed job keeps adding to the same undo run
+    const undoRun = this.beginUndoRun(`job-${job.id}`, job.kind === "note" ? "Archive links in note" : "Archive links in vault");
+
+    let item: ArchiveJobItem | undefined;
+    // Stop when paused or cancelled from a command. Health checks wait until every lookup is done.
+    while (job.status === "running" && (item = job.items.find(candidate => candidate.status === "pending") || job.items.find(needsHealthCheck))) {
+      if (item.status !== "pending") {
+        const url = item.url;
+        item.health = job.items.find(other => other.url === url && other.health)?.health || await this.checkLinkHealth(url);
+        this.requestJobSave();
+        this.notifyArchiveQueueChanged();
+        continue;
       }
 
-      // Implement retry logic with exponential backoff for transient errors
-      if (retryCount < 2 && (
-        archiveError.type === ArchiveErrorType.NETWORK_ERROR ||
-        archiveError.type === ArchiveErrorType.SERVICE_UNAVAILABLE
-      )) {
-        const delay = Math.pow(2, retryCount) * 1000; // 1s, 2s delay
-        console.log(`Retrying Wayback Machine check in ${delay}ms...`);
-
-        // Wait for the delay period
-        await new Promise(resolve => setTimeout(resolve, delay));
+      const outcome = await this.processArchiveJobItem(item, undoRun);
 
-        // Retry with incremented counter
-        return this.getExistingArchive(originalUrl, retryCount + 1);
+      if (outcome === "rateLimited") {
+        this.pauseArchiveJob(job);
+        await this.saveArchiveJob();
+        this.notifyArchiveQueueChanged();
+        new Notice(`Rate limited by archive service. Archiving paused; it will resume in ${this.settings.rateLimitCooldownMinutes} minutes.`);
+        this.showArchiveJobReport(job);
+        return;
       }
+
+      this.requestJobSave();
+      this.notifyArchiveQueueChanged();
     }
-  } else if (this.settings.archiveSite === "ghostarchive.org") {
-    console.log("Processing with Ghostarchive");
-    try {
-      const archiver = new GhostArchiveArchiver(this);
-      if (this.settings.debugMode) {
-        console.log(`getExistingArchive: calling GhostArchiveArchiver for ${originalUrl}`);
-      }
-      const snapshots = await archiver.getSnapshots(originalUrl);
-      if (this.settings.debugMode) {
-        console.log(`getExistingArchive: GhostArchiveArchiver returned ${snapshots.length} snapshots`);
-      }
-      
-      if (snapshots.length > 0) {
-        // Sort by timestamp descending
-        snapshots.sort((a, b) => {
-          try {
-            return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
-          } catch {
-            return 0;
-          }
-        });
-        
-        if (this.settings.debugMode) {
-          console.log(`Found ${snapshots.length} Ghostarchive snapshots`);
-        }
 
-        const result = {
-          foundArchive: true,
-          archivedUrl: snapshots[0].url,
-          snapshots: snapshots
-        };
+    if (job.status !== "running") {
+      await this.saveArchiveJob();
+      return;
+    }
 
-        // Cache the result
-        this.archiveCache.set(originalUrl, result);
+    job.status = "completed";
+    await this.deleteArchiveJob();
+    this.notifyArchiveQueueChanged();
 
-        return result;
-      } else if (this.settings.debugMode) {
-        console.log(`No Ghostarchive snapshots found for URL: ${originalUrl}`);
-      }
-    } catch (err) {
-      console.error("Error checking Ghostarchive:", err);
+    // Capture links that had no snapshot in the background
+    this.processCaptureQueue().catch(error => console.error("Error processing capture queue:", error));
 
-      // Classify the error
-      const archiveError = this.classifyArchiveError(err, "GhostArchive");
+    // In preview mode the archive links aren't written yet, so dead links are only swapped from the report
+    const deadLinks = job.items.filter(item => item.health && DEAD_LINK_STATUSES.includes(item.health.status));
+    const autoSwap = this.settings.autoSwapDeadLinks && deadLinks.length > 0 && !deadLinks.some(item => item.dryRun);
+    if (autoSwap) {
+      await this.swapDeadLinks(deadLinks);
+    }
 
-      // Show user-friendly error message
-      if (archiveError.type !== ArchiveErrorType.UNKNOWN) {
-        new Notice(archiveError.message);
-      }
+    this.showArchiveJobReport(job, autoSwap);
 
-      if (archiveError.type === ArchiveErrorType.RATE_LIMITED) {
-        console.log("Rate limited by Ghostarchive");
-        return { foundArchive: false, rateLimited: true };
-      }
+    // Preview mode: nothing has been written yet
+    const proposedChanges = await this.collectProposedArchiveChanges(job);
+    if (proposedChanges.length > 0) {
+      new BatchPreviewModal(this.app, "Archive links", proposedChanges, (selected) => this.applyLineChanges(selected, "archive link")).open();
     }
+  } catch (error) {
+    // Keep the job so the remaining items can be picked up with "Resume archive queue"
+    console.error("Error running archive queue:", error);
+    job.status = "paused";
+    job.pausedByUser = true;
+    await this.saveArchiveJob();
+    this.notifyArchiveQueueChanged();
+    new Notice(`Archiving stopped: ${error.message || "Unknown error"}. Use "Resume archive queue" to continue.`);
+  } finally {
+    this.archiveJobRunning = false;
+    this.captchaServices = null;
   }
-  
-  console.log(`No archives found for: ${originalUrl}`);
-  const result = { foundArchive: false };
-
-  // Cache negative results too to avoid repeated failed lookups
-  this.archiveCache.set(originalUrl, result);
-
-  return result;
 }
 
-	// Classify archive service errors for better user feedback
-	classifyArchiveError(err: any, serviceName: string): ArchiveError {
-		// Check for rate limiting
-		if (err.status === 429 ||
-				(err.message && (
-					err.message.toLowerCase().includes("rate limit") ||
-					err.message.toLowerCase().includes("too many requests")
-				))) {
-			return {
-				type: ArchiveErrorType.RATE_LIMITED,
-				message: `${serviceName} is rate limiting requests. Please wait a moment and try again.`,
-				serviceName
-			};
-		}
+	// Look up one item and write its archive link. The note is re-read right before writing so edits made meanwhile are kept.
+	private async processArchiveJobItem(item: ArchiveJobItem, undoRun: UndoRun): Promise<"done" | "rateLimited"> {
+  const file = this.app.vault.getAbstractFileByPath(item.file);
+  if (!(file instanceof TFile)) {
+    this.skipJobItem(item, "errors", "File no longer exists");
+    return "done";
+  }
 
-		// Check for captcha requirements (common with archive.today variants)
-		if (err.status === 403 ||
-				(err.text && (
-					err.text.includes("captcha") ||
-					err.text.includes("CAPTCHA") ||
-					err.text.includes("cloudflare") ||
-					err.text.includes("challenge")
-				))) {
-			return {
-				type: ArchiveErrorType.CAPTCHA_REQUIRED,
-				message: `${serviceName} requires CAPTCHA verification. This service cannot be automated.`,
-				serviceName
-			};
-		}
+  try {
+    const lines = (await this.readNoteForQueue(file)).split('\n');
+    const frontmatterArchives = this.getFrontmatterArchives(lines);
+    const lineIndex = this.findJobItemLine(item, lines, frontmatterArchives);
+    if (lineIndex === -1) {
+      this.skipJobItem(item, "alreadyArchived", "Link no longer found or already archived");
+      return "done";
+    }
+    item.line = lineIndex;
 
-		// Check for IP blocking
-		if (err.status === 403 && err.message && err.message.toLowerCase().includes("forbidden")) {
-			return {
-				type: ArchiveErrorType.IP_BLOCKED,
-				message: `${serviceName} has blocked this request. Your IP may be temporarily blocked.`,
-				serviceName
-			};
-		}
+    const linkInfo = this.findUnarchivedLink(lines[lineIndex], item.url, frontmatterArchives)!;
 
-		// Check for service unavailability
-		if (err.status === 503 || err.status === 504 ||
-				(err.message && (
-					err.message.toLowerCase().includes("service unavailable") ||
-					err.message.toLowerCase().includes("gateway timeout")
-				))) {
-			return {
-				type: ArchiveErrorType.SERVICE_UNAVAILABLE,
-				message: `${serviceName} is currently unavailable. Please try again later.`,
-				serviceName
-			};
-		}
+    const result = await this.getExistingArchive(linkInfo.originalUrl);
 
-		// Network errors
-		if (err.message && (
-				err.message.toLowerCase().includes("network") ||
-				err.message.toLowerCase().includes("timeout") ||
-				err.message.toLowerCase().includes("econnrefused")
-			)) {
-			return {
-				type: ArchiveErrorType.NETWORK_ERROR,
-				message: `Network error connecting to ${serviceName}. Check your internet connection.`,
-				serviceName
-			};
-		}
+    // Check for rate limiting; the item stays pending for the next run
+    if (result.rateLimited) {
+      return "rateLimited";
+    }
 
-		// Unknown error
-		return {
-			type: ArchiveErrorType.UNKNOWN,
-			message: `Error accessing ${serviceName}: ${err.message || 'Unknown error'}`,
-			serviceName
-		};
-	}
+    if (!result.foundArchive || !result.archivedUrl) {
+      // Use "Archive link at cursor" to get past the CAPTCHA
+      const reason = result.captchaRequired ? `No snapshots found; ${result.captchaRequired.join(", ")} asked for a CAPTCHA` : "No archive snapshots available";
+      this.skipJobItem(item, "noSnapshots", reason);
+      if (this.shouldQueueCaptures()) {
+        this.queueCapture(item.file, linkInfo.originalUrl);
+      }
+      return "done";
+    }
 
-// Normalize a URL for comparison
-	normalizeUrl(url: string): string {
-  try {
-    // Create a URL object to parse the components
-    const urlObj = new URL(url);
-    
-    // Normalize the hostname (lowercase)
-    let hostname = urlObj.hostname.toLowerCase();
-    
-    // Normalize the path (remove trailing slash)
-    let path = urlObj.pathname;
-    if (path.endsWith('/') && path.length > 1) {
-      path = path.slice(0, -1);
+    const plainArchivedUrl = this.getPlainArchiveUrl(result.archivedUrl);
+    const snapshot = result.snapshots?.find(candidate => candidate.url === plainArchivedUrl);
+
+    // Preview mode: the changes are worked out when the queue finishes, see collectProposedArchiveChanges
+    if (item.dryRun) {
+      if (!this.isUsableArchiveUrl(plainArchivedUrl)) {
+        this.skipJobItem(item, "errors", `Invalid archive URL: ${plainArchivedUrl}`);
+        return "done";
+      }
+    } else {
+      const changes = await this.buildArchiveChanges(item.file, lines, lineIndex, linkInfo, plainArchivedUrl, snapshot);
+      if (changes === null) {
+        this.skipJobItem(item, "errors", `Invalid archive URL: ${plainArchivedUrl}`);
+        return "done";
+      }
+      if ((await this.applyLineChangesToFile(file, changes, undoRun)) !== changes.length) {
+        this.skipJobItem(item, "errors", "Line changed while archiving");
+        return "done";
+      }
     }
-    
-    // Construct the normalized URL
-    let normalizedUrl = hostname + path;
-    if (urlObj.search) {
-      normalizedUrl += urlObj.search;
+
+    item.status = "archived";
+    item.archiveUrl = plainArchivedUrl;
+    item.service = result.service;
+    item.timestamp = snapshot?.timestamp;
+    return "done";
+  } catch (error) {
+    if (this.settings.debugMode) {
+      console.error(`Error archiving link in ${item.file}:`, error);
     }
-    
-    return normalizedUrl;
-  } catch (e) {
-    // If URL parsing fails, return the original
-    return url;
+    this.skipJobItem(item, "errors", `Error: ${error.message || "Unknown error"}`);
+    return "done";
   }
 }
 
-// Score how well an archived URL matches the original URL
-	scoreUrlMatch(originalUrl: string, archivedUrl: string): number {
-  if (!archivedUrl) return 0;
-  
-  try {
-    // First, check for exact URL match
-    if (originalUrl === archivedUrl) {
-      return 100;
-    }
-    
-    // Normalize both URLs for comparison
-    const normalizedOriginal = this.normalizeUrl(originalUrl);
-    const normalizedArchived = this.normalizeUrl(archivedUrl);
-    
-    // Exact match after normalization gets highest score
-    if (normalizedOriginal === normalizedArchived) {
-      return 100;
-    }
-    
-    // Check if the protocol differs but the rest matches
-    const originalNoProtocol = normalizedOriginal.replace(/^https?:\/\//, '');
-    const archivedNoProtocol = normalizedArchived.replace(/^https?:\/\//, '');
-    
-    if (originalNoProtocol === archivedNoProtocol) {
-      return 90; // Very good match, just protocol differs
-    }
-    
-    // Check if the archived URL is the original with www. added/removed
-    const originalNoWww = originalNoProtocol.replace(/^www\./, '');
-    const archivedNoWww = archivedNoProtocol.replace(/^www\./, '');
-    
-    if (originalNoWww === archivedNoWww) {
-      return 85; // Good match, just www. prefix differs
+	// What the previewed items of a job would write, worked out note by note on a copy of each note as if
+	// they were archived in order. Changes that rewrite lines an earlier change wrote (several links
+	// on a line, consecutive footnotes, frontmatter entries) are folded into it, so each is reviewed once.
+	private async collectProposedArchiveChanges(job: ArchiveJob): Promise<ProposedLineChange[]> {
+  const byFile = new Map<string, ArchiveJobItem[]>();
+  for (const item of job.items) {
+    if (item.dryRun && item.status === "archived" && item.archiveUrl) {
+      byFile.set(item.file, [...(byFile.get(item.file) || []), item]);
     }
-    
-    // Check for trailing slash differences
-    if (originalNoWww.replace(/\/$/, '') === archivedNoWww.replace(/\/$/, '')) {
-      return 80; // Good match, just trailing slash differs
+  }
+
+  const changes: ProposedLineChange[] = [];
+  for (const [path, fileItems] of byFile) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      continue;
     }
-    
-    // For specific cases like news articles and blog posts, the path is important
-    // We want to avoid matching just the domain
-    
-    try {
-      const originalDomain = new URL(originalUrl).hostname.toLowerCase();
-      const archivedDomain = new URL(archivedUrl).hostname.toLowerCase();
-      
-      // If domains match exactly but paths differ significantly
-      if (originalDomain === archivedDomain) {
-        // For news articles and blog posts, we typically want the exact path
-        // Only give a decent score if the path is very similar
-        
-        const originalPath = new URL(originalUrl).pathname;
-        const archivedPath = new URL(archivedUrl).pathname;
-        
-        // If one path is contained within the other
-        if (originalPath.includes(archivedPath) || archivedPath.includes(originalPath)) {
-          return 60;
+
+    const lines = (await this.readNoteForQueue(file)).split('\n');
+    const fileChanges: ProposedLineChange[] = [];
+    for (const item of fileItems) {
+      const frontmatterArchives = this.getFrontmatterArchives(lines);
+      const lineIndex = this.findJobItemLine(item, lines, frontmatterArchives);
+      if (lineIndex === -1) {
+        continue;
+      }
+
+      const linkInfo = this.findUnarchivedLink(lines[lineIndex], item.url, frontmatterArchives)!;
+      const snapshot = { url: item.archiveUrl!, timestamp: item.timestamp || "", service: item.service };
+      let itemChanges: ProposedLineChange[] | null = null;
+      try {
+        itemChanges = await this.buildArchiveChanges(path, lines, lineIndex, linkInfo, item.archiveUrl!, snapshot);
+      } catch (error) {
+        console.error(`Error previewing archive link in ${path}:`, error);
+      }
+
+      for (const change of itemChanges || []) {
+        const index = findChangeLine(lines, change);
+        if (index === -1) {
+          continue;
         }
-        
-        // If paths share significant common parts
-        const originalPathParts = originalPath.split('/').filter(p => p);
-        const archivedPathParts = archivedPath.split('/').filter(p => p);
-        
-        // Check if at least 50% of path segments match
-        const commonParts = originalPathParts.filter(p => archivedPathParts.includes(p));
-        if (commonParts.length > 0 && 
-            commonParts.length >= Math.min(originalPathParts.length, archivedPathParts.length) / 2) {
-          return 50;
+        const oldCount = change.oldLine.split('\n').length;
+        const newCount = change.newLine.split('\n').length;
+        lines.splice(index, oldCount, ...change.newLine.split('\n'));
+
+        // Fold into an earlier change whose lines this one rewrites
+        const earlier = fileChanges.find(candidate =>
+          index >= candidate.line && index + oldCount <= candidate.line + candidate.newLine.split('\n').length);
+        if (earlier) {
+          const count = earlier.newLine.split('\n').length + newCount - oldCount;
+          earlier.newLine = lines.slice(earlier.line, earlier.line + count).join('\n');
+        } else {
+          fileChanges.push({ ...change, line: index });
         }
-        
-        // Otherwise, it's not a good match for articles/blog posts
-        return 30; // Same domain but different path - not great for articles
       }
-      
-      // If even the domains don't match exactly, it's a poor match
-      return 10;
-    } catch (e) {
-      // URL parsing failed
-      return 0;
     }
-  } catch (e) {
-    console.error("Error scoring URL match:", e);
-    return 0;
+    changes.push(...fileChanges);
   }
-} 
+  return changes;
+}
 
-// Helper function to validate if a URL is actually an archive URL
-	isValidArchiveUrl(url: string): boolean {
-  const archiveDomains = [
-    'archive.ph', 'archive.today', 'archive.li', 'archive.md', 'archive.is', 'archive.vn',
-    'web.archive.org', 'ghostarchive.org'
-  ];
-  
-  try {
-    const urlObj = new URL(url);
-    return archiveDomains.some(domain => urlObj.hostname.includes(domain));
-  } catch {
-    return false;
+	// Lines may have moved since the item was queued, so fall back to searching the note
+	private findJobItemLine(item: { line: number, url: string }, lines: string[], frontmatterArchives?: Map<string, FrontmatterArchiveEntry>): number {
+  const contexts = this.classifyMarkdownLines(lines);
+  const isCandidate = (i: number) => contexts[i] === "text" && !!this.findUnarchivedLink(lines[i], item.url, frontmatterArchives);
+  if (item.line < lines.length && isCandidate(item.line)) {
+    return item.line;
   }
+  return lines.findIndex((_, i) => isCandidate(i));
 }
 
-// Helper function to validate timestamp format
-	isValidTimestamp(timestamp: string): boolean {
-  if (!timestamp || timestamp === 'Unknown date') return false;
-  
-  // Check for common timestamp patterns
-  const patterns = [
-    /\d{4}-\d{2}-\d{2}/, // YYYY-MM-DD
-    /\d{1,2}\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{4}/, // DD Mon YYYY
-    /\d{2}\/\d{2}\/\d{4}/, // MM/DD/YYYY or DD/MM/YYYY
-    /\d{14}/, // Wayback timestamp format
-  ];
-  
-  if (!patterns.some(pattern => pattern.test(timestamp))) {
-    return false;
-  }
-  
-  // Additional check for reasonable date range
-  try {
-    const date = new Date(timestamp);
-    const year = date.getFullYear();
-    
-    // Validate the date is within a reasonable range
-    // Internet Archive started in 1996, but we'll allow a bit earlier
-    // And we'll reject future dates beyond next year
-    const currentYear = new Date().getFullYear();
-    return year >= 1990 && year <= currentYear + 1 && !isNaN(date.getTime());
-  } catch {
-    // If date parsing fails, try to extract year from the timestamp string
-    const yearMatch = timestamp.match(/\b(19\d{2}|20\d{2})\b/);
-    if (yearMatch) {
-      const year = parseInt(yearMatch[1]);
-      const currentYear = new Date().getFullYear();
-      return year >= 1990 && year <= currentYear + 1;
+	// Note shown in an editor; the active view isn't it when a command runs from the sidebar
+	getEditorFile(editor: Editor): TFile | null {
+  for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+    const view = leaf.view;
+    if (view instanceof MarkdownView && view.editor === editor) {
+      return view.file;
     }
-    return false;
   }
+  return null;
 }
 
-	isValidArchiveSnapshot(url: string, originalUrl: string): boolean {
-  // First check if it's a valid archive URL
-  if (!this.isValidArchiveUrl(url)) {
-    return false;
-  }
-  
-  // Reject URLs that contain the original URL in a problematic way
-  // This filters out archive.ph/https://example.com/* patterns
-  if (url.includes('/http') && url.includes(new URL(originalUrl).hostname)) {
-    return false;
-  }
-  
-  // For archive.today family, check for proper snapshot format
-  // Valid format is typically: archive.ph/abcd1234 or archive.ph/20220101/example.com
-  try {
-    const urlObj = new URL(url);
-    const pathParts = urlObj.pathname.split('/').filter(p => p);
-    
-    // First path segment should be either a short code or a date
-    if (pathParts.length > 0) {
-      const firstSegment = pathParts[0];
-      
-      // Valid patterns: short code (3-10 alphanumeric chars) or date (numeric)
-      const isShortCode = /^[a-zA-Z0-9]{3,10}$/.test(firstSegment);
-      const isDateCode = /^\d{8,14}$/.test(firstSegment);
-      
-      return isShortCode || isDateCode;
+	// Editor of an open note, so queued writes go through the editor (keeping undo and the cursor)
+	getOpenEditor(file: TFile): Editor | null {
+  for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+    const view = leaf.view;
+    if (view instanceof MarkdownView && view.file?.path === file.path) {
+      return view.editor;
     }
-    
-    return false;
-  } catch {
-    return false;
   }
+  return null;
 }
 
-	async getGhostArchiveSnapshots(originalUrl: string): Promise<{ url: string, timestamp: string }[]> {
-	  // Properly construct search URL handling all edge cases
-	  let cleanUrl = originalUrl;
-	  // Remove trailing slash if present
-	  if (cleanUrl.endsWith('/')) {
-	    cleanUrl = cleanUrl.slice(0, -1);
-	  }
-	  // Encode only the query parameter value
-	  const searchUrl = `https://ghostarchive.org/search?term=${encodeURIComponent(cleanUrl)}`;
-    console.log('Search URL:', searchUrl);
-   try {
-      // Browser-like headers to bypass bot detection
-      const headers = {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Referer': 'https://ghostarchive.org/',
-        'DNT': '1',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1'
-      };
-      
-      const response = await requestUrl({
-        url: searchUrl,
-        headers: headers,
-        method: 'GET',
-        throw: false // Don't throw on non-200 status
-      });
-      console.log(`Response status: ${response.status}`);
-      console.log(`Response headers: ${JSON.stringify(response.headers)}`);
-      
-      // Log response body for debugging if not 200
-      if (response.status !== 200) {
-        console.log(`Response body (first 500 chars): ${response.text.substring(0, 500)}...`);
-      }
-      
-      const $ = cheerio.load(response.text);
-      const snapshots: { url: string, timestamp: string }[] = [];
-      let rowCount = 0;
-      let validSnapshotCount = 0;
-      
-      console.log(`Found ${$('.result-row').length} result rows`);
-      
-     $('.result-row').each((_, row) => {
-       rowCount++;
-       const urlElem = $(row).find('td:first-child a');
-       const timestampElem = $(row).find('td:nth-child(2)');
-       console.log(`Processing row ${rowCount} - URL elements: ${urlElem.length}, Timestamp elements: ${timestampElem.length}`);
-	      
-	      if (urlElem.length && timestampElem.length) {
-	        let href = urlElem.attr('href') || '';
-	        // Remove trailing slash if present
-	        href = href.replace(/\/$/, '');
-	        
-	        let url = '';
-	        if (href.startsWith('/')) {
-	          // Prepend domain for relative paths
-	          url = `https://ghostarchive.org${href}`;
-	        } else if (href.startsWith('http')) {
-	          // Use absolute URLs as-is
-	          url = href;
-	        } else {
-	          // Skip invalid hrefs
-	          return;
-	        }
-	        
-	        // Skip non-archive URLs
-	        if (!url.includes('ghostarchive.org/archive/')) {
-	          return;
-	        }
-	        
-	        const timestamp = timestampElem.text().trim();
-	        
-	        if (this.isValidTimestamp(timestamp)) {
-	          snapshots.push({ url, timestamp });
-	          validSnapshotCount++;
-	          console.log(`Added snapshot: ${url} with timestamp ${timestamp}`);
-	        } else {
-	          console.log(`Invalid timestamp: ${timestamp}`);
-	        }
-	      }
-	    });
-	    
-	    if (this.settings.debugMode) {
-	  console.log(`Processed ${rowCount} rows, found ${validSnapshotCount} valid snapshots`);
-	 }
-	    return snapshots;
-	  } catch (error) {
-	    console.error("Error fetching Ghost Archive snapshots:", error);
-	    console.error(error.stack);
-	    return [];
-	  }
-	}
+	async readNoteForQueue(file: TFile): Promise<string> {
+  const editor = this.getOpenEditor(file);
+  return editor ? editor.getValue() : this.app.vault.read(file);
+}
 
-// Add this method to score the relevance of a snapshot
-	scoreSnapshotRelevance(snapshot: { url: string, timestamp: string }, originalUrl: string): number {
-  let score = 0;
-  
-  // Valid timestamp gets points
-  if (this.isValidTimestamp(snapshot.timestamp)) {
-    score += 30;
-    
-    // Recent timestamps (within last 2 years) get bonus points
-    try {
-      const snapshotDate = new Date(snapshot.timestamp);
-      const twoYearsAgo = new Date();
-      twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
-      
-      if (snapshotDate > twoYearsAgo) {
-        score += 20;
-      }
-    } catch {}
-  }
-  
-  // URL format scoring
-  try {
-    const urlObj = new URL(snapshot.url);
-    const pathParts = urlObj.pathname.split('/').filter(p => p);
-    
-    // Preferred format: archive.ph/abcd1234
-    if (pathParts.length === 1 && /^[a-zA-Z0-9]{3,10}$/.test(pathParts[0])) {
-      score += 25;
+	// Write a batch of line changes to one note in a single pass. A change whose line no longer
+	// reads oldLine is matched by content instead (unless strict), and dropped if that fails. Returns how many were written.
+	async applyLineChangesToFile(file: TFile, changes: ProposedLineChange[], undoRun?: UndoRun, strict = false): Promise<number> {
+  const editor = this.getOpenEditor(file);
+  const lines = editor ? editor.getValue().split('\n') : (await this.app.vault.read(file)).split('\n');
+  const applied: ProposedLineChange[] = [];
+
+  for (const change of changes) {
+    const lineIndex = findChangeLine(lines, change, strict);
+    if (lineIndex === -1) {
+      continue;
     }
-    
-    // Also good: archive.ph/20220101/example.com
-    if (pathParts.length >= 2 && /^\d{8,14}$/.test(pathParts[0])) {
-      score += 20;
-      
-      // Extra points if the path contains the original domain
-      try {
-        const originalDomain = new URL(originalUrl).hostname.replace('www.', '');
-        if (pathParts[1].includes(originalDomain)) {
-          score += 15;
-        }
-      } catch {}
+
+    const lastIndex = lineIndex + change.oldLine.split('\n').length - 1;
+    if (editor) {
+      editor.replaceRange(change.newLine, { line: lineIndex, ch: 0 }, { line: lastIndex, ch: lines[lastIndex].length });
     }
-  } catch {}
-  
-  return score;
-}
+    // Later changes to the same lines see this one
+    lines.splice(lineIndex, lastIndex - lineIndex + 1, ...change.newLine.split('\n'));
+    applied.push({ file: file.path, line: lineIndex, oldLine: change.oldLine, newLine: change.newLine });
+  }
 
-// Add this helper method if it's not already defined
-	extractArchivedUrl(href: string, linkText: string, contextText: string): string {
-  // For archive.today snapshots, the URL is often in the link text or nearby
-  
-  // Method 1: Check if the link text is a URL
-  if (linkText && linkText.match(/^https?:\/\//)) {
-    return linkText;
+  if (applied.length === 0) {
+    return 0;
   }
-  
-  // Method 2: Look for URL patterns in the context text
-  const urlMatch = contextText.match(/https?:\/\/[^\s"'<>()[\]{}]+/);
-  if (urlMatch) {
-    return urlMatch[0];
+
+  if (!editor) {
+    await this.app.vault.modify(file, lines.join('\n'));
   }
-  
-  // Method 3: For archive.today format, extract from the snapshot ID
-  // Example: /abc123 might be a snapshot of http://example.com
-  if (href && href.startsWith('/')) {
-    // This is more of a guess, but we can check if the snapshot page loads
-    // and extract the URL from there in a real implementation
-    return ""; // Placeholder
+  this.indexNoteLinks(file.path, lines.join('\n'));
+
+  if (undoRun) {
+    undoRun.changes.push(...applied);
+    this.requestUndoSave();
   }
-  
-  return "";
+  return applied.length;
 }
 
-	// Fixed snapshot modal to properly resolve the promise
-	async showSnapshotModal(snapshots: { url: string, timestamp?: string, title?: string }[]): Promise<string | null> {
-  return new Promise((resolve) => {
-    new ArchivePickerModal(this.app, this, snapshots, "", resolve).open();
-  });
+	// Write line changes across the vault and report the result. what names the change for the notice.
+	async applyLineChanges(changes: ProposedLineChange[], what: string): Promise<number> {
+  const undoRun = this.beginUndoRun(`batch-${Date.now().toString(36)}`, what.charAt(0).toUpperCase() + what.slice(1));
+  const byFile = new Map<string, ProposedLineChange[]>();
+  for (const change of changes) {
+    byFile.set(change.file, [...(byFile.get(change.file) || []), change]);
   }
 
-  // Add this helper method to the LinkArchiverPlugin class
- lineContainsArchiveLink(line: string): boolean {
-   // More robust check: look for patterns that indicate an archive link structure
-   // Pattern 1: [text](url) divider [archive](archive-url) or [text](url) divider archive-url
-   // Pattern 2: url divider [archive](archive-url) or url divider archive-url
-   
-   const archiveDomains = [
-     'archive.ph', 'archive.today', 'archive.li', 'archive.md', 'archive.is', 'archive.vn',
-     'web.archive.org', 'ghostarchive.org'
-   ];
-    
-    const dividers = [
-      this.settings.dividerText,
-      " | archive: ",
-      " | ",
-      " 📚 ",
-      " (archived: "
-    ];
-    
-    // Check for each divider pattern
-    for (const divider of dividers) {
-      const parts = line.split(divider);
-      if (parts.length >= 2) {
-        // Check if the second part (after divider) contains an archive domain
-        const afterDivider = parts.slice(1).join(divider);
-        const hasArchiveInSecondPart = archiveDomains.some(domain => afterDivider.includes(domain));
-        
-        if (hasArchiveInSecondPart) {
-          return true;
-        }
-      }
+  let applied = 0;
+  let filesModified = 0;
+  for (const [path, fileChanges] of byFile) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      continue;
     }
-    
-    return false;
-  }
-
-  // Add this helper method to check if a URL is an archive URL
-  isArchiveUrl(url: string): boolean {
-    const archiveDomains = [
-      'archive.ph', 'archive.today', 'archive.li', 'archive.md', 'archive.is', 'archive.vn',
-      'web.archive.org', 'ghostarchive.org'
-    ];
-    
     try {
-      const urlObj = new URL(url);
-      return archiveDomains.some(domain => urlObj.hostname.includes(domain));
-    } catch {
-      return false;
+      const count = await this.applyLineChangesToFile(file, fileChanges, undoRun);
+      applied += count;
+      if (count > 0) {
+        filesModified++;
+      }
+    } catch (error) {
+      console.error(`Error processing file ${path}:`, error);
     }
   }
-  
-  // Helper method to check if a file should be excluded from batch processing
-  shouldExcludeFile(file: any): { excluded: boolean; reason: string } {
-    // Check if the file is in an excluded folder
-    if (this.settings.excludeFolders.length > 0) {
-      for (const folder of this.settings.excludeFolders) {
-        if (file.path.startsWith(folder + '/') || file.path === folder) {
-          return { excluded: true, reason: `In excluded folder: ${folder}` };
-        }
-      }
-    }
-    
-    // Check if the file has excluded tags (both inline and in frontmatter)
-    if (this.settings.excludeFilesWithTags.length > 0) {
-      try {
-        const cache = this.app.metadataCache.getFileCache(file);
-        
-        // Check inline tags
-        if (cache && cache.tags) {
-          for (const tagObj of cache.tags) {
-            const tag = tagObj.tag;
-            if (this.settings.excludeFilesWithTags.includes(tag)) {
-              return { excluded: true, reason: `Has excluded tag: ${tag}` };
-            }
-          }
-        }
-        
-        // Check frontmatter tags
-        if (cache && cache.frontmatter) {
-          const frontmatterTags = cache.frontmatter.tags;
-          if (frontmatterTags) {
-            // Handle both array and string formats
-            const tagsArray = Array.isArray(frontmatterTags)
-              ? frontmatterTags
-              : frontmatterTags.split(',').map((t: string) => t.trim());
-            
-            for (const tag of tagsArray) {
-              const formattedTag = tag.startsWith('#') ? tag : `#${tag}`;
-              if (this.settings.excludeFilesWithTags.includes(formattedTag)) {
-                return { excluded: true, reason: `Has excluded frontmatter tag: ${formattedTag}` };
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error checking tags for ${file.path}:`, error);
-      }
-    }
-    
-    // Check if inverted exclusion is enabled and this file should be included
-    if (this.settings.useInvertedExclusion) {
-      let shouldInclude = false;
-      
-      // Check if file is in a targeted folder
-      if (this.settings.targetFolders.length > 0) {
-        for (const folder of this.settings.targetFolders) {
-          if (file.path.startsWith(folder + '/') || file.path === folder) {
-            shouldInclude = true;
-            break;
-          }
-        }
-      }
-      
-      // Check if file has a targeted tag
-      if (!shouldInclude && this.settings.targetFilesWithTags.length > 0) {
-        try {
-          const cache = this.app.metadataCache.getFileCache(file);
-          
-          // Check inline tags
-          if (cache && cache.tags) {
-            for (const tagObj of cache.tags) {
-              const tag = tagObj.tag;
-              if (this.settings.targetFilesWithTags.includes(tag)) {
-                shouldInclude = true;
-                break;
-              }
-            }
-          }
-          
-          // Check frontmatter tags
-          if (!shouldInclude && cache && cache.frontmatter) {
-            const frontmatterTags = cache.frontmatter.tags;
-            if (frontmatterTags) {
-              const tagsArray = Array.isArray(frontmatterTags)
-                ? frontmatterTags
-                : frontmatterTags.split(',').map((t: string) => t.trim());
-              
-              for (const tag of tagsArray) {
-                const formattedTag = tag.startsWith('#') ? tag : `#${tag}`;
-                if (this.settings.targetFilesWithTags.includes(formattedTag)) {
-                  shouldInclude = true;
-                  break;
-                }
-              }
-            }
-          }
-        } catch (error) {
-          console.error(`Error checking tags for ${file.path}:`, error);
-        }
-      }
-      
-      // If targeting is enabled but this file doesn't match any targets, exclude it
-      if (this.settings.targetFolders.length > 0 || this.settings.targetFilesWithTags.length > 0) {
-        if (!shouldInclude) {
-          return { excluded: true, reason: 'Not in targeted folders or tags' };
-        }
-      }
+
+  const skipped = changes.length - applied;
+  new Notice(`Applied ${applied} ${what} change${applied !== 1 ? 's' : ''} in ${filesModified} file${filesModified !== 1 ? 's' : ''}.` +
+    (skipped > 0 ? ` ${skipped} skipped because the line changed.` : ""));
+  return applied;
+}
+
+	// Batch commands hand their changes here: written straight away, or shown for review in preview mode
+	async commitLineChanges(title: string, changes: ProposedLineChange[], what: string) {
+  if (changes.length === 0) {
+    new Notice(`No ${what} changes to make.`);
+    return;
+  }
+
+  if (this.settings.previewBatchChanges) {
+    new BatchPreviewModal(this.app, title, changes, (selected) => this.applyLineChanges(selected, what)).open();
+  } else {
+    await this.applyLineChanges(changes, what);
+  }
+}
+
+	// Stop a rate-limited job and schedule it to continue after the cooldown
+	private pauseArchiveJob(job: ArchiveJob) {
+  job.status = "paused";
+  job.resumeAt = Date.now() + this.settings.rateLimitCooldownMinutes * 60 * 1000;
+  if (this.settings.autoResumeArchiveJobs) {
+    this.scheduleArchiveJobResume(job);
+  }
+}
+
+	private scheduleArchiveJobResume(job: ArchiveJob) {
+  this.clearJobResumeTimer();
+  const delay = Math.max((job.resumeAt || 0) - Date.now(), 5000);
+  this.jobResumeTimer = window.setTimeout(() => {
+    this.jobResumeTimer = null;
+    if (this.activeJob === job && job.status === "paused" && !job.pausedByUser) {
+      new Notice("Resuming archive queue...");
+      this.runArchiveJob(job);
     }
-    
-    return { excluded: false, reason: '' };
+  }, delay);
+}
+
+	private clearJobResumeTimer() {
+  if (this.jobResumeTimer !== null) {
+    window.clearTimeout(this.jobResumeTimer);
+    this.jobResumeTimer = null;
   }
-  
- showRemoveArchiveLinksDialog() {
-  new RemoveArchiveLinksModal(this.app, this).open();
 }
 
-// Method to archive links in targeted files only
-async archiveTargetedFiles() {
-  // Temporarily enable inverted exclusion
-  const previousSetting = this.settings.useInvertedExclusion;
-  this.settings.useInvertedExclusion = true;
-  
-  // Show confirmation dialog with target information
-  let targetInfo = "";
-  if (this.settings.targetFolders.length > 0) {
-    targetInfo += `Folders: ${this.settings.targetFolders.join(", ")}\n`;
+	// Pick up a job interrupted by a rate limit or by closing Obsidian
+	async restoreArchiveJob() {
+  const job = await this.loadArchiveJob();
+  if (!job || (job.status !== "running" && job.status !== "paused")) {
+    return;
   }
-  if (this.settings.targetFilesWithTags.length > 0) {
-    targetInfo += `Tags: ${this.settings.targetFilesWithTags.join(", ")}`;
+
+  // A "running" job on disk was interrupted by a restart
+  job.status = "paused";
+  this.activeJob = job;
+  this.notifyArchiveQueueChanged();
+
+  const pending = getArchiveJobCounts(job).pending;
+  if (this.settings.autoResumeArchiveJobs && !job.pausedByUser) {
+    new Notice(`Unfinished archiving found (${pending} links left). It will resume automatically.`);
+    this.scheduleArchiveJobResume(job);
+  } else {
+    new Notice(`Unfinished archiving found (${pending} links left). Use "Resume archive queue" to continue.`);
   }
-  
-  if (!targetInfo) {
-    new Notice("No targets configured. Please set target folders or tags in settings.");
-    this.settings.useInvertedExclusion = previousSetting;
+}
+
+	pauseArchiveQueue() {
+  const job = this.activeJob;
+  if (!job || job.status !== "running") {
+    new Notice("The archive queue is not running.");
     return;
   }
-  
-  new TargetedArchiveModal(this.app, targetInfo, async () => {
-    await this.archiveAllLinksInVault();
-    // Restore previous setting
-    this.settings.useInvertedExclusion = previousSetting;
-  }, () => {
-    // Restore previous setting on cancel
-    this.settings.useInvertedExclusion = previousSetting;
-  }).open();
+
+  // The worker notices the status change after the current lookup
+  job.status = "paused";
+  job.pausedByUser = true;
+  this.clearJobResumeTimer();
+  this.saveArchiveJob();
+  this.notifyArchiveQueueChanged();
+  new Notice("Archive queue paused.");
 }
 
-	async removeArchiveLinksFromCurrentNote() {
-  const activeLeaf = this.app.workspace.getActiveViewOfType(MarkdownView);
-  if (!activeLeaf) {
-    new Notice("No active markdown editor found.");
+	async resumeArchiveJob() {
+  const job = this.activeJob || await this.loadArchiveJob();
+  if (!job || job.status === "completed" || job.status === "cancelled") {
+    new Notice("The archive queue is empty.");
     return;
   }
-  
-  const editor = activeLeaf.editor;
-  const content = editor.getValue();
-  const lines = content.split('\n');
-  let modifiedCount = 0;
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    // Look for lines with archive links
-    if (this.lineContainsArchiveLink(line)) {
-      // Extract the original link without the archive part
-      const originalLink = this.extractOriginalLinkFromArchiveLine(line);
-      if (originalLink) {
-        lines[i] = originalLink;
-        modifiedCount++;
-      }
+  if (this.archiveJobRunning) {
+    new Notice("The archive queue is already running.");
+    return;
+  }
+
+  this.activeJob = job;
+  new Notice("Resuming archive queue...");
+  await this.runArchiveJob(job);
+}
+
+	async cancelArchiveJob() {
+  const job = this.activeJob || await this.loadArchiveJob();
+  if (!job || job.status === "completed" || job.status === "cancelled") {
+    new Notice("The archive queue is empty.");
+    return;
+  }
+
+  job.status = "cancelled";
+  this.clearJobResumeTimer();
+  await this.deleteArchiveJob();
+  this.notifyArchiveQueueChanged();
+  new Notice("Archive queue cancelled.");
+}
+
+	// Job currently in the queue, for the status bar and queue view
+	getActiveArchiveJob(): ArchiveJob | null {
+  return this.activeJob;
+}
+
+	onArchiveQueueChange(listener: () => void): () => void {
+  this.archiveQueueListeners.add(listener);
+  return () => this.archiveQueueListeners.delete(listener);
+}
+
+	private notifyArchiveQueueChanged() {
+  this.updateQueueStatusBar();
+  this.archiveQueueListeners.forEach(listener => listener());
+}
+
+	private updateQueueStatusBar() {
+  if (!this.statusBarEl) {
+    return;
+  }
+
+  const job = this.activeJob;
+  if (!job || job.status === "completed" || job.status === "cancelled") {
+    this.statusBarEl.hide();
+    return;
+  }
+
+  const counts = getArchiveJobCounts(job);
+  const state = job.status === "paused" ? " (paused)" : "";
+  this.statusBarEl.setText(`Archive: ${counts.pending} pending · ${counts.done} done · ${counts.failed} failed${state}`);
+  this.statusBarEl.show();
+}
+
+	// Summarise a job in the same shape as the batch archiving report. deadLinksSwapped says whether
+	// dead links were already swapped to their archive links.
+	showArchiveJobReport(job: ArchiveJob, deadLinksSwapped = false) {
+  const skippedLinks: Record<SkipCategory, number> = {
+    alreadyArchived: 0,
+    isArchiveUrl: 0,
+    unsupported: 0,
+    noSnapshots: 0,
+    errors: 0,
+    rateLimited: 0
+  };
+  const skippedDetails: Array<{file: string, line: number, url: string, reason: string}> = [];
+  const archivedDetails: Array<{file: string, line: number, url: string, archiveUrl: string, service?: string}> = [];
+  const processedFiles = new Map<string, {path: string, archived: number, skipped: number}>();
+  const healthDetails: Array<{file: string, line: number, url: string, status: LinkHealthStatus, detail?: string}> = [];
+
+  for (const item of job.items) {
+    if (item.health) {
+      healthDetails.push({ file: item.file, line: item.line + 1, url: item.url, status: item.health.status, detail: item.health.detail });
+    }
+
+    const fileSummary = processedFiles.get(item.file) || { path: item.file, archived: 0, skipped: 0 };
+    processedFiles.set(item.file, fileSummary);
+
+    if (item.status === "archived") {
+      fileSummary.archived++;
+      archivedDetails.push({ file: item.file, line: item.line + 1, url: item.url, archiveUrl: item.archiveUrl || "", service: item.service });
+    } else if (item.status === "skipped" || job.status === "paused") {
+      // Pending items of a paused job were held back by the rate limit
+      const category = item.skipCategory || "rateLimited";
+      skippedLinks[category]++;
+      fileSummary.skipped++;
+      skippedDetails.push({ file: item.file, line: item.line + 1, url: item.url, reason: item.reason || "Rate limited by archive service" });
     }
   }
-  
-  if (modifiedCount > 0) {
-    editor.setValue(lines.join('\n'));
-    new Notice(`Removed ${modifiedCount} archive links from the current note.`);
+
+  const archivedCount = archivedDetails.length;
+  const isNote = job.kind === "note" && processedFiles.size === 1;
+  const deadLinks = job.items.filter(item => item.health && DEAD_LINK_STATUSES.includes(item.health.status));
+
+  // Show detailed report if enabled
+  if (this.settings.detailedReporting) {
+    new ArchiveReportModal(this.app, {
+      archivedCount,
+      skippedLinks,
+      skippedDetails,
+      archivedDetails,
+      excludedFiles: job.excludedFiles,
+      processedFiles: Array.from(processedFiles.values()),
+      isNote,
+      rateLimited: job.status === "paused",
+      filePath: isNote ? job.items[0].file : null,
+      healthDetails,
+      deadLinksSwapped,
+      swapDeadLinks: deadLinks.length > 0 && !deadLinksSwapped ? () => this.swapDeadLinks(deadLinks) : undefined
+    }).open();
   } else {
-    new Notice("No archive links found in the current note.");
+    // Simple notice
+    const totalSkipped = Object.values(skippedLinks).reduce((a, b) => a + b, 0);
+    const label = isNote ? "Note" : "Vault";
+    const dead = healthDetails.length > 0 ? `, Dead links: ${deadLinks.length}${deadLinksSwapped ? " (swapped to archive)" : ""}` : "";
+    new Notice(`${label} archiving ${job.status === "paused" ? "paused" : "complete"}. Archived: ${archivedCount}, Skipped: ${totalSkipped}, Excluded: ${job.excludedFiles.length} files${dead}`);
   }
 }
 
-	async removeArchiveLinksFromVault() {
-  const files = this.app.vault.getMarkdownFiles();
-  let totalModified = 0;
-  let filesModified = 0;
-  
-  new Notice("Starting to remove archive links from vault...");
-  
-  for (const file of files) {
+	// Request an original URL and classify whether it still works. Requests go through the rate limiter per
+	// host, like archive lookups. A HEAD request settles most links; HTML pages get a GET as well so soft 404s
+	// and moved pages can be spotted.
+	async checkLinkHealth(url: string): Promise<LinkHealthResult> {
+  const checkedAt = Date.now();
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return { status: "unreachable", detail: "Invalid URL", checkedAt };
+  }
+  // Offline, every host fails to resolve
+  if (!navigator.onLine) {
+    return { status: "unreachable", detail: "Offline", checkedAt };
+  }
+
+  const request = async (method: string) => {
+    await this.rateLimiter.waitIfNeeded(hostname);
+    return requestUrl({
+      url,
+      method,
+      headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36' },
+      throw: false
+    });
+  };
+
+  try {
+    let response = await request("HEAD");
+    const contentType = response.headers["content-type"] || response.headers["Content-Type"] || "";
+    // Some servers refuse HEAD requests
+    const refusesHead = [403, 405, 501].includes(response.status);
+    if (refusesHead || (response.status >= 200 && response.status < 300 && contentType.includes("html"))) {
+      response = await request("GET");
+    }
+    return this.classifyLinkResponse(url, response, checkedAt);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/ENOTFOUND|ERR_NAME_NOT_RESOLVED/i.test(message)) {
+      return { status: "domainGone", detail: "Domain no longer resolves", checkedAt };
+    }
+    return { status: "unreachable", detail: message, checkedAt };
+  }
+}
+
+	private classifyLinkResponse(url: string, response: RequestUrlResponse, checkedAt: number): LinkHealthResult {
+  const httpStatus = response.status;
+  if (httpStatus === 404 || httpStatus === 410) {
+    return { status: "notFound", httpStatus, checkedAt };
+  }
+  if (httpStatus >= 300 && httpStatus < 400) {
+    return { status: "redirected", httpStatus, detail: response.headers["location"] || response.headers["Location"], checkedAt };
+  }
+  if (httpStatus < 200 || httpStatus >= 300) {
+    return { status: "unreachable", httpStatus, detail: `HTTP ${httpStatus}`, checkedAt };
+  }
+
+  let text = "";
+  try {
+    text = response.text;
+  } catch {
+    // Not text; nothing more to learn from the body
+  }
+  if (!text) {
+    return { status: "alive", httpStatus, checkedAt };
+  }
+
+  const $ = cheerio.load(text);
+  const title = $("title").first().text().trim();
+  if (SOFT_404_TITLE.test(title)) {
+    return { status: "soft404", httpStatus, detail: `Page title: ${title}`, checkedAt };
+  }
+
+  // Redirects are followed, so a moved page shows up as a canonical URL that points elsewhere
+  const canonical = $('link[rel="canonical"]').attr("href") || $('meta[property="og:url"]').attr("content");
+  if (canonical) {
     try {
-      const content = await this.app.vault.read(file);
-      const lines = content.split('\n');
-      let modified = false;
-      let fileModifiedCount = 0;
-      
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        // Look for lines with archive links
-        if (this.lineContainsArchiveLink(line)) {
-          // Extract the original link without the archive part
-          const originalLink = this.extractOriginalLinkFromArchiveLine(line);
-          if (originalLink) {
-            lines[i] = originalLink;
-            modified = true;
-            fileModifiedCount++;
-          }
-        }
+      const original = new URL(url);
+      const target = new URL(canonical, url);
+      const samePage = target.hostname.replace(/^www\./, '') === original.hostname.replace(/^www\./, '') &&
+        target.pathname.replace(/\/$/, '') === original.pathname.replace(/\/$/, '');
+      if (!samePage && target.pathname === "/" && original.pathname.length > 1) {
+        return { status: "soft404", httpStatus, detail: "Sends you to the home page", checkedAt };
       }
-      
-      if (modified) {
-        await this.app.vault.modify(file, lines.join('\n'));
-        filesModified++;
-        totalModified += fileModifiedCount;
+      if (!samePage) {
+        return { status: "redirected", httpStatus, detail: target.href, checkedAt };
       }
-    } catch (error) {
-      console.error(`Error processing file ${file.path}:`, error);
+    } catch {
+      // Unreadable canonical URL; treat the page as alive
+    }
+  }
+
+  return { status: "alive", httpStatus, checkedAt };
+}
+
+	// Rewrite dead links so their archive link comes first and the original follows it. Links with an inline
+	// archive link swap the two; links without one use the archive URL the queue found for them. Footnote and
+	// frontmatter archive links are left alone.
+	async swapDeadLinks(links: Array<{ file: string, line: number, url: string, archiveUrl?: string }>) {
+  const changes: ProposedLineChange[] = [];
+
+  for (const path of new Set(links.map(link => link.file))) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      continue;
+    }
+
+    try {
+      const lines = (await this.readNoteForQueue(file)).split('\n');
+      const contexts = this.classifyMarkdownLines(lines);
+      const frontmatterArchives = this.getFrontmatterArchives(lines);
+      const newLines = [...lines];
+
+      for (const link of links.filter(candidate => candidate.file === path)) {
+        // The line it was queued from first, in case the note changed since
+        const lineIndex = [link.line, ...lines.keys()].find(i => contexts[i] === "text" &&
+          this.swapDeadLinkInLine(newLines[i], link.url, link.archiveUrl, frontmatterArchives) !== null);
+        if (lineIndex !== undefined) {
+          newLines[lineIndex] = this.swapDeadLinkInLine(newLines[lineIndex], link.url, link.archiveUrl, frontmatterArchives)!;
+        }
+      }
+
+      newLines.forEach((newLine, i) => {
+        if (newLine !== lines[i]) {
+          changes.push({ file: path, line: i, oldLine: lines[i], newLine });
+        }
+      });
+    } catch (error) {
+      console.error(`Error processing file ${path}:`, error);
+    }
+  }
+
+  await this.commitLineChanges("Swap dead links to archive", changes, "dead link swap");
+}
+
+	// Find archive links older than the freshness policy and point them at a newer snapshot. Links with no
+	// fresh snapshot are offered for a new capture.
+	async refreshStaleArchiveLinks(files: TFile[]) {
+  const staleLinks = await this.findStaleArchiveLinks(files);
+  if (staleLinks.length === 0) {
+    new Notice(`No archive links older than ${this.settings.staleSnapshotDays} days.`);
+    return;
+  }
+
+  new Notice(`Looking for newer snapshots of ${staleLinks.length} stale archive link${staleLinks.length > 1 ? 's' : ''}...`);
+  const maxAge = this.settings.staleSnapshotDays * 24 * HOUR_MS;
+  const updates = new Map<string, Array<{ link: StaleArchiveLink, newUrl: string, snapshot?: ArchiveSnapshot }>>();
+  const needsCapture: StaleArchiveLink[] = [];
+
+  for (let i = 0; i < staleLinks.length; i++) {
+    const link = staleLinks[i];
+    // A cached lookup is likely what found the stale snapshot
+    this.archiveCache.delete(link.url);
+    const result = await this.getExistingArchive(link.url);
+    if (result.rateLimited) {
+      new Notice(`Rate limited by archive service. ${staleLinks.length - i} stale links were not checked.`);
+      break;
+    }
+
+    // Newest snapshot from any service
+    let newest: { snapshot: ArchiveSnapshot, time: number } | null = null;
+    for (const snapshot of result.snapshots || []) {
+      const time = this.getSnapshotTime(this.getSnapshotTimestamp(snapshot.url, snapshot));
+      if (time !== null && (!newest || time > newest.time)) {
+        newest = { snapshot, time };
+      }
+    }
+
+    if (newest && Date.now() - newest.time <= maxAge) {
+      updates.set(link.file, [...(updates.get(link.file) || []), { link, newUrl: newest.snapshot.url, snapshot: newest.snapshot }]);
+    } else {
+      needsCapture.push(link);
+    }
+  }
+
+  const changes: ProposedLineChange[] = [];
+  for (const [path, fileUpdates] of updates) {
+    changes.push(...await this.buildArchiveUrlUpdates(path, fileUpdates));
+  }
+  if (changes.length > 0) {
+    await this.commitLineChanges("Refresh stale archive links", changes, "archive link refresh");
+  }
+
+  if (needsCapture.length > 0) {
+    new RecaptureModal(this.app, this, needsCapture).open();
+  } else if (changes.length === 0) {
+    new Notice("No newer snapshots found.");
+  }
+}
+
+	// Archive links in the files whose snapshot is older than staleSnapshotDays. The date comes from the
+	// archive URL, the footnote or frontmatter entry, the link index or the cached lookup, in that order;
+	// links whose capture date is unknown are left alone.
+	async findStaleArchiveLinks(files: TFile[]): Promise<StaleArchiveLink[]> {
+  const maxAge = this.settings.staleSnapshotDays * 24 * HOUR_MS;
+  const staleLinks: StaleArchiveLink[] = [];
+
+  for (const file of files) {
+    try {
+      const lines = (await this.app.vault.cachedRead(file)).split('\n');
+      for (const noteLink of this.collectNoteLinks(lines)) {
+        if (noteLink.context !== "text" || !noteLink.archiveUrl || !noteLink.placement) {
+          continue;
+        }
+        const { archiveUrl } = noteLink;
+        const url = noteLink.link.originalUrl;
+        const indexed = this.linkIndexNotes[file.path]?.links.find(link => link.url === url && link.archiveUrl === archiveUrl);
+        const cachedSnapshot = this.archiveCache.get(url)?.snapshots?.find(snapshot => snapshot.url === archiveUrl);
+        const timestamp = this.getSnapshotTimestamp(archiveUrl) || noteLink.timestamp || indexed?.timestamp ||
+          (cachedSnapshot ? this.getSnapshotTimestamp(archiveUrl, cachedSnapshot) : "");
+        const captured = this.getSnapshotTime(timestamp || "");
+        if (captured !== null && Date.now() - captured > maxAge) {
+          staleLinks.push({ file: file.path, line: noteLink.line, url, archiveUrl, placement: noteLink.placement, captured });
+        }
+      }
+    } catch (error) {
+      console.error(`Error processing file ${file.path}:`, error);
+    }
+  }
+
+  return staleLinks;
+}
+
+	// Capture a new snapshot of a stale archive link (through the capture service, or by hand) and point the link at it
+	async recaptureStaleLink(link: StaleArchiveLink): Promise<boolean> {
+  const newUrl = await this.captureNewSnapshot(link.url) || await this.showArchivePromptModal(link.url);
+  if (!newUrl) {
+    return false;
+  }
+  await this.commitLineChanges("Refresh stale archive links", await this.buildArchiveUrlUpdates(link.file, [{ link, newUrl }]), "archive link refresh");
+  return true;
+}
+
+	// Changes that replace the archive URL of stale links in one note, wherever the archive link is placed.
+	// Footnotes and frontmatter entries get the new snapshot date as well.
+	async buildArchiveUrlUpdates(path: string, updates: Array<{ link: StaleArchiveLink, newUrl: string, snapshot?: ArchiveSnapshot }>): Promise<ProposedLineChange[]> {
+  const file = this.app.vault.getAbstractFileByPath(path);
+  if (!(file instanceof TFile)) {
+    return [];
+  }
+
+  const lines = (await this.readNoteForQueue(file)).split('\n');
+  const frontmatterEnd = this.getFrontmatterEnd(lines);
+  const newLines = [...lines];
+  const frontmatterUpdates: typeof updates = [];
+
+  for (const update of updates) {
+    const { link, newUrl } = update;
+    if (link.placement === "frontmatter") {
+      frontmatterUpdates.push(update);
+      continue;
+    }
+
+    // Footnote archive links sit in their definition; inline ones on the link's line, unless it moved
+    const lineIndex = link.placement === "footnote" ?
+      newLines.findIndex(line => ARCHIVE_FOOTNOTE_DEFINITION.test(line) && line.includes(link.archiveUrl)) :
+      [link.line, ...newLines.keys()].find(i => i > frontmatterEnd && newLines[i]?.includes(link.archiveUrl));
+    if (lineIndex === undefined || lineIndex === -1) {
+      continue;
+    }
+
+    newLines[lineIndex] = newLines[lineIndex].split(link.archiveUrl).join(newUrl);
+    const timestamp = this.formatSnapshotTimestamp(this.getSnapshotTimestamp(newUrl, update.snapshot), DEFAULT_TIMESTAMP_FORMAT);
+    if (link.placement === "footnote" && timestamp) {
+      newLines[lineIndex] = newLines[lineIndex].replace(/ on \S+$/, ` on ${timestamp}`);
+    }
+  }
+
+  // Bottom to top, like the other batch changes
+  const changes: ProposedLineChange[] = [];
+  newLines.forEach((newLine, i) => {
+    if (newLine !== lines[i]) {
+      changes.unshift({ file: path, line: i, oldLine: lines[i], newLine });
+    }
+  });
+
+  if (frontmatterUpdates.length > 0) {
+    try {
+      changes.push(this.buildFrontmatterArchiveChange(path, lines, (archives) => {
+        for (const { link, newUrl, snapshot } of frontmatterUpdates) {
+          const timestamp = this.formatSnapshotTimestamp(this.getSnapshotTimestamp(newUrl, snapshot), DEFAULT_TIMESTAMP_FORMAT);
+          archives[link.url] = timestamp ? { url: newUrl, timestamp } : { url: newUrl };
+        }
+      }));
+    } catch (error) {
+      new Notice(`Could not update the frontmatter archives of ${path}: ${error.message}`);
+    }
+  }
+
+  return changes;
+}
+
+	// A line with the first inline link to url swapped for its archive link, or null if it can't be swapped
+	private swapDeadLinkInLine(line: string, url: string, archiveUrl: string | undefined, frontmatterArchives: Map<string, FrontmatterArchiveEntry>): string | null {
+  const pair = this.pairArchiveLinks(line, frontmatterArchives).find(candidate =>
+    candidate.link.originalUrl === url && !candidate.swapped && !candidate.link.isReference
+  );
+  if (!pair || pair.footnote || pair.inFrontmatter) {
+    return null;
+  }
+  const target = pair.companion ? pair.companion.originalUrl : archiveUrl;
+  if (!target) {
+    return null;
+  }
+  const end = pair.companion ? pair.companionEnd : pair.link.end;
+  const swapped = this.formatDeadLinkSwap(pair.link, target);
+  return line.slice(0, pair.link.start) + (isTableRow(line) ? escapeTablePipes(swapped) : swapped) + line.slice(end);
+}
+
+	private getJobFilePath(): string {
+  return normalizePath(`${this.manifest.dir}/${JOB_FILE_NAME}`);
+}
+
+	async loadArchiveJob(): Promise<ArchiveJob | null> {
+  try {
+    const path = this.getJobFilePath();
+    if (!(await this.app.vault.adapter.exists(path))) {
+      return null;
+    }
+    return JSON.parse(await this.app.vault.adapter.read(path));
+  } catch (error) {
+    console.error("Error loading archive queue:", error);
+    return null;
+  }
+}
+
+	async saveArchiveJob() {
+  if (!this.activeJob) {
+    return;
+  }
+  try {
+    await this.app.vault.adapter.write(this.getJobFilePath(), JSON.stringify(this.activeJob));
+  } catch (error) {
+    console.error("Error saving archive queue:", error);
+  }
+}
+
+	async deleteArchiveJob() {
+  this.activeJob = null;
+  try {
+    const path = this.getJobFilePath();
+    if (await this.app.vault.adapter.exists(path)) {
+      await this.app.vault.adapter.remove(path);
+    }
+  } catch (error) {
+    console.error("Error deleting archive queue:", error);
+  }
+}
+
+	// Start recording a batch run, or continue the run with the same id
+	beginUndoRun(id: string, label: string): UndoRun {
+  let run = this.undoRuns.find(existing => existing.id === id);
+  if (!run) {
+    run = { id, label, createdAt: Date.now(), changes: [] };
+    // Runs that wrote nothing shouldn't push real ones out of the journal
+    this.undoRuns = this.undoRuns.filter(existing => existing.changes.length > 0);
+    this.undoRuns.push(run);
+    this.undoRuns.splice(0, Math.max(0, this.undoRuns.length - MAX_UNDO_RUNS));
+  }
+  return run;
+}
+
+	// Put back the lines written by the most recent run. Lines edited since are left as they are.
+	async undoLastArchiveRun() {
+  const run = [...this.undoRuns].reverse().find(candidate => candidate.changes.length > 0);
+  if (!run) {
+    new Notice("No archive run to undo.");
+    return;
+  }
+
+  // Undo newest first, so a line changed twice in one run goes back through each step
+  const reversed = [...run.changes].reverse().map(change => ({
+    file: change.file,
+    line: change.line,
+    oldLine: change.newLine,
+    newLine: change.oldLine
+  }));
+  const byFile = new Map<string, ProposedLineChange[]>();
+  for (const change of reversed) {
+    byFile.set(change.file, [...(byFile.get(change.file) || []), change]);
+  }
+
+  let restored = 0;
+  for (const [path, fileChanges] of byFile) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      continue;
+    }
+    try {
+      // Only where the run wrote: an identical line elsewhere in the note may be one the user wrote
+      restored += await this.applyLineChangesToFile(file, fileChanges, undefined, true);
+    } catch (error) {
+      console.error(`Error processing file ${path}:`, error);
+    }
+  }
+
+  this.undoRuns = this.undoRuns.filter(candidate => candidate !== run);
+  await this.saveUndoJournal();
+
+  const kept = run.changes.length - restored;
+  new Notice(`Undid "${run.label}": restored ${restored} line${restored !== 1 ? 's' : ''}.` +
+    (kept > 0 ? ` ${kept} line${kept !== 1 ? 's were' : ' was'} edited since and kept as is.` : ""));
+}
+
+	private getUndoFilePath(): string {
+  return normalizePath(`${this.manifest.dir}/${UNDO_FILE_NAME}`);
+}
+
+	async loadUndoJournal() {
+  try {
+    const path = this.getUndoFilePath();
+    if (await this.app.vault.adapter.exists(path)) {
+      this.undoRuns = JSON.parse(await this.app.vault.adapter.read(path)).runs || [];
+    }
+  } catch (error) {
+    console.error("Error loading undo journal:", error);
+  }
+}
+
+	async saveUndoJournal() {
+  try {
+    await this.app.vault.adapter.write(this.getUndoFilePath(), JSON.stringify({ runs: this.undoRuns }));
+  } catch (error) {
+    console.error("Error saving undo journal:", error);
+  }
+}
+
+	// Record the external links of a note in the link index. Called whenever the plugin writes to a note.
+	indexNoteLinks(path: string, content: string) {
+  if (!this.settings.maintainLinkIndex || path === normalizePath(this.settings.linkIndexPath)) {
+    return;
+  }
+
+  const links = this.collectNoteLinks(content.split('\n'))
+    .filter(noteLink => noteLink.context === "text" && !noteLink.link.isReference && !this.isArchiveUrl(noteLink.link.originalUrl))
+    .map(noteLink => ({
+      url: noteLink.link.originalUrl,
+      archiveUrl: noteLink.archiveUrl,
+      timestamp: noteLink.archiveUrl ? this.getSnapshotTimestamp(noteLink.archiveUrl) || noteLink.timestamp : undefined
+    }));
+
+  if (links.length > 0) {
+    this.linkIndexNotes[path] = { links };
+  } else {
+    delete this.linkIndexNotes[path];
+  }
+  this.requestLinkIndexSave();
+}
+
+	// Note the time of a fresh archive lookup for the link index
+	private recordLinkCheck(url: string) {
+  if (this.settings.maintainLinkIndex) {
+    this.linkIndexChecks[url] = Date.now();
+    this.requestLinkIndexSave();
+  }
+}
+
+	// Follow a renamed note, or drop a deleted one (newPath null)
+	private moveLinkIndexNote(oldPath: string, newPath: string | null) {
+  const note = this.linkIndexNotes[oldPath];
+  if (!this.settings.maintainLinkIndex || !note) {
+    return;
+  }
+  delete this.linkIndexNotes[oldPath];
+  if (newPath) {
+    this.linkIndexNotes[newPath] = note;
+  }
+  this.requestLinkIndexSave();
+}
+
+	// Index every note from scratch. Lookup times are kept for URLs still in the vault.
+	async rebuildLinkIndex() {
+  if (!this.settings.maintainLinkIndex) {
+    new Notice("Turn on \"Maintain link index\" in settings first.");
+    return;
+  }
+
+  new Notice("Rebuilding link index...");
+  this.linkIndexNotes = {};
+  for (const file of this.app.vault.getMarkdownFiles()) {
+    try {
+      this.indexNoteLinks(file.path, await this.app.vault.cachedRead(file));
+    } catch (error) {
+      console.error(`Error indexing file ${file.path}:`, error);
+    }
+  }
+
+  const entries = this.getLinkIndexEntries();
+  for (const url of Object.keys(this.linkIndexChecks)) {
+    if (!(url in entries)) {
+      delete this.linkIndexChecks[url];
+    }
+  }
+  await this.saveLinkIndex();
+  new Notice(`Link index rebuilt: ${Object.keys(entries).length} URLs in ${Object.keys(this.linkIndexNotes).length} notes.`);
+}
+
+	// The index by original URL, sorted by URL
+	getLinkIndexEntries(): Record<string, LinkIndexEntry> {
+  const entries: Record<string, LinkIndexEntry> = {};
+  for (const path of Object.keys(this.linkIndexNotes).sort()) {
+    for (const { url, archiveUrl, timestamp } of this.linkIndexNotes[path].links) {
+      const entry = entries[url] || (entries[url] = { snapshots: [], notes: [] });
+      if (!entry.notes.includes(path)) {
+        entry.notes.push(path);
+      }
+      if (archiveUrl && !entry.snapshots.some(snapshot => snapshot.url === archiveUrl)) {
+        entry.snapshots.push({
+          url: archiveUrl,
+          service: this.getProviderForUrl(archiveUrl)?.name,
+          captured: timestamp ? this.formatSnapshotTimestamp(timestamp, DEFAULT_TIMESTAMP_FORMAT) : undefined
+        });
+      }
+    }
+  }
+
+  const sorted: Record<string, LinkIndexEntry> = {};
+  for (const url of Object.keys(entries).sort()) {
+    const checked = this.linkIndexChecks[url];
+    sorted[url] = checked ? { ...entries[url], lastChecked: new Date(checked).toISOString() } : entries[url];
+  }
+  return sorted;
+}
+
+	private getLinkIndexFilePath(): string {
+  return normalizePath(`${this.manifest.dir}/${LINK_INDEX_FILE_NAME}`);
+}
+
+	async loadLinkIndex() {
+  if (!this.settings.maintainLinkIndex) {
+    return;
+  }
+  try {
+    const path = this.getLinkIndexFilePath();
+    if (await this.app.vault.adapter.exists(path)) {
+      const data = JSON.parse(await this.app.vault.adapter.read(path));
+      this.linkIndexNotes = data.notes || {};
+      this.linkIndexChecks = data.lastChecked || {};
+      this.linkIndexSavedState = JSON.stringify({ notes: this.linkIndexNotes, lastChecked: this.linkIndexChecks });
+    }
+  } catch (error) {
+    console.error("Error loading link index:", error);
+  }
+}
+
+	// Save the index state to the plugin folder and write the index file at the configured path:
+	// JSON for a .json path, otherwise a markdown table. Nothing is written when the state hasn't
+	// changed since the last save and the index file is still there.
+	saveLinkIndex(): Promise<void> {
+  this.linkIndexSave = this.linkIndexSave.then(() => this.writeLinkIndex());
+  return this.linkIndexSave;
+}
+
+	private async writeLinkIndex() {
+  try {
+    const adapter = this.app.vault.adapter;
+    const state = JSON.stringify({ notes: this.linkIndexNotes, lastChecked: this.linkIndexChecks });
+    const indexPath = normalizePath(this.settings.linkIndexPath);
+    if (state === this.linkIndexSavedState && await adapter.exists(indexPath)) {
+      return;
+    }
+    await adapter.write(this.getLinkIndexFilePath(), state);
+
+    const folder = indexPath.includes("/") ? indexPath.slice(0, indexPath.lastIndexOf("/")) : "";
+    const entries = this.getLinkIndexEntries();
+    if (indexPath.toLowerCase().endsWith(".json")) {
+      if (folder && !(await adapter.exists(folder))) {
+        await adapter.mkdir(folder);
+      }
+      await adapter.write(indexPath, JSON.stringify({ updated: new Date().toISOString(), links: entries }, null, 2));
+    } else {
+      // A note, so it goes through the vault and open editors and other plugins see the change
+      const content = this.renderLinkIndexMarkdown(entries);
+      const existing = this.app.vault.getAbstractFileByPath(indexPath);
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, content);
+      } else {
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+          await this.app.vault.createFolder(folder);
+        }
+        await this.app.vault.create(indexPath, content);
+      }
+    }
+    this.linkIndexSavedState = state;
+  } catch (error) {
+    console.error("Error saving link index:", error);
+  }
+}
+
+	private renderLinkIndexMarkdown(entries: Record<string, LinkIndexEntry>): string {
+  // Pipes would end a table cell
+  const cell = (text: string) => text.replace(/\|/g, "\\|");
+  const rows = Object.entries(entries).map(([url, entry]) => {
+    const snapshots = entry.snapshots.map(snapshot =>
+      `[${cell(snapshot.service || "archive")}${snapshot.captured ? ` ${snapshot.captured}` : ""}](${cell(snapshot.url)})`).join("<br>");
+    const notes = entry.notes.map(path => `[[${cell(path.replace(/\.md$/, ""))}]]`).join("<br>");
+    return `| ${cell(url)} | ${snapshots || "—"} | ${notes} | ${entry.lastChecked ? entry.lastChecked.slice(0, 10) : "—"} |`;
+  });
+
+  return [
+    "# Link Archive Index",
+    "",
+    `Maintained by Link Archiver; updated ${new Date().toISOString().slice(0, 16).replace("T", " ")}. Edits to this note are overwritten.`,
+    "",
+    "| URL | Snapshots | Notes | Last checked |",
+    "| --- | --- | --- | --- |",
+    ...rows,
+    ""
+  ].join("\n");
+}
+
+	async getExistingArchive(originalUrl: string): Promise<ArchiveLookupResult> {
+  console.log(`Checking for existing archives of: ${originalUrl}`);
+
+  // Check cache first
+  const cachedResult = this.archiveCache.get(originalUrl);
+  if (cachedResult) {
+    console.log(`Using cached result for: ${originalUrl}`);
+    return cachedResult;
+  }
+
+  const providers = this.getEnabledProviders();
+  let lookups: Array<{ provider: ArchiveProvider, snapshots: ArchiveSnapshot[], rateLimited: boolean, captchaRequired?: boolean, failed?: boolean }> = [];
+
+  if (this.settings.queryServicesInParallel) {
+    // Ask every service at once; priority order still decides which snapshot wins
+    lookups = await Promise.all(providers.map(async provider => ({
+      provider,
+      ...await this.lookupWithProvider(provider, originalUrl)
+    })));
+  } else {
+    // Try each service in turn and stop at the first one that has a snapshot
+    for (const provider of providers) {
+      const lookup = await this.lookupWithProvider(provider, originalUrl);
+      lookups.push({ provider, ...lookup });
+      if (lookup.snapshots.length > 0) {
+        break;
+      }
+    }
+  }
+
+  const winner = lookups.find(lookup => lookup.snapshots.length > 0);
+  if (winner) {
+    // The picker shows every snapshot found, grouped by service priority
+    const snapshots = lookups.reduce((all: ArchiveSnapshot[], lookup) => all.concat(lookup.snapshots), []);
+    const result = {
+      foundArchive: true,
+      archivedUrl: winner.snapshots[0].url,
+      snapshots: snapshots,
+      service: winner.provider.name
+    };
+
+    console.log(`Found archive for ${originalUrl} on ${winner.provider.name}`);
+
+    // Cache the result
+    this.archiveCache.set(originalUrl, result);
+    this.recordLinkCheck(originalUrl);
+
+    return result;
+  }
+
+  // Only report rate limiting when it may have hidden a snapshot
+  if (lookups.some(lookup => lookup.rateLimited)) {
+    return { foundArchive: false, rateLimited: true };
+  }
+
+  // A service that wanted a CAPTCHA may have a snapshot, so the miss isn't cached
+  const captchaRequired = lookups.filter(lookup => lookup.captchaRequired).map(lookup => lookup.provider.id);
+  if (captchaRequired.length > 0) {
+    return { foundArchive: false, captchaRequired };
+  }
+  
+  console.log(`No archives found for: ${originalUrl}`);
+  const result = { foundArchive: false };
+
+  // A service that errored may have a snapshot, so only a clean miss from every service is cached
+  if (lookups.some(lookup => lookup.failed)) {
+    return result;
+  }
+
+  // Cache negative results too to avoid repeated failed lookups
+  this.archiveCache.set(originalUrl, result);
+  this.recordLinkCheck(originalUrl);
+
+  return result;
+}
+
+	// Query a single archive service, with rate limiting and retries for transient errors
+	private async lookupWithProvider(provider: ArchiveProvider, originalUrl: string, retryCount = 0): Promise<{ snapshots: ArchiveSnapshot[], rateLimited: boolean, captchaRequired?: boolean, failed?: boolean }> {
+  // It would ask again for every link in the queue
+  if (this.captchaServices?.has(provider.id)) {
+    return { snapshots: [], rateLimited: false, captchaRequired: true };
+  }
+
+  // Enforce rate limiting
+  await this.rateLimiter.waitIfNeeded(provider.id);
+
+  console.log(`Using archive site: ${provider.name} (${provider.baseUrl})`);
+
+  try {
+    const snapshots = await provider.getSnapshots(originalUrl);
+    if (this.settings.debugMode) {
+      console.log(`lookupWithProvider: ${provider.name} returned ${snapshots.length} snapshots`);
+    }
+
+    return {
+      snapshots: snapshots.map(snapshot => ({ ...snapshot, service: provider.name })),
+      rateLimited: false
+    };
+  } catch (err) {
+    console.error(`Error checking ${provider.name}:`, err);
+
+    // Classify the error
+    const archiveError = this.classifyArchiveError(err, provider.name);
+
+    // Show user-friendly error message. In the archive queue a CAPTCHA is reported once, below.
+    if (archiveError.type !== ArchiveErrorType.UNKNOWN && !(archiveError.type === ArchiveErrorType.CAPTCHA_REQUIRED && this.captchaServices)) {
+      new Notice(archiveError.message);
+    }
+
+    // Check for rate limiting
+    if (archiveError.type === ArchiveErrorType.RATE_LIMITED) {
+      console.log(`Rate limited by ${provider.name}`);
+      return { snapshots: [], rateLimited: true };
+    }
+
+    if (archiveError.type === ArchiveErrorType.CAPTCHA_REQUIRED) {
+      if (this.captchaServices && !this.captchaServices.has(provider.id)) {
+        this.captchaServices.add(provider.id);
+        new Notice(`${provider.name} asked for a CAPTCHA, so it's skipped for the rest of the archive queue. Use "Archive link at cursor" to get past it.`);
+      }
+      return { snapshots: [], rateLimited: false, captchaRequired: true };
+    }
+
+    // Implement retry logic with exponential backoff for transient errors
+    if (retryCount < 2 && (
+      archiveError.type === ArchiveErrorType.NETWORK_ERROR ||
+      archiveError.type === ArchiveErrorType.SERVICE_UNAVAILABLE
+    )) {
+      const delay = Math.pow(2, retryCount) * 1000; // 1s, 2s delay
+      console.log(`Retrying ${provider.name} check in ${delay}ms...`);
+
+      // Wait for the delay period
+      await new Promise(resolve => setTimeout(resolve, delay));
+
+      // Retry with incremented counter
+      return this.lookupWithProvider(provider, originalUrl, retryCount + 1);
+    }
+
+    // Not the same as having no snapshots; the caller mustn't cache it as a miss
+    return { snapshots: [], rateLimited: false, failed: true };
+  }
+}
+
+	// Classify archive service errors for better user feedback
+	classifyArchiveError(err: any, serviceName: string): ArchiveError {
+		// Check for rate limiting. archive.today answers with a 429 CAPTCHA page, which is handled below.
+		if ((err.status === 429 && !/captcha/i.test(err.text || "")) ||
+				(err.message && (
+					err.message.toLowerCase().includes("rate limit") ||
+					err.message.toLowerCase().includes("too many requests")
+				))) {
+			return {
+				type: ArchiveErrorType.RATE_LIMITED,
+				message: `${serviceName} is rate limiting requests. Please wait a moment and try again.`,
+				serviceName
+			};
+		}
+
+		// Check for captcha requirements (common with archive.today variants)
+		if (err.status === 403 ||
+				(err.text && (
+					err.text.includes("captcha") ||
+					err.text.includes("CAPTCHA") ||
+					err.text.includes("cloudflare") ||
+					err.text.includes("challenge")
+				))) {
+			return {
+				type: ArchiveErrorType.CAPTCHA_REQUIRED,
+				message: `${serviceName} requires CAPTCHA verification. This service cannot be automated.`,
+				serviceName
+			};
+		}
+
+		// Check for IP blocking
+		if (err.status === 403 && err.message && err.message.toLowerCase().includes("forbidden")) {
+			return {
+				type: ArchiveErrorType.IP_BLOCKED,
+				message: `${serviceName} has blocked this request. Your IP may be temporarily blocked.`,
+				serviceName
+			};
+		}
+
+		// Check for service unavailability
+		if (err.status === 503 || err.status === 504 ||
+				(err.message && (
+					err.message.toLowerCase().includes("service unavailable") ||
+					err.message.toLowerCase().includes("gateway timeout")
+				))) {
+			return {
+				type: ArchiveErrorType.SERVICE_UNAVAILABLE,
+				message: `${serviceName} is currently unavailable. Please try again later.`,
+				serviceName
+			};
+		}
+
+		// Network errors
+		if (err.message && (
+				err.message.toLowerCase().includes("network") ||
+				err.message.toLowerCase().includes("timeout") ||
+				err.message.toLowerCase().includes("econnrefused")
+			)) {
+			return {
+				type: ArchiveErrorType.NETWORK_ERROR,
+				message: `Network error connecting to ${serviceName}. Check your internet connection.`,
+				serviceName
+			};
+		}
+
+		// Unknown error
+		return {
+			type: ArchiveErrorType.UNKNOWN,
+			message: `Error accessing ${serviceName}: ${err.message || 'Unknown error'}`,
+			serviceName
+		};
+	}
+
+// Normalize a URL for comparison
+	normalizeUrl(url: string): string {
+  try {
+    // Create a URL object to parse the components
+    const urlObj = new URL(url);
+    
+    // Normalize the hostname (lowercase)
+    let hostname = urlObj.hostname.toLowerCase();
+    
+    // Normalize the path (remove trailing slash)
+    let path = urlObj.pathname;
+    if (path.endsWith('/') && path.length > 1) {
+      path = path.slice(0, -1);
+    }
+    
+    // Construct the normalized URL
+    let normalizedUrl = hostname + path;
+    if (urlObj.search) {
+      normalizedUrl += urlObj.search;
+    }
+    
+    return normalizedUrl;
+  } catch (e) {
+    // If URL parsing fails, return the original
+    return url;
+  }
+}
+
+// Score how well an archived URL matches the original URL
+	scoreUrlMatch(originalUrl: string, archivedUrl: string): number {
+  if (!archivedUrl) return 0;
+  
+  try {
+    // First, check for exact URL match
+    if (originalUrl === archivedUrl) {
+      return 100;
+    }
+    
+    // Normalize both URLs for comparison
+    const normalizedOriginal = this.normalizeUrl(originalUrl);
+    const normalizedArchived = this.normalizeUrl(archivedUrl);
+    
+    // Exact match after normalization gets highest score
+    if (normalizedOriginal === normalizedArchived) {
+      return 100;
+    }
+    
+    // Check if the protocol differs but the rest matches
+    const originalNoProtocol = normalizedOriginal.replace(/^https?:\/\//, '');
+    const archivedNoProtocol = normalizedArchived.replace(/^https?:\/\//, '');
+    
+    if (originalNoProtocol === archivedNoProtocol) {
+      return 90; // Very good match, just protocol differs
+    }
+    
+    // Check if the archived URL is the original with www. added/removed
+    const originalNoWww = originalNoProtocol.replace(/^www\./, '');
+    const archivedNoWww = archivedNoProtocol.replace(/^www\./, '');
+    
+    if (originalNoWww === archivedNoWww) {
+      return 85; // Good match, just www. prefix differs
+    }
+    
+    // Check for trailing slash differences
+    if (originalNoWww.replace(/\/$/, '') === archivedNoWww.replace(/\/$/, '')) {
+      return 80; // Good match, just trailing slash differs
+    }
+    
+    // For specific cases like news articles and blog posts, the path is important
+    // We want to avoid matching just the domain
+    
+    try {
+      const originalDomain = new URL(originalUrl).hostname.toLowerCase();
+      const archivedDomain = new URL(archivedUrl).hostname.toLowerCase();
+      
+      // If domains match exactly but paths differ significantly
+      if (originalDomain === archivedDomain) {
+        // For news articles and blog posts, we typically want the exact path
+        // Only give a decent score if the path is very similar
+        
+        const originalPath = new URL(originalUrl).pathname;
+        const archivedPath = new URL(archivedUrl).pathname;
+        
+        // If one path is contained within the other
+        if (originalPath.includes(archivedPath) || archivedPath.includes(originalPath)) {
+          return 60;
+        }
+        
+        // If paths share significant common parts
+        const originalPathParts = originalPath.split('/').filter(p => p);
+        const archivedPathParts = archivedPath.split('/').filter(p => p);
+        
+        // Check if at least 50% of path segments match
+        const commonParts = originalPathParts.filter(p => archivedPathParts.includes(p));
+        if (commonParts.length > 0 && 
+            commonParts.length >= Math.min(originalPathParts.length, archivedPathParts.length) / 2) {
+          return 50;
+        }
+        
+        // Otherwise, it's not a good match for articles/blog posts
+        return 30; // Same domain but different path - not great for articles
+      }
+      
+      // If even the domains don't match exactly, it's a poor match
+      return 10;
+    } catch (e) {
+      // URL parsing failed
+      return 0;
+    }
+  } catch (e) {
+    console.error("Error scoring URL match:", e);
+    return 0;
+  }
+} 
+
+// Helper function to validate if a URL is actually an archive URL
+	isValidArchiveUrl(url: string): boolean {
+  const archiveDomains = this.getArchiveDomains();
+  
+  try {
+    const urlObj = new URL(url);
+    return archiveDomains.some(domain => urlObj.hostname.includes(domain));
+  } catch {
+    return false;
+  }
+}
+
+// Helper function to validate timestamp format
+	isValidTimestamp(timestamp: string): boolean {
+  if (!timestamp || timestamp === 'Unknown date') return false;
+  
+  // Check for common timestamp patterns
+  const patterns = [
+    /\d{4}-\d{2}-\d{2}/, // YYYY-MM-DD
+    /\d{1,2}\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{4}/, // DD Mon YYYY
+    /\d{2}\/\d{2}\/\d{4}/, // MM/DD/YYYY or DD/MM/YYYY
+    /\d{14}/, // Wayback timestamp format
+  ];
+  
+  if (!patterns.some(pattern => pattern.test(timestamp))) {
+    return false;
+  }
+  
+  // Additional check for reasonable date range
+  try {
+    const date = new Date(timestamp);
+    const year = date.getFullYear();
+    
+    // Validate the date is within a reasonable range
+    // Internet Archive started in 1996, but we'll allow a bit earlier
+    // And we'll reject future dates beyond next year
+    const currentYear = new Date().getFullYear();
+    return year >= 1990 && year <= currentYear + 1 && !isNaN(date.getTime());
+  } catch {
+    // If date parsing fails, try to extract year from the timestamp string
+    const yearMatch = timestamp.match(/\b(19\d{2}|20\d{2})\b/);
+    if (yearMatch) {
+      const year = parseInt(yearMatch[1]);
+      const currentYear = new Date().getFullYear();
+      return year >= 1990 && year <= currentYear + 1;
+    }
+    return false;
+  }
+}
+
+	isValidArchiveSnapshot(url: string, originalUrl: string): boolean {
+  // First check if it's a valid archive URL
+  if (!this.isValidArchiveUrl(url)) {
+    return false;
+  }
+  
+  // Reject URLs that contain the original URL in a problematic way
+  // This filters out archive.ph/https://example.com/* patterns
+  if (url.includes('/http') && url.includes(new URL(originalUrl).hostname)) {
+    return false;
+  }
+  
+  // For archive.today family, check for proper snapshot format
+  // Valid format is typically: archive.ph/abcd1234 or archive.ph/20220101/example.com
+  try {
+    const urlObj = new URL(url);
+    const pathParts = urlObj.pathname.split('/').filter(p => p);
+    
+    // First path segment should be either a short code or a date
+    if (pathParts.length > 0) {
+      const firstSegment = pathParts[0];
+      
+      // Valid patterns: short code (3-10 alphanumeric chars) or date (numeric)
+      const isShortCode = /^[a-zA-Z0-9]{3,10}$/.test(firstSegment);
+      const isDateCode = /^\d{8,14}$/.test(firstSegment);
+      
+      return isShortCode || isDateCode;
+    }
+    
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+	async getGhostArchiveSnapshots(originalUrl: string): Promise<{ url: string, timestamp: string }[]> {
+	  // Properly construct search URL handling all edge cases
+	  let cleanUrl = originalUrl;
+	  // Remove trailing slash if present
+	  if (cleanUrl.endsWith('/')) {
+	    cleanUrl = cleanUrl.slice(0, -1);
+	  }
+	  // Encode only the query parameter value
+	  const searchUrl = `https://ghostarchive.org/search?term=${encodeURIComponent(cleanUrl)}`;
+    console.log('Search URL:', searchUrl);
+   try {
+      // Browser-like headers to bypass bot detection
+      const headers = {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Referer': 'https://ghostarchive.org/',
+        'DNT': '1',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1'
+      };
+      
+      const response = await requestUrl({
+        url: searchUrl,
+        headers: headers,
+        method: 'GET',
+        throw: false // Don't throw on non-200 status
+      });
+      console.log(`Response status: ${response.status}`);
+      console.log(`Response headers: ${JSON.stringify(response.headers)}`);
+      
+      // Log response body for debugging if not 200
+      if (response.status !== 200) {
+        console.log(`Response body (first 500 chars): ${response.text.substring(0, 500)}...`);
+      }
+      
+      const $ = cheerio.load(response.text);
+      const snapshots: { url: string, timestamp: string }[] = [];
+      let rowCount = 0;
+      let validSnapshotCount = 0;
+      
+      console.log(`Found ${$('.result-row').length} result rows`);
+      
+     $('.result-row').each((_, row) => {
+       rowCount++;
+       const urlElem = $(row).find('td:first-child a');
+       const timestampElem = $(row).find('td:nth-child(2)');
+       console.log(`Processing row ${rowCount} - URL elements: ${urlElem.length}, Timestamp elements: ${timestampElem.length}`);
+	      
+	      if (urlElem.length && timestampElem.length) {
+	        let href = urlElem.attr('href') || '';
+	        // Remove trailing slash if present
+	        href = href.replace(/\/$/, '');
+	        
+	        let url = '';
+	        if (href.startsWith('/')) {
+	          // Prepend domain for relative paths
+	          url = `https://ghostarchive.org${href}`;
+	        } else if (href.startsWith('http')) {
+	          // Use absolute URLs as-is
+	          url = href;
+	        } else {
+	          // Skip invalid hrefs
+	          return;
+	        }
+	        
+	        // Skip non-archive URLs
+	        if (!url.includes('ghostarchive.org/archive/')) {
+	          return;
+	        }
+	        
+	        const timestamp = timestampElem.text().trim();
+	        
+	        if (this.isValidTimestamp(timestamp)) {
+	          snapshots.push({ url, timestamp });
+	          validSnapshotCount++;
+	          console.log(`Added snapshot: ${url} with timestamp ${timestamp}`);
+	        } else {
+	          console.log(`Invalid timestamp: ${timestamp}`);
+	        }
+	      }
+	    });
+	    
+	    if (this.settings.debugMode) {
+	  console.log(`Processed ${rowCount} rows, found ${validSnapshotCount} valid snapshots`);
+	 }
+	    return snapshots;
+	  } catch (error) {
+	    console.error("Error fetching Ghost Archive snapshots:", error);
+	    console.error(error.stack);
+	    return [];
+	  }
+	}
+
+// Add this method to score the relevance of a snapshot
+	scoreSnapshotRelevance(snapshot: { url: string, timestamp: string }, originalUrl: string): number {
+  let score = 0;
+  
+  // Valid timestamp gets points
+  if (this.isValidTimestamp(snapshot.timestamp)) {
+    score += 30;
+    
+    // Recent timestamps (within last 2 years) get bonus points
+    try {
+      const snapshotDate = new Date(snapshot.timestamp);
+      const twoYearsAgo = new Date();
+      twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
+      
+      if (snapshotDate > twoYearsAgo) {
+        score += 20;
+      }
+    } catch {}
+  }
+  
+  // URL format scoring
+  try {
+    const urlObj = new URL(snapshot.url);
+    const pathParts = urlObj.pathname.split('/').filter(p => p);
+    
+    // Preferred format: archive.ph/abcd1234
+    if (pathParts.length === 1 && /^[a-zA-Z0-9]{3,10}$/.test(pathParts[0])) {
+      score += 25;
+    }
+    
+    // Also good: archive.ph/20220101/example.com
+    if (pathParts.length >= 2 && /^\d{8,14}$/.test(pathParts[0])) {
+      score += 20;
+      
+      // Extra points if the path contains the original domain
+      try {
+        const originalDomain = new URL(originalUrl).hostname.replace('www.', '');
+        if (pathParts[1].includes(originalDomain)) {
+          score += 15;
+        }
+      } catch {}
+    }
+  } catch {}
+  
+  return score;
+}
+
+// Add this helper method if it's not already defined
+	extractArchivedUrl(href: string, linkText: string, contextText: string): string {
+  // For archive.today snapshots, the URL is often in the link text or nearby
+  
+  // Method 1: Check if the link text is a URL
+  if (linkText && linkText.match(/^https?:\/\//)) {
+    return linkText;
+  }
+  
+  // Method 2: Look for URL patterns in the context text
+  const urlMatch = contextText.match(/https?:\/\/[^\s"'<>()[\]{}]+/);
+  if (urlMatch) {
+    return urlMatch[0];
+  }
+  
+  // Method 3: For archive.today format, extract from the snapshot ID
+  // Example: /abc123 might be a snapshot of http://example.com
+  if (href && href.startsWith('/')) {
+    // This is more of a guess, but we can check if the snapshot page loads
+    // and extract the URL from there in a real implementation
+    return ""; // Placeholder
+  }
+  
+  return "";
+}
+
+	// Fixed snapshot modal to properly resolve the promise
+	async showSnapshotModal(snapshots: { url: string, timestamp?: string, title?: string, service?: string }[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    new ArchivePickerModal(this.app, this, snapshots, "", resolve).open();
+  });
+  }
+
+  // True when any link on the line already has an archive link, after it, in a footnote or in the frontmatter
+ lineContainsArchiveLink(line: string, frontmatterArchives?: Map<string, FrontmatterArchiveEntry>): boolean {
+    return this.pairArchiveLinks(line, frontmatterArchives).some(hasArchiveLink);
+  }
+
+  // Add this helper method to check if a URL is an archive URL
+  isArchiveUrl(url: string): boolean {
+    if (this.isLocalCopyPath(url)) {
+      return true;
+    }
+    const archiveDomains = this.getArchiveDomains();
+    
+    try {
+      const urlObj = new URL(url);
+      return archiveDomains.some(domain => urlObj.hostname.includes(domain));
+    } catch {
+      return false;
+    }
+  }
+  
+  // Helper method to check if a file should be excluded from batch processing
+  shouldExcludeFile(file: any): { excluded: boolean; reason: string } {
+    // The link index note lists every link in the vault; archiving it would only clutter it
+    if (this.settings.maintainLinkIndex && file.path === normalizePath(this.settings.linkIndexPath)) {
+      return { excluded: true, reason: "Link index" };
+    }
+    // Readable local copies and clips are snapshots, not notes to archive
+    if (this.isLocalCopyPath(file.path)) {
+      return { excluded: true, reason: "Local copy" };
+    }
+    if (file.path.startsWith(`${normalizePath(this.settings.clipFolder)}/`)) {
+      return { excluded: true, reason: "Clip" };
+    }
+
+    // Check if the file is in an excluded folder
+    if (this.settings.excludeFolders.length > 0) {
+      for (const folder of this.settings.excludeFolders) {
+        if (file.path.startsWith(folder + '/') || file.path === folder) {
+          return { excluded: true, reason: `In excluded folder: ${folder}` };
+        }
+      }
+    }
+    
+    // Check if the file has excluded tags (both inline and in frontmatter)
+    if (this.settings.excludeFilesWithTags.length > 0) {
+      try {
+        const cache = this.app.metadataCache.getFileCache(file);
+        
+        // Check inline tags
+        if (cache && cache.tags) {
+          for (const tagObj of cache.tags) {
+            const tag = tagObj.tag;
+            if (this.settings.excludeFilesWithTags.includes(tag)) {
+              return { excluded: true, reason: `Has excluded tag: ${tag}` };
+            }
+          }
+        }
+        
+        // Check frontmatter tags
+        if (cache && cache.frontmatter) {
+          const frontmatterTags = cache.frontmatter.tags;
+          if (frontmatterTags) {
+            // Handle both array and string formats
+            const tagsArray = Array.isArray(frontmatterTags)
+              ? frontmatterTags
+              : frontmatterTags.split(',').map((t: string) => t.trim());
+            
+            for (const tag of tagsArray) {
+              const formattedTag = tag.startsWith('#') ? tag : `#${tag}`;
+              if (this.settings.excludeFilesWithTags.includes(formattedTag)) {
+                return { excluded: true, reason: `Has excluded frontmatter tag: ${formattedTag}` };
+              }
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`Error checking tags for ${file.path}:`, error);
+      }
+    }
+    
+    // Check if inverted exclusion is enabled and this file should be included
+    if (this.settings.useInvertedExclusion) {
+      let shouldInclude = false;
+      
+      // Check if file is in a targeted folder
+      if (this.settings.targetFolders.length > 0) {
+        for (const folder of this.settings.targetFolders) {
+          if (file.path.startsWith(folder + '/') || file.path === folder) {
+            shouldInclude = true;
+            break;
+          }
+        }
+      }
+      
+      // Check if file has a targeted tag
+      if (!shouldInclude && this.settings.targetFilesWithTags.length > 0) {
+        try {
+          const cache = this.app.metadataCache.getFileCache(file);
+          
+          // Check inline tags
+          if (cache && cache.tags) {
+            for (const tagObj of cache.tags) {
+              const tag = tagObj.tag;
+              if (this.settings.targetFilesWithTags.includes(tag)) {
+                shouldInclude = true;
+                break;
+              }
+            }
+          }
+          
+          // Check frontmatter tags
+          if (!shouldInclude && cache && cache.frontmatter) {
+            const frontmatterTags = cache.frontmatter.tags;
+            if (frontmatterTags) {
+              const tagsArray = Array.isArray(frontmatterTags)
+                ? frontmatterTags
+                : frontmatterTags.split(',').map((t: string) => t.trim());
+              
+              for (const tag of tagsArray) {
+                const formattedTag = tag.startsWith('#') ? tag : `#${tag}`;
+                if (this.settings.targetFilesWithTags.includes(formattedTag)) {
+                  shouldInclude = true;
+                  break;
+                }
+              }
+            }
+          }
+        } catch (error) {
+          console.error(`Error checking tags for ${file.path}:`, error);
+        }
+      }
+      
+      // If targeting is enabled but this file doesn't match any targets, exclude it
+      if (this.settings.targetFolders.length > 0 || this.settings.targetFilesWithTags.length > 0) {
+        if (!shouldInclude) {
+          return { excluded: true, reason: 'Not in targeted folders or tags' };
+        }
+      }
+    }
+    
+    return { excluded: false, reason: '' };
+  }
+  
+ showRemoveArchiveLinksDialog() {
+  new RemoveArchiveLinksModal(this.app, this).open();
+}
+
+// Method to archive links in targeted files only
+async archiveTargetedFiles() {
+  // Temporarily enable inverted exclusion
+  const previousSetting = this.settings.useInvertedExclusion;
+  this.settings.useInvertedExclusion = true;
+  
+  // Show confirmation dialog with target information
+  let targetInfo = "";
+  if (this.settings.targetFolders.length > 0) {
+    targetInfo += `Folders: ${this.settings.targetFolders.join(", ")}\n`;
+  }
+  if (this.settings.targetFilesWithTags.length > 0) {
+    targetInfo += `Tags: ${this.settings.targetFilesWithTags.join(", ")}`;
+  }
+  
+  if (!targetInfo) {
+    new Notice("No targets configured. Please set target folders or tags in settings.");
+    this.settings.useInvertedExclusion = previousSetting;
+    return;
+  }
+  
+  new TargetedArchiveModal(this.app, targetInfo, async () => {
+    // Targets only matter while the job's file list is built
+    let job: ArchiveJob | null;
+    try {
+      job = await this.prepareVaultArchiveJob();
+    } finally {
+      // Restore previous setting
+      this.settings.useInvertedExclusion = previousSetting;
+    }
+    if (job) {
+      await this.runArchiveJob(job);
+    }
+  }, () => {
+    // Restore previous setting on cancel
+    this.settings.useInvertedExclusion = previousSetting;
+  }).open();
+}
+
+	async removeArchiveLinksFromCurrentNote() {
+  const activeLeaf = this.app.workspace.getActiveViewOfType(MarkdownView);
+  if (!activeLeaf || !activeLeaf.file) {
+    new Notice("No active markdown editor found.");
+    return;
+  }
+  
+  const changes = this.collectArchiveLinkRemovals(activeLeaf.file.path, activeLeaf.editor.getValue());
+  
+  if (changes.length === 0) {
+    new Notice("No archive links found in the current note.");
+    return;
+  }
+  await this.commitLineChanges("Remove archive links", changes, "archive link removal");
+}
+
+	async removeArchiveLinksFromVault() {
+  const files = this.app.vault.getMarkdownFiles();
+  const changes: ProposedLineChange[] = [];
+  
+  new Notice("Starting to remove archive links from vault...");
+  
+  for (const file of files) {
+    try {
+      changes.push(...this.collectArchiveLinkRemovals(file.path, await this.app.vault.read(file)));
+    } catch (error) {
+      console.error(`Error processing file ${file.path}:`, error);
+    }
+  }
+  
+  await this.commitLineChanges("Remove archive links", changes, "archive link removal");
+}
+
+	// Remove the archive link of the link at line:ch, or every archive link on the line if there's none there
+	async removeArchiveLinkAt(file: TFile, line: number, ch: number): Promise<number> {
+  const content = await this.readNoteForQueue(file);
+  let changes = this.collectArchiveLinkRemovals(file.path, content, (i, pair) => i === line && ch >= pair.link.start && ch <= pair.companionEnd);
+  if (changes.length === 0) {
+    changes = this.collectArchiveLinkRemovals(file.path, content, (i) => i === line);
+  }
+  return this.applyLineChangesToFile(file, changes);
+}
+
+	// Let the user pick any snapshot of url and write it for the link on that line, in place of its current archive link
+	async chooseSnapshotForLink(file: TFile, line: number, url: string) {
+  new Notice("Checking for existing archives...", 3000);
+  const result = await this.getExistingArchive(url);
+  if (!result.snapshots || result.snapshots.length === 0) {
+    new Notice(result.rateLimited ? "Rate limited by archive service. Try again later." : "No snapshots found for this link.");
+    return;
+  }
+
+  const selectedUrl = await this.showSnapshotModal(result.snapshots);
+  if (selectedUrl === null) {
+    return;
+  }
+
+  // Take the current archive link out first, wherever it's placed
+  let lines = (await this.readNoteForQueue(file)).split('\n');
+  const pair = this.pairArchiveLinks(lines[line] || "", this.getFrontmatterArchives(lines)).find(candidate =>
+    candidate.swapped ? candidate.companion!.originalUrl === url : candidate.link.originalUrl === url
+  );
+  if (pair && hasArchiveLink(pair)) {
+    await this.removeArchiveLinkAt(file, line, pair.link.start);
+    lines = (await this.readNoteForQueue(file)).split('\n');
+  }
+
+  const frontmatterArchives = this.getFrontmatterArchives(lines);
+  const lineIndex = this.findJobItemLine({ line, url }, lines, frontmatterArchives);
+  if (lineIndex === -1) {
+    new Notice("Could not find link in the note.");
+    return;
+  }
+
+  try {
+    const linkInfo = this.findUnarchivedLink(lines[lineIndex], url, frontmatterArchives)!;
+    const changes = await this.buildArchiveChanges(file.path, lines, lineIndex, linkInfo, selectedUrl,
+      result.snapshots.find(snapshot => snapshot.url === selectedUrl));
+    if (changes !== null && await this.applyLineChangesToFile(file, changes) === changes.length) {
+      new Notice("Link archived with selected snapshot.");
+    }
+  } catch (error) {
+    new Notice(`Could not write archive link: ${error.message}`);
+  }
+}
+
+	// Status shown for a link in the link views
+	getNoteLinkStatus(noteLink: NoteLink): LinkArchiveStatus {
+  if (noteLink.context !== "text") {
+    return "code";
+  }
+  if (noteLink.placement) {
+    return "archived";
+  }
+  return this.isArchiveUrl(noteLink.link.originalUrl) ? "archiveOnly" : "unarchived";
+}
+
+	async openLinkArchiveView() {
+  let leaf = this.app.workspace.getLeavesOfType(LINK_ARCHIVE_VIEW_TYPE)[0];
+  if (!leaf) {
+    const rightLeaf = this.app.workspace.getRightLeaf(false);
+    if (!rightLeaf) {
+      return;
+    }
+    leaf = rightLeaf;
+    await leaf.setViewState({ type: LINK_ARCHIVE_VIEW_TYPE, active: true });
+  }
+  this.app.workspace.revealLeaf(leaf);
+}
+
+	async openLinkDashboard() {
+  const leaf = this.app.workspace.getLeavesOfType(LINK_DASHBOARD_VIEW_TYPE)[0] || this.app.workspace.getLeaf("tab");
+  await leaf.setViewState({ type: LINK_DASHBOARD_VIEW_TYPE, active: true });
+  this.app.workspace.revealLeaf(leaf);
+}
+
+	// Queue links picked in the dashboard, leaving out notes the exclusion rules skip. Returns how many were queued.
+	queueLinksForArchiving(links: Array<{ file: TFile, line: number, url: string }>): number {
+  const items: ArchiveJobItem[] = [];
+  let excluded = 0;
+  for (const { file, line, url } of links) {
+    if (this.shouldExcludeFile(file).excluded) {
+      excluded++;
+      continue;
+    }
+    const item: ArchiveJobItem = { file: file.path, line, url, status: "pending" };
+    if (this.settings.previewBatchChanges) {
+      item.dryRun = true;
+    }
+    items.push(item);
+  }
+
+  const queued = items.length > 0 ? this.enqueueArchiveJobItems(items, "vault") : 0;
+  new Notice(`Queued ${queued} link${queued !== 1 ? 's' : ''} for archiving.` +
+    (excluded > 0 ? ` ${excluded} in excluded notes skipped.` : ""));
+  return queued;
+}
+
+	// Look links up again, bypassing the lookup cache. Stops early when rate limited.
+	async recheckLinks(urls: string[]): Promise<Map<string, ArchiveLookupResult>> {
+  const results = new Map<string, ArchiveLookupResult>();
+  const uniqueUrls = Array.from(new Set(urls));
+  new Notice(`Checking ${uniqueUrls.length} link${uniqueUrls.length !== 1 ? 's' : ''}...`);
+
+  for (const url of uniqueUrls) {
+    this.archiveCache.delete(url);
+    try {
+      const result = await this.getExistingArchive(url);
+      if (result.rateLimited) {
+        new Notice(`Rate limited by archive service after ${results.size} checks. Try the rest later.`);
+        break;
+      }
+      results.set(url, result);
+    } catch (error) {
+      if (this.settings.debugMode) {
+        console.error(`Error checking ${url}:`, error);
+      }
+    }
+  }
+
+  const found = Array.from(results.values()).filter(result => result.foundArchive).length;
+  new Notice(`Checked ${results.size} link${results.size !== 1 ? 's' : ''}: ${found} with snapshots, ${results.size - found} without.`);
+  return results;
+}
+
+	// Remove the archive links of the given links, through the preview when it's on
+	async removeArchiveLinksFor(links: Array<{ file: TFile, line: number, start: number }>) {
+  const byFile = new Map<TFile, Array<{ line: number, start: number }>>();
+  for (const { file, line, start } of links) {
+    byFile.set(file, [...(byFile.get(file) || []), { line, start }]);
+  }
+
+  const changes: ProposedLineChange[] = [];
+  for (const [file, targets] of byFile) {
+    try {
+      const content = await this.readNoteForQueue(file);
+      // A swapped dead link is listed at its original, which comes after the archive link
+      const isTarget = (line: number, pair: ArchivedLinkPair) => targets.some(target =>
+        target.line === line && target.start >= pair.link.start && target.start <= pair.companionEnd
+      );
+      changes.push(...this.collectArchiveLinkRemovals(file.path, content, isTarget));
+    } catch (error) {
+      console.error(`Error processing file ${file.path}:`, error);
+    }
+  }
+  await this.commitLineChanges("Remove archive links", changes, "archive link removal");
+}
+
+	// Changes that take the archive links out of a note: lines rewritten without the archive link or footnote
+	// reference after each original link, the archive footnotes dropped and the frontmatter archives: entries
+	// removed. With isTarget, only the archive links of the links it picks are removed.
+	// Changes are listed bottom to top so line numbers stay valid while they're applied.
+	collectArchiveLinkRemovals(path: string, content: string, isTarget?: (line: number, pair: ArchivedLinkPair) => boolean): ProposedLineChange[] {
+  const lines = content.split('\n');
+  const contexts = this.classifyMarkdownLines(lines);
+  const frontmatterArchives = this.getFrontmatterArchives(lines);
+  const lineChanges: ProposedLineChange[] = [];
+  const footnotes = new Set<string>();
+  const frontmatterUrls = new Set<string>();
+  
+  for (let i = 0; i < lines.length; i++) {
+    // Code and math are left as written; the frontmatter's archives: entries are handled below
+    if (contexts[i] !== "text") {
+      continue;
+    }
+    const line = lines[i];
+    const isTargetOnLine = (pair: ArchivedLinkPair) => !isTarget || isTarget(i, pair);
+    for (const pair of this.pairArchiveLinks(line, frontmatterArchives).filter(isTargetOnLine)) {
+      if (pair.footnote) {
+        footnotes.add(pair.footnote);
+      }
+      if (pair.inFrontmatter) {
+        frontmatterUrls.add(pair.link.originalUrl);
+      }
+    }
+
+    const newLine = this.removeArchiveCompanions(line, isTargetOnLine);
+    if (newLine !== line) {
+      lineChanges.push({ file: path, line: i, oldLine: line, newLine });
+    }
+  }
+
+  // Each run of archive footnote definitions goes as one change, together with the blank lines before it
+  const footnoteChanges: ProposedLineChange[] = [];
+  const isRemovedDefinition = (i: number) => {
+    const label = contexts[i] === "text" ? lines[i].match(ARCHIVE_FOOTNOTE_DEFINITION)?.[1] : undefined;
+    return !!label && (!isTarget || footnotes.has(label));
+  };
+  for (let i = 0; i < lines.length; i++) {
+    if (!isRemovedDefinition(i)) {
+      continue;
+    }
+    let end = i;
+    while (isRemovedDefinition(end + 1)) {
+      end++;
+    }
+    let start = i - 1;
+    while (start > 0 && lines[start].trim() === "") {
+      start--;
+    }
+    if (start < 0) {
+      // The note holds nothing but archive footnotes
+      footnoteChanges.push({ file: path, line: 0, oldLine: lines.slice(0, end + 1).join('\n'), newLine: "" });
+    } else {
+      footnoteChanges.push({ file: path, line: start, oldLine: lines.slice(start, end + 1).join('\n'), newLine: lines[start] });
+    }
+    i = end;
+  }
+
+  const changes = [...footnoteChanges.reverse(), ...lineChanges.reverse()];
+  const removedUrls = isTarget ? [...frontmatterUrls] : [...frontmatterArchives.keys()];
+  if (removedUrls.length > 0) {
+    changes.push(this.buildFrontmatterArchiveChange(path, lines, (archives) => {
+      removedUrls.forEach(url => delete archives[url]);
+    }));
+  }
+  return changes;
+}
+
+  // Take out the divider and archive link (or archive footnote reference) after each original link, and the clip
+  // link after it, leaving the rest of the line as it was. With isTarget, only the archive links of the links it
+  // picks are removed.
+  removeArchiveCompanions(line: string, isTarget: (pair: ArchivedLinkPair) => boolean = () => true): string {
+    const pairs = this.pairArchiveLinks(line)
+      .filter(pair => (pair.companion || pair.footnote || getClipLinkLength(line, pair.companionEnd)) && isTarget(pair));
+    
+    // Last pair first so earlier offsets stay valid
+    let newLine = line;
+    for (const pair of pairs.reverse()) {
+      // A dead link swap goes back to the original link
+      const restored = pair.swapped ? this.restoreSwappedLink(pair) : pair.link.fullMatch;
+      newLine = newLine.slice(0, pair.link.start) + restored + newLine.slice(pair.companionEnd + getClipLinkLength(line, pair.companionEnd));
+    }
+    return newLine;
+  }
+}
+
+class ArchiveNoteModal extends Modal {
+  onConfirm: () => void;
+  
+  constructor(app: App, onConfirm: () => void) {
+    super(app);
+    this.onConfirm = onConfirm;
+  }
+  
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Archive all links in note" });
+    contentEl.createEl("p", { text: "This will add archive links to all URLs in the current note." });
+    
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Continue")
+      .setCta()
+      .onClick(() => {
+        this.onConfirm();
+        this.close();
+      });
+    
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Cancel")
+      .onClick(() => {
+        this.close();
+      });
+  }
+  
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+class ArchivePromptModal extends Modal {
+	originalUrl: string;
+	onSubmit: (archivedUrl: string | null) => void;
+	plugin: LinkArchiverPlugin;
+
+	constructor(app: App, originalUrl: string, onSubmit: (archivedUrl: string | null) => void, plugin: LinkArchiverPlugin) {
+		super(app);
+		this.originalUrl = originalUrl;
+		this.onSubmit = onSubmit;
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "No existing archive snapshot found" });
+		contentEl.createEl("p", { text: `No archived version was found for: ${this.originalUrl}` });
+		contentEl.createEl("p", { text: "Would you like to create a new snapshot?" });
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+		
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Create Snapshot")
+			.setCta()
+			.onClick(() => {
+				// Get the archive creation URL from the selected provider
+				const archiveCreateUrl = this.plugin.getActiveProvider().getSaveUrl(this.originalUrl);
+
+				// Open the archive creation URL in browser
+				window.open(archiveCreateUrl, '_blank');
+
+				// Show input for the user to paste the archived URL
+				this.showArchiveInputStep();
+			});
+
+		// For when no archive has the page or the services are down
+		const localCopyButton = new ButtonComponent(buttonContainer)
+			.setButtonText("Save Local Copy")
+			.onClick(async () => {
+				localCopyButton.setDisabled(true);
+				try {
+					const path = await this.plugin.saveLocalCopy(this.originalUrl);
+					this.onSubmit(path);
+					this.close();
+				} catch (error) {
+					console.error("Error saving local copy:", error);
+					new Notice(`Could not save a local copy: ${error.message || "Unknown error"}`);
+					localCopyButton.setDisabled(false);
+				}
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.onSubmit(null);
+				this.close();
+			});
+	}
+
+	showArchiveInputStep() {
+		const { contentEl } = this;
+		contentEl.empty();
+		
+		contentEl.createEl("h2", { text: "Enter archived URL" });
+		contentEl.createEl("p", { text: "After the snapshot is created, paste the archived URL here:" });
+
+		const inputEl = contentEl.createEl("input", { type: "text", placeholder: "https://web.archive.org/web/... or https://ghostarchive.org/..." });
+		inputEl.style.width = "100%";
+		inputEl.style.marginBottom = "1rem";
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+		
+		const saveButton = new ButtonComponent(buttonContainer)
+			.setButtonText("Save")
+			.setCta()
+			.onClick(() => {
+				const archivedUrl = inputEl.value.trim();
+				if (archivedUrl && archivedUrl.startsWith('http')) {
+					this.onSubmit(archivedUrl);
+					this.close();
+				} else {
+					new Notice("Please enter a valid URL");
+				}
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.onSubmit(null);
+				this.close();
+			});
+
+		inputEl.focus();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+// Lookup handed to the browser when a service asks for a CAPTCHA. The user solves it there and brings the
+// snapshot URL back; a copied snapshot URL is picked up from the clipboard on returning to Obsidian.
+class CaptchaHandoffModal extends Modal {
+	provider: ArchiveProvider;
+	originalUrl: string;
+	onSubmit: (archivedUrl: string | null) => void;
+	private submitted = false;
+	private input: TextComponent | null = null;
+	private readonly onWindowFocus = () => this.pasteFromClipboard(false);
+
+	constructor(app: App, provider: ArchiveProvider, originalUrl: string, onSubmit: (archivedUrl: string | null) => void) {
+		super(app);
+		this.provider = provider;
+		this.originalUrl = originalUrl;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: `${this.provider.name} needs a CAPTCHA` });
+		contentEl.createEl("p", { text: `${this.provider.name} asked for a CAPTCHA while looking up: ${this.originalUrl}` });
+		contentEl.createEl("p", { text: "Open the page, solve the CAPTCHA and copy the address of the snapshot. It's filled in when you come back, or paste it below." });
+
+		this.input = new TextComponent(contentEl).setPlaceholder(`${this.provider.baseUrl}/...`);
+		this.input.inputEl.style.width = "100%";
+		this.input.inputEl.style.marginBottom = "1rem";
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText(`Open ${this.provider.name}`)
+			.setCta()
+			.onClick(() => {
+				const lookupUrl = this.provider.getLookupUrl ? this.provider.getLookupUrl(this.originalUrl) : this.provider.getSaveUrl(this.originalUrl);
+				window.open(lookupUrl, '_blank');
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Paste from Clipboard")
+			.onClick(() => this.pasteFromClipboard(true));
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Use Snapshot")
+			.onClick(() => {
+				const archivedUrl = this.input!.getValue().trim();
+				if (!this.provider.isSnapshotUrl(archivedUrl)) {
+					new Notice(`Please enter a ${this.provider.name} snapshot URL`);
+					return;
+				}
+				this.submitted = true;
+				this.onSubmit(archivedUrl);
+				this.close();
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.close();
+			});
+
+		window.addEventListener("focus", this.onWindowFocus);
+	}
+
+	// Fill in a snapshot URL from the clipboard. Only the button complains when there isn't one.
+	private async pasteFromClipboard(explicit: boolean) {
+		try {
+			const text = (await navigator.clipboard.readText()).trim();
+			if (this.provider.isSnapshotUrl(text)) {
+				this.input?.setValue(text);
+				return;
+			}
+		} catch (error) {
+			console.error("Could not read the clipboard:", error);
+		}
+		if (explicit) {
+			new Notice(`The clipboard doesn't hold a ${this.provider.name} snapshot URL.`);
+		}
+	}
+
+	onClose() {
+		window.removeEventListener("focus", this.onWindowFocus);
+		if (!this.submitted) {
+			this.onSubmit(null);
+		}
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class ArchivePickerModal extends Modal {
+	plugin: LinkArchiverPlugin;
+	snapshots: { url: string; timestamp?: string; title?: string; service?: string }[];
+	originalUrl: string;
+	onSubmit: (chosenUrl: string | null) => void;
+	selectedUrl: string | null = null;
+
+	constructor(app: App, plugin: LinkArchiverPlugin, snapshots: { url: string; timestamp?: string; title?: string; service?: string }[], originalUrl: string, onSubmit: (chosenUrl: string | null) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.snapshots = snapshots;
+		this.originalUrl = originalUrl;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Choose an archive snapshot" });
+
+		const listContainer = contentEl.createDiv({ cls: "archive-picker-list" });
+
+		this.snapshots.forEach((snapshot) => {
+			const linkEl = listContainer.createEl("div", { cls: "archive-picker-item" });
+			
+			// Display title if available, otherwise fallback to URL
+			let displayText = snapshot.title || (snapshot.timestamp ? `${snapshot.timestamp} — ${snapshot.url}` : snapshot.url);
+			if (snapshot.service) {
+				displayText = `[${snapshot.service}] ${displayText}`;
+			}
+			linkEl.textContent = displayText;
+
+			linkEl.style.cursor = "pointer";
+			linkEl.style.padding = "0.5em";
+			linkEl.style.border = "1px solid #ccc";
+			linkEl.style.marginBottom = "0.5em";
+			linkEl.style.borderRadius = "5px";
+
+			linkEl.onClickEvent(() => {
+				this.selectedUrl = snapshot.url;
+
+				// Highlight selection visually
+				listContainer.querySelectorAll('.archive-picker-item').forEach(el => {
+					(el as HTMLElement).style.backgroundColor = "";
+				});
+				linkEl.style.backgroundColor = "#d0ebff"; // highlight color
+			});
+		});
+
+		// Confirm and cancel buttons
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Insert Snapshot")
+			.setCta()
+			.onClick(() => {
+				if (this.selectedUrl) {
+					this.onSubmit(this.selectedUrl);
+					this.close();
+				} else {
+					new Notice("Please select a snapshot.");
+				}
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.onSubmit(null);
+				this.close();
+			});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class ArchiveVaultModal extends Modal {
+	onConfirm: () => void;
+
+	constructor(app: App, onConfirm: () => void) {
+		super(app);
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Archive all links in vault" });
+		contentEl.createEl("p", { text: "This will process every markdown file in your vault and add links of the latest snapshot where existing snapshots are found." });
+		contentEl.createEl("p", { text: "This action will modify your files! Make sure you have a backup!" });
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+		
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Continue")
+			.setWarning()
+			.onClick(() => {
+				this.onConfirm();
+				this.close();
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.close();
+			});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class TargetedArchiveModal extends Modal {
+	onConfirm: () => void;
+	onCancel: () => void;
+	targetInfo: string;
+
+	constructor(app: App, targetInfo: string, onConfirm: () => void, onCancel: () => void) {
+		super(app);
+		this.targetInfo = targetInfo;
+		this.onConfirm = onConfirm;
+		this.onCancel = onCancel;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Archive links in targeted files only" });
+		contentEl.createEl("p", { text: "This will process only files matching the following criteria:" });
+		
+		const infoEl = contentEl.createEl("div", { cls: "targeted-info" });
+		infoEl.innerHTML = this.targetInfo.replace(/\n/g, "<br>");
+		
+		contentEl.createEl("p", { text: "This action will modify your files! Make sure you have a backup!" });
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+		
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Continue")
+			.setWarning()
+			.onClick(() => {
+				this.onConfirm();
+				this.close();
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.onCancel();
+				this.close();
+			});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class RemoveArchiveLinksModal extends Modal {
+  plugin: LinkArchiverPlugin;
+  
+  constructor(app: App, plugin: LinkArchiverPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+  
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Remove Archive Links" });
+    contentEl.createEl("p", { text: "This will remove all archive links added by the plugin." });
+    contentEl.createEl("p", { text: "Choose where to remove archive links from:", cls: "warning" });
+    
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+    
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Current Note")
+      .setCta()
+      .onClick(() => {
+        this.close();
+        this.plugin.removeArchiveLinksFromCurrentNote();
+      });
+    
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Entire Vault")
+      .setWarning()
+      .onClick(() => {
+        this.close();
+        this.plugin.removeArchiveLinksFromVault();
+      });
+    
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Cancel")
+      .onClick(() => {
+        this.close();
+      });
+  }
+  
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// Reviewable diff of batch line changes; only the accepted ones are written
+class BatchPreviewModal extends Modal {
+  title: string;
+  changes: ProposedLineChange[];
+  onApply: (selected: ProposedLineChange[]) => void;
+  private accepted: Set<ProposedLineChange>;
+
+  constructor(app: App, title: string, changes: ProposedLineChange[], onApply: (selected: ProposedLineChange[]) => void) {
+    super(app);
+    this.title = title;
+    this.changes = changes;
+    this.onApply = onApply;
+    this.accepted = new Set(changes);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: `Preview: ${this.title}` });
+
+    const byFile = new Map<string, ProposedLineChange[]>();
+    for (const change of this.changes) {
+      byFile.set(change.file, [...(byFile.get(change.file) || []), change]);
+    }
+
+    contentEl.createEl("p", {
+      text: `${this.accepted.size} of ${this.changes.length} changes in ${byFile.size} file${byFile.size !== 1 ? 's' : ''} selected. Nothing is written until you apply.`
+    });
+
+    const listContainer = contentEl.createDiv({ cls: "batch-preview-list" });
+
+    byFile.forEach((fileChanges, path) => {
+      const fileEl = listContainer.createDiv({ cls: "batch-preview-file" });
+      const acceptedInFile = fileChanges.filter(change => this.accepted.has(change)).length;
+
+      new Setting(fileEl)
+        .setName(path)
+        .setDesc(`${acceptedInFile} of ${fileChanges.length} changes selected`)
+        .addToggle((toggle) =>
+          toggle.setValue(acceptedInFile === fileChanges.length).onChange((value) => {
+            fileChanges.forEach(change => value ? this.accepted.add(change) : this.accepted.delete(change));
+            this.onOpen();
+          })
+        );
+
+      for (const change of fileChanges) {
+        const changeEl = fileEl.createDiv({ cls: "batch-preview-change" });
+        const checkbox = changeEl.createEl("input", { type: "checkbox" });
+        checkbox.checked = this.accepted.has(change);
+        checkbox.addEventListener("change", () => {
+          checkbox.checked ? this.accepted.add(change) : this.accepted.delete(change);
+          this.onOpen();
+        });
+
+        const diffEl = changeEl.createDiv({ cls: "batch-preview-diff" });
+        diffEl.createEl("div", { text: `Line ${change.line + 1}`, cls: "batch-preview-line-number" });
+        diffEl.createEl("div", { text: `- ${change.oldLine}`, cls: "batch-preview-removed" });
+        diffEl.createEl("div", { text: `+ ${change.newLine}`, cls: "batch-preview-added" });
+      }
+    });
+
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Apply Selected")
+      .setCta()
+      .setDisabled(this.accepted.size === 0)
+      .onClick(() => {
+        // Keep the original order so line numbers are applied top to bottom
+        this.onApply(this.changes.filter(change => this.accepted.has(change)));
+        this.close();
+      });
+
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Cancel")
+      .onClick(() => {
+        this.close();
+      });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// Stale archive links that have no newer snapshot, each with a button to capture one
+class RecaptureModal extends Modal {
+  plugin: LinkArchiverPlugin;
+  links: StaleArchiveLink[];
+
+  constructor(app: App, plugin: LinkArchiverPlugin, links: StaleArchiveLink[]) {
+    super(app);
+    this.plugin = plugin;
+    this.links = links;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "Capture new snapshots" });
+    contentEl.createEl("p", {
+      text: `${this.links.length} archive link${this.links.length !== 1 ? 's have' : ' has'} no snapshot newer than ${this.plugin.settings.staleSnapshotDays} days.`
+    });
+
+    const listContainer = contentEl.createDiv({ cls: "recapture-list" });
+    for (const link of this.links) {
+      new Setting(listContainer)
+        .setName(link.url)
+        .setDesc(`${link.file}, line ${link.line + 1} · captured ${moment(link.captured).format(DEFAULT_TIMESTAMP_FORMAT)}`)
+        .addButton((button) =>
+          button.setButtonText("Capture").onClick(async () => {
+            button.setDisabled(true);
+            if (await this.plugin.recaptureStaleLink(link)) {
+              this.links = this.links.filter(other => other !== link);
+              this.links.length > 0 ? this.onOpen() : this.close();
+            } else {
+              button.setDisabled(false);
+            }
+          })
+        );
     }
+
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Close")
+      .onClick(() => {
+        this.close();
+      });
   }
-  
-  new Notice(`Removed ${totalModified} archive links from ${filesModified} files.`);
-}
-
-  // Helper method to extract the original link from a line with an archive link
- extractOriginalLinkFromArchiveLine(line: string): string | null {
-    // Match patterns like:
-    // 1. [Title](url) | [archive](archive-url)
-    // 2. [Title](url) | archive-url
-    // 3. url | [archive](archive-url)
-    // 4. url | archive-url
-    
-    // Look for the divider text (or common alternatives if user has customized it)
-    const dividers = [
-      this.settings.dividerText,
-      " | archive: ",
-      " | ",
-      " 📚 ",
-      " (archived: "
-    ];
-    
-    for (const divider of dividers) {
-      const parts = line.split(divider);
-      if (parts.length >= 2) {
-        // Return just the first part (original link)
-        return parts[0].trim();
-      }
-      
-    }
-    
-    // If no standard divider found, try regex patterns
-    // Pattern for markdown link followed by archive
-    const markdownPattern = /(\[[^\]]+\]\([^)]+\))\s*(?:\||📚|→|—|->|=>)\s*(?:\[[^\]]+\]\([^)]+\)|https?:\/\/[^\s]+)/;
-    const markdownMatch = line.match(markdownPattern);
-    if (markdownMatch) {
-      return markdownMatch[1];
-    }
-    
-    // Pattern for naked URL followed by archive
-    const nakedPattern = /(https?:\/\/[^\s|]+)\s*(?:\||📚|→|—|->|=>)\s*(?:\[[^\]]+\]\([^)]+\)|https?:\/\/[^\s]+)/;
-    const nakedMatch = line.match(nakedPattern);
-    if (nakedMatch) {
-      return nakedMatch[1];
-    }
-    
-    return null;
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
   }
 }
 
-class ArchiveNoteModal extends Modal {
-  onConfirm: () => void;
-  
-  constructor(app: App, onConfirm: () => void) {
+// Modal showing what the persisted lookup cache holds, with prune/clear actions
+class CacheStatsModal extends Modal {
+  plugin: LinkArchiverPlugin;
+
+  constructor(app: App, plugin: LinkArchiverPlugin) {
     super(app);
-    this.onConfirm = onConfirm;
+    this.plugin = plugin;
   }
-  
+
   onOpen() {
     const { contentEl } = this;
-    contentEl.createEl("h2", { text: "Archive all links in note" });
-    contentEl.createEl("p", { text: "This will add archive links to all URLs in the current note." });
-    
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "Archive Cache" });
+
+    const archiveResults = this.plugin.archiveCache.values();
+    const positive = archiveResults.filter(result => result.foundArchive).length;
+    const oldest = [this.plugin.archiveCache.oldestTimestamp(), this.plugin.titleCache.oldestTimestamp()]
+      .filter((timestamp): timestamp is number => timestamp !== null);
+
+    const statsList = contentEl.createEl("ul");
+    statsList.createEl("li", { text: `Archive lookups: ${archiveResults.length} / ${this.plugin.settings.archiveCacheMaxEntries}` });
+    statsList.createEl("li", { text: `With snapshots: ${positive} (kept ${this.plugin.settings.archiveCacheTtlHours} hours)` });
+    statsList.createEl("li", { text: `Without snapshots: ${archiveResults.length - positive} (kept ${this.plugin.settings.archiveCacheNegativeTtlHours} hours)` });
+    statsList.createEl("li", { text: `Page titles: ${this.plugin.titleCache.size} / ${this.plugin.settings.titleCacheMaxEntries} (kept ${this.plugin.settings.titleCacheTtlHours} hours)` });
+    if (oldest.length > 0) {
+      statsList.createEl("li", { text: `Oldest entry: ${new Date(Math.min(...oldest)).toLocaleString()}` });
+    }
+    statsList.createEl("li", {
+      text: this.plugin.settings.persistCache ? "Saved to the plugin folder between sessions" : "Kept in memory only"
+    });
+
     const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
     new ButtonComponent(buttonContainer)
-      .setButtonText("Continue")
-      .setCta()
+      .setButtonText("Prune Expired")
       .onClick(() => {
-        this.onConfirm();
-        this.close();
+        this.plugin.pruneCaches();
+        this.onOpen();
       });
-    
+
     new ButtonComponent(buttonContainer)
-      .setButtonText("Cancel")
+      .setButtonText("Clear All")
+      .setWarning()
+      .onClick(() => {
+        this.plugin.clearCaches();
+        this.onOpen();
+      });
+
+    new ButtonComponent(buttonContainer)
+      .setButtonText("Close")
       .onClick(() => {
         this.close();
       });
   }
-  
+
   onClose() {
     const { contentEl } = this;
     contentEl.empty();
   }
 }
 
-class ArchivePromptModal extends Modal {
-	originalUrl: string;
-	onSubmit: (archivedUrl: string | null) => void;
-	plugin: LinkArchiverPlugin;
+// Right sidebar view listing every link in the active note with its archive status and per-link actions
+class LinkArchiveView extends ItemView {
+  plugin: LinkArchiverPlugin;
+  // Note being shown; kept while the sidebar itself has focus
+  private file: TFile | null = null;
+  private requestRender: () => void;
 
-	constructor(app: App, originalUrl: string, onSubmit: (archivedUrl: string | null) => void, plugin: LinkArchiverPlugin) {
-		super(app);
-		this.originalUrl = originalUrl;
-		this.onSubmit = onSubmit;
-		this.plugin = plugin;
-	}
+  constructor(leaf: WorkspaceLeaf, plugin: LinkArchiverPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.requestRender = debounce(() => this.render(), 500, true);
+  }
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.createEl("h2", { text: "No existing archive snapshot found" });
-		contentEl.createEl("p", { text: `No archived version was found for: ${this.originalUrl}` });
-		contentEl.createEl("p", { text: "Would you like to create a new snapshot?" });
+  getViewType(): string {
+    return LINK_ARCHIVE_VIEW_TYPE;
+  }
 
-		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
-		
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Create Snapshot")
-			.setCta()
-			.onClick(() => {
-				// Get the correct archive creation URL based on selected site
-				let archiveCreateUrl: string;
+  getDisplayText(): string {
+    return "Link Archive";
+  }
 
-				if (this.plugin.settings.archiveSite === "web.archive.org") {
-					archiveCreateUrl = `https://web.archive.org/save/${this.originalUrl}`;
-				} else if (this.plugin.settings.archiveSite === "ghostarchive.org") {
-					archiveCreateUrl = `https://ghostarchive.org/archive/${encodeURIComponent(this.originalUrl)}`;
-				} else {
-					// Fallback to Wayback Machine
-					archiveCreateUrl = `https://web.archive.org/save/${this.originalUrl}`;
-				}
+  getIcon(): string {
+    return "archive";
+  }
 
-				// Open the archive creation URL in browser
-				window.open(archiveCreateUrl, '_blank');
+  async onOpen() {
+    this.registerEvent(this.app.workspace.on("file-open", () => this.render()));
+    this.registerEvent(this.app.workspace.on("editor-change", () => this.requestRender()));
+    // Background writes (queue, captures) go through the vault when the note isn't open
+    this.registerEvent(this.app.vault.on("modify", (file) => {
+      if (file.path === this.file?.path) {
+        this.requestRender();
+      }
+    }));
+    await this.render();
+  }
 
-				// Show input for the user to paste the archived URL
-				this.showArchiveInputStep();
-			});
+  async onClose() {
+    this.contentEl.empty();
+  }
 
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Cancel")
-			.onClick(() => {
-				this.onSubmit(null);
-				this.close();
-			});
-	}
+  private async render() {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (activeFile && activeFile.extension === "md") {
+      this.file = activeFile;
+    }
 
-	showArchiveInputStep() {
-		const { contentEl } = this;
-		contentEl.empty();
-		
-		contentEl.createEl("h2", { text: "Enter archived URL" });
-		contentEl.createEl("p", { text: "After the snapshot is created, paste the archived URL here:" });
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("link-archive-view");
 
-		const inputEl = contentEl.createEl("input", { type: "text", placeholder: "https://web.archive.org/web/... or https://ghostarchive.org/..." });
-		inputEl.style.width = "100%";
-		inputEl.style.marginBottom = "1rem";
+    const file = this.file;
+    if (!file) {
+      contentEl.createEl("p", { text: "Open a note to see its links.", cls: "link-archive-empty" });
+      return;
+    }
 
-		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
-		
-		const saveButton = new ButtonComponent(buttonContainer)
-			.setButtonText("Save")
-			.setCta()
-			.onClick(() => {
-				const archivedUrl = inputEl.value.trim();
-				if (archivedUrl && archivedUrl.startsWith('http')) {
-					this.onSubmit(archivedUrl);
-					this.close();
-				} else {
-					new Notice("Please enter a valid URL");
-				}
-			});
+    contentEl.createEl("h4", { text: file.basename });
 
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Cancel")
-			.onClick(() => {
-				this.onSubmit(null);
-				this.close();
-			});
+    // Reference definitions can't take an archive link, so they aren't listed
+    const lines = (await this.plugin.readNoteForQueue(file)).split('\n');
+    const noteLinks = this.plugin.collectNoteLinks(lines).filter(noteLink => !noteLink.link.isReference);
+    if (noteLinks.length === 0) {
+      contentEl.createEl("p", { text: "No external links in this note.", cls: "link-archive-empty" });
+      return;
+    }
 
-		inputEl.focus();
-	}
+    const archived = noteLinks.filter(noteLink => this.plugin.getNoteLinkStatus(noteLink) === "archived").length;
+    contentEl.createEl("p", { text: `${noteLinks.length} link${noteLinks.length !== 1 ? 's' : ''}, ${archived} archived`, cls: "link-archive-summary" });
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
-	}
+    const list = contentEl.createDiv({ cls: "link-archive-list" });
+    for (const noteLink of noteLinks) {
+      this.renderRow(list, file, noteLink);
+    }
+  }
+
+  private renderRow(list: HTMLElement, file: TFile, noteLink: NoteLink) {
+    const { link, line, archiveUrl } = noteLink;
+    const status = this.plugin.getNoteLinkStatus(noteLink);
+    const row = list.createDiv({ cls: `link-archive-row is-${status}` });
+
+    const linkEl = row.createDiv({ cls: "link-archive-link", text: link.isNaked ? link.originalUrl : link.displayText || link.originalUrl });
+    linkEl.setAttr("title", `${link.originalUrl}\nLine ${line + 1}`);
+    linkEl.addEventListener("click", () => this.revealLine(file, line));
+
+    row.createDiv({ cls: "link-archive-status", text: this.describeStatus(noteLink, status) });
+
+    const actions = row.createDiv({ cls: "link-archive-actions" });
+    if (status === "unarchived") {
+      new ExtraButtonComponent(actions)
+        .setIcon("archive")
+        .setTooltip("Archive")
+        .onClick(() => this.archive(file, noteLink));
+    }
+    if (status === "unarchived" || status === "archived") {
+      new ExtraButtonComponent(actions)
+        .setIcon("history")
+        .setTooltip("Pick another snapshot")
+        .onClick(() => this.plugin.chooseSnapshotForLink(file, line, link.originalUrl));
+    }
+    if (status === "archived" && archiveUrl) {
+      new ExtraButtonComponent(actions)
+        .setIcon("external-link")
+        .setTooltip("Open archive")
+        .onClick(() => this.plugin.openArchiveUrl(archiveUrl));
+    }
+    if (status === "archived") {
+      new ExtraButtonComponent(actions)
+        .setIcon("trash")
+        .setTooltip("Remove archive link")
+        .onClick(async () => {
+          if (await this.plugin.removeArchiveLinkAt(file, line, link.start) > 0) {
+            new Notice("Archive link removed.");
+          }
+        });
+    }
+  }
+
+  private describeStatus(noteLink: NoteLink, status: LinkArchiveStatus): string {
+    switch (status) {
+      case "archived": {
+        const details = ["Archived"];
+        if (noteLink.archiveUrl) {
+          const service = this.plugin.getProviderForUrl(noteLink.archiveUrl)?.name;
+          const timestamp = this.plugin.getSnapshotTimestamp(noteLink.archiveUrl) || noteLink.timestamp || "";
+          if (service) {
+            details.push(service);
+          }
+          if (timestamp) {
+            details.push(this.plugin.formatSnapshotTimestamp(timestamp, DEFAULT_TIMESTAMP_FORMAT));
+          }
+        }
+        if (noteLink.placement !== "inline") {
+          details.push(`in ${noteLink.placement}`);
+        }
+        return details.join(" · ");
+      }
+      case "unarchived":
+        return "Not archived";
+      case "archiveOnly":
+        return "Archive URL";
+      case "code":
+        return noteLink.context === "code" ? "In code block" : `In ${noteLink.context}, not archived`;
+    }
+  }
+
+  // Archive through the editor, reusing the cursor command and its snapshot picker
+  private async archive(file: TFile, noteLink: NoteLink) {
+    const editor = this.plugin.getOpenEditor(file);
+    if (!editor) {
+      new Notice("Open the note in an editor to archive its links.");
+      return;
+    }
+    editor.setCursor({ line: noteLink.line, ch: noteLink.link.start });
+    await this.plugin.archiveLinkAtCursor(editor);
+  }
+
+  private revealLine(file: TFile, line: number) {
+    const leaf = this.app.workspace.getLeavesOfType("markdown").find(candidate =>
+      candidate.view instanceof MarkdownView && candidate.view.file?.path === file.path);
+    if (!leaf || !(leaf.view instanceof MarkdownView)) {
+      return;
+    }
+    this.app.workspace.setActiveLeaf(leaf, { focus: true });
+    leaf.view.editor.setCursor({ line, ch: 0 });
+    leaf.view.editor.scrollIntoView({ from: { line, ch: 0 }, to: { line, ch: 0 } }, true);
+  }
 }
 
-class ArchivePickerModal extends Modal {
-	plugin: LinkArchiverPlugin;
-	snapshots: { url: string; timestamp?: string; title?: string }[];
-	originalUrl: string;
-	onSubmit: (chosenUrl: string | null) => void;
-	selectedUrl: string | null = null;
+// Vault-wide dashboard of every link, with filters and bulk actions on the selected links
+class LinkDashboardView extends ItemView {
+  plugin: LinkArchiverPlugin;
+  private links: DashboardLink[] = [];
+  private selected: Set<DashboardLink> = new Set();
+  // Results of "Re-check" by URL
+  private checkResults: Map<string, ArchiveLookupResult> = new Map();
+  private filters = { folder: "", tag: "", domain: "", status: "all", age: "any", sort: "note" };
+  private changedPaths: Set<string> = new Set();
+  private requestRescan: () => void;
+  private listEl: HTMLElement;
+  private summaryEl: HTMLElement;
+
+  constructor(leaf: WorkspaceLeaf, plugin: LinkArchiverPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.requestRescan = debounce(() => this.rescanChanged(), 2000, true);
+  }
 
-	constructor(app: App, plugin: LinkArchiverPlugin, snapshots: { url: string; timestamp?: string; title?: string }[], originalUrl: string, onSubmit: (chosenUrl: string | null) => void) {
-		super(app);
-		this.plugin = plugin;
-		this.snapshots = snapshots;
-		this.originalUrl = originalUrl;
-		this.onSubmit = onSubmit;
-	}
+  getViewType(): string {
+    return LINK_DASHBOARD_VIEW_TYPE;
+  }
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.empty();
+  getDisplayText(): string {
+    return "Link Dashboard";
+  }
 
-		contentEl.createEl("h2", { text: "Choose an archive snapshot" });
+  getIcon(): string {
+    return "layout-dashboard";
+  }
 
-		const listContainer = contentEl.createDiv({ cls: "archive-picker-list" });
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("link-dashboard");
+    this.renderToolbar(contentEl);
+    this.summaryEl = contentEl.createDiv({ cls: "link-dashboard-summary" });
+    this.renderBulkActions(contentEl);
+    this.listEl = contentEl.createDiv({ cls: "link-dashboard-list" });
+
+    // Notes changed while the dashboard is open are scanned again
+    this.registerEvent(this.app.vault.on("modify", (file) => this.queueRescan(file.path)));
+    this.registerEvent(this.app.vault.on("create", (file) => this.queueRescan(file.path)));
+    this.registerEvent(this.app.vault.on("delete", (file) => this.queueRescan(file.path)));
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+      this.queueRescan(oldPath);
+      this.queueRescan(file.path);
+    }));
+
+    await this.scanVault();
+  }
 
-		this.snapshots.forEach((snapshot) => {
-			const linkEl = listContainer.createEl("div", { cls: "archive-picker-item" });
-			
-			// Display title if available, otherwise fallback to URL
-			const displayText = snapshot.title || (snapshot.timestamp ? `${snapshot.timestamp} — ${snapshot.url}` : snapshot.url);
-			linkEl.textContent = displayText;
+  async onClose() {
+    this.contentEl.empty();
+  }
 
-			linkEl.style.cursor = "pointer";
-			linkEl.style.padding = "0.5em";
-			linkEl.style.border = "1px solid #ccc";
-			linkEl.style.marginBottom = "0.5em";
-			linkEl.style.borderRadius = "5px";
+  private renderToolbar(containerEl: HTMLElement) {
+    const toolbar = containerEl.createDiv({ cls: "link-dashboard-toolbar" });
+    const addTextFilter = (key: "folder" | "tag" | "domain", placeholder: string) => {
+      new TextComponent(toolbar)
+        .setPlaceholder(placeholder)
+        .onChange((value) => {
+          this.filters[key] = value.trim().toLowerCase();
+          this.renderList();
+        });
+    };
+    const addDropdown = (key: "status" | "age" | "sort", options: Record<string, string>) => {
+      new DropdownComponent(toolbar)
+        .addOptions(options)
+        .setValue(this.filters[key])
+        .onChange((value) => {
+          this.filters[key] = value;
+          this.renderList();
+        });
+    };
 
-			linkEl.onClickEvent(() => {
-				this.selectedUrl = snapshot.url;
+    addTextFilter("folder", "Folder");
+    addTextFilter("tag", "Tag");
+    addTextFilter("domain", "Domain");
+    addDropdown("status", {
+      all: "Any status",
+      archived: "Archived",
+      unarchived: "Not archived",
+      archiveOnly: "Archive URLs",
+      code: "In code"
+    });
+    addDropdown("age", {
+      any: "Any snapshot age",
+      "30": "Snapshot older than 30 days",
+      "180": "Snapshot older than 6 months",
+      "365": "Snapshot older than 1 year",
+      unknown: "Snapshot date unknown"
+    });
+    addDropdown("sort", { note: "Sort by note", domain: "Sort by domain" });
 
-				// Highlight selection visually
-				listContainer.querySelectorAll('.archive-picker-item').forEach(el => {
-					(el as HTMLElement).style.backgroundColor = "";
-				});
-				linkEl.style.backgroundColor = "#d0ebff"; // highlight color
-			});
-		});
+    new ButtonComponent(toolbar)
+      .setButtonText("Refresh")
+      .onClick(() => this.scanVault());
+  }
+
+  private renderBulkActions(containerEl: HTMLElement) {
+    const actions = containerEl.createDiv({ cls: "link-dashboard-actions" });
+
+    new ButtonComponent(actions)
+      .setButtonText("Select all")
+      .onClick(() => {
+        this.getFilteredLinks().forEach(link => this.selected.add(link));
+        this.renderList();
+      });
+    new ButtonComponent(actions)
+      .setButtonText("Clear selection")
+      .onClick(() => {
+        this.selected.clear();
+        this.renderList();
+      });
+
+    new ButtonComponent(actions)
+      .setButtonText("Archive")
+      .setCta()
+      .onClick(() => {
+        const links = this.getSelected().filter(link => link.status === "unarchived");
+        if (links.length === 0) {
+          new Notice("None of the selected links needs archiving.");
+          return;
+        }
+        this.plugin.queueLinksForArchiving(links.map(link => ({ file: link.file, line: link.noteLink.line, url: link.noteLink.link.originalUrl })));
+      });
+    new ButtonComponent(actions)
+      .setButtonText("Re-check")
+      .onClick(async () => {
+        const links = this.getSelected().filter(link => link.status === "archived" || link.status === "unarchived");
+        if (links.length === 0) {
+          new Notice("Select links to check.");
+          return;
+        }
+        const results = await this.plugin.recheckLinks(links.map(link => link.noteLink.link.originalUrl));
+        results.forEach((result, url) => this.checkResults.set(url, result));
+        this.renderList();
+      });
+    new ButtonComponent(actions)
+      .setButtonText("Remove archive links")
+      .setWarning()
+      .onClick(() => {
+        const links = this.getSelected().filter(link => link.status === "archived");
+        if (links.length === 0) {
+          new Notice("None of the selected links has an archive link.");
+          return;
+        }
+        this.plugin.removeArchiveLinksFor(links.map(link => ({ file: link.file, line: link.noteLink.line, start: link.noteLink.link.start })));
+      });
+    new ButtonComponent(actions)
+      .setButtonText("Export")
+      .onClick(() => this.exportSelected());
+  }
+
+  private getSelected(): DashboardLink[] {
+    return this.links.filter(link => this.selected.has(link));
+  }
+
+  private async scanVault() {
+    this.links = [];
+    this.selected.clear();
+    this.summaryEl.setText("Scanning vault...");
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      this.links.push(...await this.scanFile(file));
+    }
+    this.renderList();
+  }
 
-		// Confirm and cancel buttons
-		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+  private queueRescan(path: string) {
+    if (path.endsWith(".md")) {
+      this.changedPaths.add(path);
+      this.requestRescan();
+    }
+  }
 
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Insert Snapshot")
-			.setCta()
-			.onClick(() => {
-				if (this.selectedUrl) {
-					this.onSubmit(this.selectedUrl);
-					this.close();
-				} else {
-					new Notice("Please select a snapshot.");
-				}
-			});
+  private async rescanChanged() {
+    const paths = new Set(this.changedPaths);
+    this.changedPaths.clear();
+    this.links = this.links.filter(link => !paths.has(link.file.path));
+    for (const link of Array.from(this.selected)) {
+      if (paths.has(link.file.path)) {
+        this.selected.delete(link);
+      }
+    }
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        this.links.push(...await this.scanFile(file));
+      }
+    }
+    this.renderList();
+  }
 
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Cancel")
-			.onClick(() => {
-				this.onSubmit(null);
-				this.close();
-			});
-	}
+  private async scanFile(file: TFile): Promise<DashboardLink[]> {
+    try {
+      const lines = (await this.app.vault.cachedRead(file)).split('\n');
+      const cache = this.app.metadataCache.getFileCache(file);
+      const tags = (cache ? getAllTags(cache) || [] : []).map(tag => tag.toLowerCase());
+
+      // Reference definitions can't take an archive link, so they aren't listed
+      return this.plugin.collectNoteLinks(lines)
+        .filter(noteLink => !noteLink.link.isReference)
+        .map(noteLink => {
+          let domain = "";
+          try {
+            domain = new URL(noteLink.link.originalUrl).hostname.replace(/^www\./, '');
+          } catch {
+            // Leave the domain empty for unparseable URLs
+          }
+          const timestamp = noteLink.archiveUrl ? this.plugin.getSnapshotTimestamp(noteLink.archiveUrl) || noteLink.timestamp || "" : "";
+          return {
+            file,
+            noteLink,
+            status: this.plugin.getNoteLinkStatus(noteLink),
+            domain,
+            tags,
+            captured: this.plugin.getSnapshotTime(timestamp)
+          };
+        });
+    } catch (error) {
+      console.error(`Error scanning ${file.path}:`, error);
+      return [];
+    }
+  }
 
-	onClose() {
-		this.contentEl.empty();
-	}
-}
+  private getFilteredLinks(): DashboardLink[] {
+    const { folder, tag, domain, status, age, sort } = this.filters;
+    const tagFilter = tag.startsWith("#") ? tag : `#${tag}`;
+    const filtered = this.links.filter(link => {
+      if (folder && !link.file.path.toLowerCase().startsWith(folder.replace(/\/$/, "") + "/")) {
+        return false;
+      }
+      if (tag && !link.tags.some(candidate => candidate === tagFilter || candidate.startsWith(`${tagFilter}/`))) {
+        return false;
+      }
+      if (domain && !link.domain.includes(domain)) {
+        return false;
+      }
+      if (status !== "all" && link.status !== status) {
+        return false;
+      }
+      if (age === "unknown") {
+        return link.status === "archived" && link.captured === null;
+      }
+      if (age !== "any") {
+        return link.captured !== null && Date.now() - link.captured > parseInt(age, 10) * 24 * HOUR_MS;
+      }
+      return true;
+    });
 
-class ArchiveVaultModal extends Modal {
-	onConfirm: () => void;
+    const byNote = (a: DashboardLink, b: DashboardLink) => a.file.path.localeCompare(b.file.path) || a.noteLink.line - b.noteLink.line;
+    return filtered.sort(sort === "domain" ? (a, b) => a.domain.localeCompare(b.domain) || byNote(a, b) : byNote);
+  }
 
-	constructor(app: App, onConfirm: () => void) {
-		super(app);
-		this.onConfirm = onConfirm;
-	}
+  private renderList() {
+    const filtered = this.getFilteredLinks();
+    this.updateSummary(filtered);
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.createEl("h2", { text: "Archive all links in vault" });
-		contentEl.createEl("p", { text: "This will process every markdown file in your vault and add links of the latest snapshot where existing snapshots are found." });
-		contentEl.createEl("p", { text: "This action will modify your files! Make sure you have a backup!" });
+    this.listEl.empty();
+    const table = this.listEl.createEl("table", { cls: "link-dashboard-table" });
+    const header = table.createEl("thead").createEl("tr");
+    for (const heading of ["", "Note", "Link", "Domain", "Status", "Snapshot"]) {
+      header.createEl("th", { text: heading });
+    }
 
-		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
-		
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Continue")
-			.setWarning()
-			.onClick(() => {
-				this.onConfirm();
-				this.close();
-			});
+    const body = table.createEl("tbody");
+    for (const link of filtered.slice(0, MAX_DASHBOARD_ROWS)) {
+      const row = body.createEl("tr", { cls: `is-${link.status}` });
 
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Cancel")
-			.onClick(() => {
-				this.close();
-			});
-	}
+      const checkbox = row.createEl("td").createEl("input", { type: "checkbox" });
+      checkbox.checked = this.selected.has(link);
+      checkbox.addEventListener("change", () => {
+        checkbox.checked ? this.selected.add(link) : this.selected.delete(link);
+        this.updateSummary(filtered);
+      });
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
-	}
-}
+      const noteEl = row.createEl("td", { cls: "link-dashboard-note", text: `${link.file.basename}:${link.noteLink.line + 1}` });
+      noteEl.setAttr("title", link.file.path);
+      noteEl.addEventListener("click", () => this.openLink(link));
 
-class TargetedArchiveModal extends Modal {
-	onConfirm: () => void;
-	onCancel: () => void;
-	targetInfo: string;
+      row.createEl("td", { cls: "link-dashboard-url", text: link.noteLink.link.originalUrl });
+      row.createEl("td", { text: link.domain });
+      row.createEl("td", { text: this.describeStatus(link) });
 
-	constructor(app: App, targetInfo: string, onConfirm: () => void, onCancel: () => void) {
-		super(app);
-		this.targetInfo = targetInfo;
-		this.onConfirm = onConfirm;
-		this.onCancel = onCancel;
-	}
+      const snapshotCell = row.createEl("td");
+      if (link.noteLink.archiveUrl) {
+        const archiveUrl = link.noteLink.archiveUrl;
+        const snapshotLink = snapshotCell.createEl("a", {
+          text: link.captured !== null ? moment(link.captured).format(DEFAULT_TIMESTAMP_FORMAT) : "open",
+          href: archiveUrl
+        });
+        if (this.plugin.isLocalCopyPath(archiveUrl)) {
+          snapshotLink.addEventListener("click", (evt) => {
+            evt.preventDefault();
+            this.plugin.openArchiveUrl(archiveUrl);
+          });
+        }
+      }
+    }
+  }
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.createEl("h2", { text: "Archive links in targeted files only" });
-		contentEl.createEl("p", { text: "This will process only files matching the following criteria:" });
-		
-		const infoEl = contentEl.createEl("div", { cls: "targeted-info" });
-		infoEl.innerHTML = this.targetInfo.replace(/\n/g, "<br>");
-		
-		contentEl.createEl("p", { text: "This action will modify your files! Make sure you have a backup!" });
+  private updateSummary(filtered: DashboardLink[]) {
+    this.summaryEl.setText(`${filtered.length} of ${this.links.length} links shown, ${this.selected.size} selected` +
+      (filtered.length > MAX_DASHBOARD_ROWS ? `. Showing the first ${MAX_DASHBOARD_ROWS}; narrow the filters to see the rest.` : ""));
+  }
 
-		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
-		
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Continue")
-			.setWarning()
-			.onClick(() => {
-				this.onConfirm();
-				this.close();
-			});
+  private describeStatus(link: DashboardLink): string {
+    const labels: Record<LinkArchiveStatus, string> = {
+      archived: "Archived",
+      unarchived: "Not archived",
+      archiveOnly: "Archive URL",
+      code: "In code"
+    };
+    const result = this.checkResults.get(link.noteLink.link.originalUrl);
+    if (!result) {
+      return labels[link.status];
+    }
+    return `${labels[link.status]} (checked: ${result.foundArchive ? `snapshot on ${result.service || "archive"}` : "no snapshot"})`;
+  }
 
-		new ButtonComponent(buttonContainer)
-			.setButtonText("Cancel")
-			.onClick(() => {
-				this.onCancel();
-				this.close();
-			});
-	}
+  private async openLink(link: DashboardLink) {
+    const leaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(link.file, { eState: { line: link.noteLink.line } });
+  }
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
-	}
+  // Write the selected links (or every link shown when none is selected) to a CSV file in the vault root
+  private async exportSelected() {
+    const links = this.selected.size > 0 ? this.getSelected() : this.getFilteredLinks();
+    const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = [
+      ["Note", "Line", "URL", "Domain", "Status", "Archive URL", "Snapshot date"],
+      ...links.map(link => [
+        link.file.path,
+        String(link.noteLink.line + 1),
+        link.noteLink.link.originalUrl,
+        link.domain,
+        link.status,
+        link.noteLink.archiveUrl || "",
+        link.captured !== null ? moment(link.captured).format(DEFAULT_TIMESTAMP_FORMAT) : ""
+      ])
+    ];
+
+    const path = normalizePath(`Link Archive Export ${moment().format("YYYY-MM-DD HHmmss")}.csv`);
+    try {
+      await this.app.vault.create(path, rows.map(row => row.map(csvCell).join(",")).join("\n"));
+      new Notice(`Exported ${links.length} link${links.length !== 1 ? 's' : ''} to ${path}.`);
+    } catch (error) {
+      new Notice(`Could not export links: ${error.message}`);
+    }
+  }
 }
 
-class RemoveArchiveLinksModal extends Modal {
+// Live view of the background archive queue
+class ArchiveQueueModal extends Modal {
   plugin: LinkArchiverPlugin;
-  
+  private unsubscribe: (() => void) | null = null;
+
   constructor(app: App, plugin: LinkArchiverPlugin) {
     super(app);
     this.plugin = plugin;
   }
-  
+
   onOpen() {
+    this.unsubscribe = this.plugin.onArchiveQueueChange(() => this.render());
+    this.render();
+  }
+
+  private render() {
     const { contentEl } = this;
-    contentEl.createEl("h2", { text: "Remove Archive Links" });
-    contentEl.createEl("p", { text: "This will remove all archive links added by the plugin." });
-    contentEl.createEl("p", { text: "Choose where to remove archive links from:", cls: "warning" });
-    
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "Archive Queue" });
+
+    const job = this.plugin.getActiveArchiveJob();
+    if (!job || job.status === "completed" || job.status === "cancelled") {
+      contentEl.createEl("p", { text: "The archive queue is empty." });
+    } else {
+      const counts = getArchiveJobCounts(job);
+      let statusText = `Status: ${job.status}`;
+      if (job.status === "paused") {
+        statusText += job.pausedByUser ? " by you" :
+          job.resumeAt ? `, resumes after ${new Date(job.resumeAt).toLocaleTimeString()}` : "";
+      }
+      contentEl.createEl("p", { text: statusText });
+
+      const statsList = contentEl.createEl("ul");
+      statsList.createEl("li", { text: `Pending: ${counts.pending}` });
+      statsList.createEl("li", { text: `Done: ${counts.done}` });
+      statsList.createEl("li", { text: `Failed: ${counts.failed}` });
+
+      const itemList = contentEl.createDiv({ cls: "archive-queue-items" });
+      itemList.style.maxHeight = "300px";
+      itemList.style.overflow = "auto";
+      // Unfinished work first; long vault queues are cut off to keep redraws cheap
+      const shownItems = [...job.items.filter(item => item.status === "pending"), ...job.items.filter(item => item.status !== "pending")];
+      for (const item of shownItems.slice(0, 200)) {
+        const label = item.status === "pending" ? "pending" :
+          item.status === "archived" ? `archived${item.service ? ` (${item.service})` : ""}` :
+          item.reason || "skipped";
+        const health = item.health ? ` · ${LINK_HEALTH_LABELS[item.health.status]}` : needsHealthCheck(item) ? " · health check pending" : "";
+        itemList.createEl("div", { text: `${item.file}:${item.line + 1} ${item.url} — ${label}${health}` });
+      }
+      if (shownItems.length > 200) {
+        itemList.createEl("div", { text: `...and ${shownItems.length - 200} more` });
+      }
+    }
+
     const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
-    
-    new ButtonComponent(buttonContainer)
-      .setButtonText("Current Note")
-      .setCta()
-      .onClick(() => {
-        this.close();
-        this.plugin.removeArchiveLinksFromCurrentNote();
-      });
-    
-    new ButtonComponent(buttonContainer)
-      .setButtonText("Entire Vault")
-      .setWarning()
-      .onClick(() => {
-        this.close();
-        this.plugin.removeArchiveLinksFromVault();
-      });
-    
+
+    if (job && job.status === "running") {
+      new ButtonComponent(buttonContainer)
+        .setButtonText("Pause")
+        .onClick(() => this.plugin.pauseArchiveQueue());
+    } else if (job && job.status === "paused") {
+      new ButtonComponent(buttonContainer)
+        .setButtonText("Resume")
+        .setCta()
+        .onClick(() => this.plugin.resumeArchiveJob());
+    }
+
+    if (job && (job.status === "running" || job.status === "paused")) {
+      new ButtonComponent(buttonContainer)
+        .setButtonText("Cancel Queue")
+        .setWarning()
+        .onClick(() => this.plugin.cancelArchiveJob());
+    }
+
     new ButtonComponent(buttonContainer)
-      .setButtonText("Cancel")
+      .setButtonText("Close")
       .onClick(() => {
         this.close();
       });
   }
-  
+
   onClose() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
     const { contentEl } = this;
     contentEl.empty();
   }
@@ -3084,6 +7140,7 @@ class ArchiveReportModal extends Modal {
     skippedLinks: {
       alreadyArchived: number;
       isArchiveUrl: number;
+      unsupported: number;
       noSnapshots: number;
       errors: number;
       rateLimited: number;
@@ -3094,6 +7151,13 @@ class ArchiveReportModal extends Modal {
       url: string;
       reason: string;
     }>;
+    archivedDetails?: Array<{
+      file?: string;
+      line: number;
+      url: string;
+      archiveUrl: string;
+      service?: string;
+    }>;
     excludedFiles?: Array<{
       path: string;
       reason: string;
@@ -3106,6 +7170,16 @@ class ArchiveReportModal extends Modal {
     isNote: boolean;
     rateLimited?: boolean;
     filePath?: string;
+    healthDetails?: Array<{
+      file?: string;
+      line: number;
+      url: string;
+      status: LinkHealthStatus;
+      detail?: string;
+    }>;
+    deadLinksSwapped?: boolean;
+    // Offered as a button when dead links weren't swapped automatically
+    swapDeadLinks?: () => Promise<void>;
   };
 
   constructor(app: App, report: any) {
@@ -3127,12 +7201,20 @@ class ArchiveReportModal extends Modal {
     const summaryList = summaryEl.createEl("ul");
     summaryList.createEl("li", { text: `Links archived: ${this.report.archivedCount}` });
     
+    for (const [service, count] of Object.entries(this.countArchivedByService())) {
+      summaryList.createEl("li", { text: `From ${service}: ${count}` });
+    }
+    
     const totalSkipped = Object.values(this.report.skippedLinks).reduce((a, b) => a + b, 0);
     summaryList.createEl("li", { text: `Links skipped: ${totalSkipped}` });
 
     if (this.report.excludedFiles && this.report.excludedFiles.length > 0) {
       summaryList.createEl("li", { text: `Files excluded: ${this.report.excludedFiles.length}` });
     }
+
+    if (this.report.healthDetails && this.report.healthDetails.length > 0) {
+      summaryList.createEl("li", { text: this.describeDeadLinks() });
+    }
     
     if (this.report.rateLimited) {
       const warningEl = summaryEl.createEl("div", { cls: "archive-report-warning" });
@@ -3141,6 +7223,20 @@ class ArchiveReportModal extends Modal {
       });
     }
     
+    // Archived links section, showing which service each snapshot came from
+    if (this.report.archivedDetails && this.report.archivedDetails.length > 0) {
+      const archivedEl = contentEl.createDiv({ cls: "archive-report-archived" });
+      archivedEl.createEl("h3", { text: "Archived Links" });
+      
+      const archivedList = archivedEl.createEl("ul");
+      this.report.archivedDetails.forEach(detail => {
+        const location = detail.file ? `${detail.file}, line ${detail.line}` : `Line ${detail.line}`;
+        archivedList.createEl("li", {
+          text: `${location}: ${detail.url} - ${detail.service || "Unknown service"}`
+        });
+      });
+    }
+    
     // Details section
     if (this.report.skippedDetails.length > 0) {
       const detailsEl = contentEl.createDiv({ cls: "archive-report-details" });
@@ -3191,6 +7287,21 @@ class ArchiveReportModal extends Modal {
       }
     }
     
+    // Link health section; alive links aren't listed
+    const unhealthyLinks = this.getUnhealthyLinks();
+    if (unhealthyLinks.length > 0) {
+      const healthEl = contentEl.createDiv({ cls: "archive-report-health" });
+      healthEl.createEl("h3", { text: "Link Health" });
+
+      const healthList = healthEl.createEl("ul");
+      unhealthyLinks.forEach(detail => {
+        const location = detail.file ? `${detail.file}, line ${detail.line}` : `Line ${detail.line}`;
+        healthList.createEl("li", {
+          text: `${location}: ${detail.url} - ${LINK_HEALTH_LABELS[detail.status]}${detail.detail ? ` (${detail.detail})` : ""}`
+        });
+      });
+    }
+    
     // Excluded files section
     if (this.report.excludedFiles && this.report.excludedFiles.length > 0) {
       const excludedEl = contentEl.createDiv({ cls: "archive-report-excluded" });
@@ -3205,6 +7316,17 @@ class ArchiveReportModal extends Modal {
     // Action buttons
     const buttonContainer = contentEl.createDiv({ cls: "archive-report-actions" });
     
+    const swapDeadLinks = this.report.swapDeadLinks;
+    if (swapDeadLinks) {
+      new ButtonComponent(buttonContainer)
+        .setButtonText("Swap Dead Links to Archive")
+        .setCta()
+        .onClick(async () => {
+          this.close();
+          await swapDeadLinks();
+        });
+    }
+    
     // Copy to clipboard button
     new ButtonComponent(buttonContainer)
       .setButtonText("Copy to Clipboard")
@@ -3232,6 +7354,28 @@ class ArchiveReportModal extends Modal {
       });
   }
   
+  // Checked links that aren't alive, dead ones first
+  getUnhealthyLinks() {
+    const details = (this.report.healthDetails || []).filter(detail => detail.status !== "alive");
+    const isDead = (detail: typeof details[0]) => DEAD_LINK_STATUSES.includes(detail.status) ? 0 : 1;
+    return details.sort((a, b) => isDead(a) - isDead(b));
+  }
+
+  describeDeadLinks(): string {
+    const dead = (this.report.healthDetails || []).filter(detail => DEAD_LINK_STATUSES.includes(detail.status)).length;
+    return `Dead links: ${dead} of ${this.report.healthDetails!.length} checked${this.report.deadLinksSwapped && dead > 0 ? " (swapped to archive)" : ""}`;
+  }
+  
+  // Number of archived links per archive service
+  countArchivedByService(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const detail of this.report.archivedDetails || []) {
+      const service = detail.service || "Unknown service";
+      counts[service] = (counts[service] || 0) + 1;
+    }
+    return counts;
+  }
+  
 generateReportText(): string {
   const lines: string[] = [];
   
@@ -3244,12 +7388,20 @@ generateReportText(): string {
   lines.push("## Summary");
   lines.push(`- Links archived: ${this.report.archivedCount}`);
   
+  for (const [service, count] of Object.entries(this.countArchivedByService())) {
+    lines.push(`  - From ${service}: ${count}`);
+  }
+  
   const totalSkipped = Object.values(this.report.skippedLinks).reduce((a, b) => a + b, 0);
   lines.push(`- Links skipped: ${totalSkipped}`);
   
   if (this.report.excludedFiles && this.report.excludedFiles.length > 0) {
     lines.push(`- Files excluded: ${this.report.excludedFiles.length}`);
   }
+
+  if (this.report.healthDetails && this.report.healthDetails.length > 0) {
+    lines.push(`- ${this.describeDeadLinks()}`);
+  }
   
   if (this.report.rateLimited) {
     lines.push("");
@@ -3264,6 +7416,7 @@ generateReportText(): string {
   lines.push("## Skipped Links Breakdown");
   lines.push(`- Already archived: ${this.report.skippedLinks.alreadyArchived}`);
   lines.push(`- Archive URLs: ${this.report.skippedLinks.isArchiveUrl}`);
+  lines.push(`- Can't hold an archive link: ${this.report.skippedLinks.unsupported}`);
   lines.push(`- No snapshots available: ${this.report.skippedLinks.noSnapshots}`);
   lines.push(`- Errors: ${this.report.skippedLinks.errors}`);
   lines.push(`- Rate limited: ${this.report.skippedLinks.rateLimited}`);
@@ -3272,6 +7425,20 @@ generateReportText(): string {
   lines.push("---");
   lines.push("");
   
+  // Archived links
+  if (this.report.archivedDetails && this.report.archivedDetails.length > 0) {
+    lines.push("## Archived Links");
+    
+    for (const detail of this.report.archivedDetails) {
+      const location = detail.file ? `[[${detail.file}]] line ${detail.line}` : `Line ${detail.line}`;
+      lines.push(`- ${location}: ${detail.url} - ${detail.service || "Unknown service"} (${detail.archiveUrl})`);
+    }
+    
+    lines.push("");
+    lines.push("---");
+    lines.push("");
+  }
+  
   // Details
   if (this.report.skippedDetails.length > 0) {
     lines.push("## Skipped Links Details");
@@ -3322,6 +7489,21 @@ generateReportText(): string {
     }
   }
   
+  // Link health
+  const unhealthyLinks = this.getUnhealthyLinks();
+  if (unhealthyLinks.length > 0) {
+    lines.push("## Link Health");
+    
+    for (const detail of unhealthyLinks) {
+      const location = detail.file ? `[[${detail.file}]] line ${detail.line}` : `Line ${detail.line}`;
+      lines.push(`- ${location}: ${detail.url} - ${LINK_HEALTH_LABELS[detail.status]}${detail.detail ? ` (${detail.detail})` : ""}`);
+    }
+    
+    lines.push("");
+    lines.push("---");
+    lines.push("");
+  }
+  
   // Excluded files
   if (this.report.excludedFiles && this.report.excludedFiles.length > 0) {
     lines.push("## Excluded Files");
@@ -3384,17 +7566,222 @@ generateReportText(): string {
     }
   }
 
-  onClose() {
-    const { contentEl } = this;
-    contentEl.empty();
-  }
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// Wayback Machine provider, backed by the CDX Server API
+class WaybackProvider implements ArchiveProvider {
+	readonly id = "web.archive.org";
+	readonly name = "Wayback Machine";
+	readonly baseUrl = "https://web.archive.org/web";
+	readonly domains = ["web.archive.org"];
+	readonly rateLimitDelay = 1000; // 1 second
+
+	constructor(private plugin: LinkArchiverPlugin) {}
+
+	async getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		// Use CDX API to get multiple snapshots with status code filtering
+		// Parameters: url, output=json, limit (respects maxSnapshots), filter=statuscode:200
+		const limit = this.plugin.settings.maxSnapshots || 5;
+		const checkUrl = `https://web.archive.org/cdx/search/cdx?url=${encodeURIComponent(originalUrl)}&output=json&limit=${limit}&filter=statuscode:200`;
+		console.log(`Checking Wayback Machine CDX API: ${checkUrl}`);
+
+		// Minimal headers to avoid detection
+		const res = await requestUrl({
+			url: checkUrl,
+			headers: {
+				'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+				'Accept-Language': 'en-US,en;q=0.5'
+			}
+		});
+
+		const snapshots: ArchiveSnapshot[] = [];
+
+		if (res.status === 200 && res.json && Array.isArray(res.json) && res.json.length > 1) {
+			// CDX returns array of arrays: [["urlkey", "timestamp", "original", "mimetype", "statuscode", "digest", "length"], ...]
+			// First row is headers, subsequent rows are snapshots
+			for (let i = 1; i < res.json.length; i++) {
+				const row = res.json[i];
+				if (row && row.length >= 2) {
+					const timestamp = row[1]; // Timestamp in YYYYMMDDhhmmss format
+					snapshots.push({ url: `https://web.archive.org/web/${timestamp}/${originalUrl}`, timestamp });
+				}
+			}
+
+			// Sort by timestamp descending (newest first)
+			snapshots.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+		}
+
+		if (snapshots.length === 0 && this.plugin.settings.debugMode) {
+			console.log(`No Wayback Machine snapshots found`);
+		}
+
+		return snapshots;
+	}
+
+	getSaveUrl(originalUrl: string): string {
+		return `https://web.archive.org/save/${originalUrl}`;
+	}
+
+	isArchiveUrl(url: string): boolean {
+		try {
+			return new URL(url).hostname.includes("web.archive.org");
+		} catch {
+			return false;
+		}
+	}
+
+	isSnapshotUrl(url: string): boolean {
+		return this.isArchiveUrl(url) && /\/web\/\d{4,14}[a-z_]*\//.test(url);
+	}
+
+	// id_ mode serves the archived page untouched
+	getRawSnapshotUrl(snapshotUrl: string): string {
+		return snapshotUrl.replace(/\/web\/(\d{4,14})[a-z_]*\//, '/web/$1id_/');
+	}
+
+	cleanTitle(title: string): string {
+		return title.replace(/\s*[-|]\s*Wayback Machine\s*$/i, '').trim();
+	}
+}
+
+// Client for the Wayback Machine's Save Page Now 2 API (authenticated with S3-style access keys)
+class SavePageNowClient {
+	private static readonly POLL_INTERVAL = 5000; // 5 seconds
+	private static readonly MAX_WAIT = 3 * 60 * 1000; // 3 minutes
+
+	constructor(private plugin: LinkArchiverPlugin) {}
+
+	isConfigured(): boolean {
+		const { useSavePageNowApi, spnAccessKey, spnSecretKey } = this.plugin.settings;
+		return useSavePageNowApi && !!spnAccessKey.trim() && !!spnSecretKey.trim();
+	}
+
+	// Submit a capture and wait for it to finish. Resolves to the snapshot URL.
+	async capture(originalUrl: string): Promise<string> {
+		const jobId = await this.submit(originalUrl);
+		console.log(`SavePageNowClient: submitted ${originalUrl} as job ${jobId}`);
+
+		const deadline = Date.now() + SavePageNowClient.MAX_WAIT;
+		while (Date.now() < deadline) {
+			await new Promise(resolve => setTimeout(resolve, SavePageNowClient.POLL_INTERVAL));
+
+			const status = await this.getStatus(jobId);
+			if (status.status === "success") {
+				return `https://web.archive.org/web/${status.timestamp}/${status.original_url || originalUrl}`;
+			}
+			if (status.status === "error") {
+				throw new Error(`Save Page Now failed: ${status.message || status.status_ext || "unknown error"}`);
+			}
+		}
+
+		throw new Error("Save Page Now timeout: capture did not finish in time");
+	}
+
+	private async submit(originalUrl: string): Promise<string> {
+		await this.plugin.waitForArchiveService("web.archive.org");
+
+		const response = await requestUrl({
+			url: "https://web.archive.org/save",
+			method: "POST",
+			headers: this.getHeaders(),
+			contentType: "application/x-www-form-urlencoded",
+			body: `url=${encodeURIComponent(originalUrl)}`,
+			throw: false
+		});
+
+		if (response.status === 429) {
+			throw { status: 429, message: "Save Page Now rate limit reached" };
+		}
+		if (response.status === 401 || response.status === 403) {
+			throw new Error("Save Page Now rejected the access keys");
+		}
+
+		const json: SavePageNowResponse | null = response.json;
+		if (!json || !json.job_id) {
+			throw new Error(`Save Page Now did not start a capture: ${(json && (json.message || json.status_ext)) || `HTTP ${response.status}`}`);
+		}
+		return json.job_id;
+	}
+
+	private async getStatus(jobId: string): Promise<SavePageNowResponse> {
+		const response = await requestUrl({
+			url: `https://web.archive.org/save/status/${encodeURIComponent(jobId)}`,
+			headers: this.getHeaders(),
+			throw: false
+		});
+		// The status endpoint sometimes answers with an HTML error page while the capture is still running
+		try {
+			return response.json || { status: "pending" };
+		} catch {
+			return { status: "pending" };
+		}
+	}
+
+	private getHeaders(): Record<string, string> {
+		const { spnAccessKey, spnSecretKey } = this.plugin.settings;
+		return {
+			'Accept': 'application/json',
+			'Authorization': `LOW ${spnAccessKey.trim()}:${spnSecretKey.trim()}`
+		};
+	}
 }
 
-// GhostArchiveArchiver class implementation
-class GhostArchiveArchiver {
+// GhostArchive provider, scrapes the search page (or the /varchive/ page for YouTube)
+class GhostArchiveProvider implements ArchiveProvider {
+	readonly id = "ghostarchive.org";
+	readonly name = "GhostArchive";
+	readonly baseUrl = "https://ghostarchive.org";
+	readonly domains = ["ghostarchive.org"];
+	readonly rateLimitDelay = 2000; // 2 seconds
+
 	constructor(private plugin: LinkArchiverPlugin) {}
 
-	async getSnapshots(originalUrl: string): Promise<{ url: string, timestamp: string, title?: string }[]> {
+	async getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		const snapshots = await this.findSnapshots(originalUrl);
+
+		// Sort by timestamp descending
+		snapshots.sort((a, b) => {
+			try {
+				return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+			} catch {
+				return 0;
+			}
+		});
+
+		return snapshots;
+	}
+
+	getSaveUrl(originalUrl: string): string {
+		return `https://ghostarchive.org/archive/${encodeURIComponent(originalUrl)}`;
+	}
+
+	isArchiveUrl(url: string): boolean {
+		try {
+			return new URL(url).hostname.includes("ghostarchive.org");
+		} catch {
+			return false;
+		}
+	}
+
+	// Allow both regular and video archives
+	isSnapshotUrl(url: string): boolean {
+		return url.includes('ghostarchive.org/archive/') || url.includes('ghostarchive.org/varchive/');
+	}
+
+	cleanTitle(title: string): string {
+		return title
+			.replace(/ - GhostArchive$/, '')
+			.replace(/ \| GhostArchive$/, '')
+			.replace(/GhostArchive - /, '')
+			.replace(/^GhostArchive:\s*/i, '')
+			.trim();
+	}
+
+	private async findSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
 		// Extract video ID from YouTube URLs first
 		let videoId: string | null = null;
 		const isYouTube = originalUrl.includes('youtube.com') || originalUrl.includes('youtu.be');
@@ -3406,16 +7793,16 @@ class GhostArchiveArchiver {
 								originalUrl.match(/youtube\.com\/v\/([^?&]+)/);
 			if (youtubeMatch && youtubeMatch[1]) {
 				videoId = youtubeMatch[1];
-				console.log(`GhostArchiveArchiver: extracted YouTube video ID: ${videoId}`);
+				console.log(`GhostArchiveProvider: extracted YouTube video ID: ${videoId}`);
 
 				// For YouTube, try direct URL construction first (avoids search page blocking)
 				const directResult = await this.getYouTubeArchiveDirect(videoId);
 				if (directResult.length > 0) {
 					return directResult;
 				}
-				console.log(`GhostArchiveArchiver: direct URL check failed, trying search fallback`);
+				console.log(`GhostArchiveProvider: direct URL check failed, trying search fallback`);
 			} else {
-				console.log(`GhostArchiveArchiver: could not extract video ID from YouTube URL`);
+				console.log(`GhostArchiveProvider: could not extract video ID from YouTube URL`);
 				return [];
 			}
 		}
@@ -3427,7 +7814,7 @@ class GhostArchiveArchiver {
 		}
 
 		const searchUrl = `https://ghostarchive.org/search?term=${encodeURIComponent(searchTerm)}`;
-		console.log(`GhostArchiveArchiver: constructed search URL: ${searchUrl}`);
+		console.log(`GhostArchiveProvider: constructed search URL: ${searchUrl}`);
 		
 		try {
 			const headers = {
@@ -3448,17 +7835,17 @@ class GhostArchiveArchiver {
 			});
 			
 			if (response.status !== 200) {
-				console.log(`GhostArchiveArchiver: HTTP response status ${response.status}`);
+				console.log(`GhostArchiveProvider: HTTP response status ${response.status}`);
 				return [];
 			}
-			console.log(`GhostArchiveArchiver: HTTP response status ${response.status}`);
+			console.log(`GhostArchiveProvider: HTTP response status ${response.status}`);
 			
 			const $ = cheerio.load(response.text);
-			const snapshots: { url: string, timestamp: string, title?: string }[] = [];
+			const snapshots: ArchiveSnapshot[] = [];
 			
 			// Find all result rows in the search results table
 			const rows = $('.result-row');
-			console.log(`GhostArchiveArchiver: found ${rows.length} result rows`);
+			console.log(`GhostArchiveProvider: found ${rows.length} result rows`);
 			
 			rows.each((_, row) => {
 				const $row = $(row);
@@ -3469,26 +7856,26 @@ class GhostArchiveArchiver {
 				const $link = $urlCell.find('a');
 				let href = $link.attr('href') || '';
 				const linkText = $link.text().trim();
-				console.log(`GhostArchiveArchiver: processing result row with href: ${href}, linkText: ${linkText}`);
+				console.log(`GhostArchiveProvider: processing result row with href: ${href}, linkText: ${linkText}`);
 				
 				// Skip if href is empty
 				if (!href) {
-					console.log(`GhostArchiveArchiver: skipping row with empty href`);
+					console.log(`GhostArchiveProvider: skipping row with empty href`);
 					return;
 				}
 				
 				// Extract timestamp from the second cell
 				let timestamp = $timestampCell.text().trim();
-				console.log(`GhostArchiveArchiver: extracted timestamp: ${timestamp}`);
+				console.log(`GhostArchiveProvider: extracted timestamp: ${timestamp}`);
 				
 				// Clean up any extra whitespace or HTML entities
 				timestamp = timestamp.replace(/\s+/g, ' ').replace(/&nbsp;/g, ' ');
-				console.log(`GhostArchiveArchiver: cleaned timestamp: ${timestamp}`);
+				console.log(`GhostArchiveProvider: cleaned timestamp: ${timestamp}`);
 				
 				// If no timestamp found, use a default
 				if (!timestamp) {
 					timestamp = 'Unknown date';
-					console.log(`GhostArchiveArchiver: no timestamp found, using default`);
+					console.log(`GhostArchiveProvider: no timestamp found, using default`);
 				}
 				
 				// Normalize the href to a full URL
@@ -3507,7 +7894,7 @@ class GhostArchiveArchiver {
 				// For YouTube videos, verify the URL contains the video ID
 				if (videoId) {
 					if (!fullUrl.includes(videoId)) {
-						console.log(`GhostArchiveArchiver: skipping link that doesn't match video ID ${videoId}: ${fullUrl}`);
+						console.log(`GhostArchiveProvider: skipping link that doesn't match video ID ${videoId}: ${fullUrl}`);
 						return;
 					}
 				}
@@ -3518,7 +7905,7 @@ class GhostArchiveArchiver {
 					title = linkText;
 				}
 				
-				console.log(`GhostArchiveArchiver: found valid snapshot at ${fullUrl} with timestamp ${timestamp}${title ? `, title: ${title}` : ''}`);
+				console.log(`GhostArchiveProvider: found valid snapshot at ${fullUrl} with timestamp ${timestamp}${title ? `, title: ${title}` : ''}`);
 				snapshots.push({ url: fullUrl, timestamp, title });
 			});
 			
@@ -3536,8 +7923,8 @@ class GhostArchiveArchiver {
 	}
 
 	// Direct URL construction for YouTube videos (bypasses search page blocking)
-	private async getYouTubeArchiveDirect(videoId: string): Promise<{ url: string, timestamp: string }[]> {
-		console.log(`GhostArchiveArchiver: attempting direct URL construction for video ID: ${videoId}`);
+	private async getYouTubeArchiveDirect(videoId: string): Promise<ArchiveSnapshot[]> {
+		console.log(`GhostArchiveProvider: attempting direct URL construction for video ID: ${videoId}`);
 
 		// GhostArchive uses /varchive/ for YouTube videos
 		const archiveUrl = `https://ghostarchive.org/varchive/${videoId}`;
@@ -3554,7 +7941,7 @@ class GhostArchiveArchiver {
 				throw: false
 			});
 
-			console.log(`GhostArchiveArchiver: direct URL check returned status ${response.status}`);
+			console.log(`GhostArchiveProvider: direct URL check returned status ${response.status}`);
 
 			// If we get a 200, the archive exists
 			if (response.status === 200) {
@@ -3591,50 +7978,504 @@ class GhostArchiveArchiver {
 						}
 					}
 				} catch (parseError) {
-					console.log(`GhostArchiveArchiver: could not extract timestamp: ${parseError}`);
+					console.log(`GhostArchiveProvider: could not extract timestamp: ${parseError}`);
 				}
 
-				console.log(`GhostArchiveArchiver: direct URL verified, archive exists at ${archiveUrl}`);
+				console.log(`GhostArchiveProvider: direct URL verified, archive exists at ${archiveUrl}`);
 				return [{ url: archiveUrl, timestamp }];
 			}
 
 			// 404 means no archive exists
 			if (response.status === 404) {
-				console.log(`GhostArchiveArchiver: no archive found at ${archiveUrl} (404)`);
+				console.log(`GhostArchiveProvider: no archive found at ${archiveUrl} (404)`);
 				return [];
 			}
 
 			// Other status codes (503, 403, etc.) might indicate blocking or temporary issues
-			console.log(`GhostArchiveArchiver: unexpected status ${response.status}, archive may or may not exist`);
+			console.log(`GhostArchiveProvider: unexpected status ${response.status}, archive may or may not exist`);
+			return [];
+
+		} catch (error) {
+			console.error(`GhostArchiveProvider: error checking direct URL: ${error}`);
+			return [];
+		}
+	}
+
+	async extractTitle(archivedUrl: string): Promise<string> {
+		try {
+			const response = await requestUrl({
+				url: archivedUrl,
+				headers: {
+					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
+				}
+			});
+			
+			if (response.status === 200) {
+				const $ = cheerio.load(response.text);
+				let title = $('title').text().trim();
+				// Remove Ghostarchive suffix
+				title = this.cleanTitle(title.replace(/\s*\|\s*Ghostarchive\s*$/, ''));
+				return title || archivedUrl;
+			}
+			return archivedUrl;
+		} catch (error) {
+			console.error("Error extracting title from Ghostarchive:", error);
+			return archivedUrl;
+		}
+	}
+}
+
+// Any archive or aggregator that speaks Memento (RFC 7089), added by URL in settings: perma.cc, national web
+// archives, a local pywb instance. Lookups read the TimeMap and fall back to asking the TimeGate for the newest
+// memento. Mementos an aggregator finds on other archives are written with the archive link marker, since no
+// provider knows their host (see getArchiveLinkMarker).
+class MementoProvider implements ArchiveProvider {
+	readonly id: string;
+	readonly name: string;
+	readonly baseUrl: string;
+	readonly domains: string[];
+	readonly rateLimitDelay = 1000; // 1 second
+
+	constructor(private plugin: LinkArchiverPlugin, private config: MementoArchiveConfig) {
+		this.id = `memento:${config.name}`;
+		this.name = config.name;
+		const endpoints = [config.timeMapUrl, config.timeGateUrl].filter(Boolean).map(url => new URL(url));
+		this.baseUrl = endpoints[0].origin;
+		this.domains = Array.from(new Set(endpoints.map(url => url.hostname)));
+	}
+
+	async getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		let snapshots: ArchiveSnapshot[] = [];
+
+		if (this.config.timeMapUrl) {
+			const res = await requestUrl({
+				url: `${this.config.timeMapUrl}${originalUrl}`,
+				headers: { 'Accept': 'application/link-format' },
+				throw: false
+			});
+			// 404 means no mementos
+			if (res.status === 200) {
+				snapshots = parseLinkFormatMementos(res.text);
+			} else if (res.status !== 404) {
+				throw Object.assign(new Error(`${this.name} TimeMap returned status ${res.status}`), { status: res.status, text: res.text });
+			}
+		}
+
+		if (snapshots.length === 0 && this.config.timeGateUrl) {
+			snapshots = await this.queryTimeGate(originalUrl);
+		}
+
+		if (snapshots.length === 0 && this.plugin.settings.debugMode) {
+			console.log(`No ${this.name} mementos found`);
+		}
+
+		return snapshots.slice(0, this.plugin.settings.maxSnapshots || 5);
+	}
+
+	// The TimeGate redirects to the memento closest to Accept-Datetime. Redirects are usually followed, so
+	// the memento comes from the Link header the archive sends with it.
+	private async queryTimeGate(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		const res = await requestUrl({
+			url: `${this.config.timeGateUrl}${originalUrl}`,
+			headers: { 'Accept-Datetime': new Date().toUTCString() },
+			throw: false
+		});
+		if (res.status === 404) {
+			return [];
+		}
+		if (res.status >= 400) {
+			throw Object.assign(new Error(`${this.name} TimeGate returned status ${res.status}`), { status: res.status, text: res.text });
+		}
+
+		const snapshots = parseLinkFormatMementos(res.headers["link"] || res.headers["Link"] || "");
+		const location = res.headers["location"] || res.headers["Location"];
+		if (location && !snapshots.some(snapshot => snapshot.url === location)) {
+			snapshots.unshift({ url: location, timestamp: location.match(/\/(\d{14})[a-z_]*\//)?.[1] || "" });
+		}
+		return snapshots;
+	}
+
+	// Memento has no way to create snapshots; this opens the archive itself
+	getSaveUrl(originalUrl: string): string {
+		return this.baseUrl;
+	}
+
+	getLookupUrl(originalUrl: string): string {
+		return `${this.config.timeMapUrl || this.config.timeGateUrl}${originalUrl}`;
+	}
+
+	isArchiveUrl(url: string): boolean {
+		try {
+			return this.domains.includes(new URL(url).hostname);
+		} catch {
+			return false;
+		}
+	}
+
+	isSnapshotUrl(url: string): boolean {
+		const endpoints = [this.config.timeMapUrl, this.config.timeGateUrl].filter(Boolean);
+		return this.isArchiveUrl(url) && !endpoints.some(endpoint => url.startsWith(endpoint));
+	}
+
+	cleanTitle(title: string): string {
+		return title.trim();
+	}
+}
+
+// archive.today (archive.ph and its mirrors). Lookups use the Memento timemap, which archive.today often
+// answers with a CAPTCHA page instead; the caller then hands the lookup to the browser (CaptchaHandoffModal).
+class ArchiveTodayProvider implements ArchiveProvider {
+	readonly id = "archive.today";
+	readonly name = "archive.today";
+	readonly baseUrl = "https://archive.ph";
+	readonly domains = ARCHIVE_TODAY_DOMAINS;
+	readonly rateLimitDelay = 2000; // 2 seconds
+
+	constructor(private plugin: LinkArchiverPlugin) {}
+
+	async getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		const res = await requestUrl({
+			url: `${this.baseUrl}/timemap/${originalUrl}`,
+			headers: {
+				'Accept': 'application/link-format,text/plain;q=0.9,*/*;q=0.8',
+				'Accept-Language': 'en-US,en;q=0.5'
+			},
+			throw: false
+		});
+
+		// No snapshots
+		if (res.status === 404) {
+			return [];
+		}
+		// Hand CAPTCHA pages and other failures to classifyArchiveError
+		if (res.status !== 200 || /captcha/i.test(res.text)) {
+			throw Object.assign(new Error(`${this.name} timemap returned status ${res.status}`), { status: res.status, text: res.text });
+		}
+
+		const snapshots = parseLinkFormatMementos(res.text);
+
+		if (snapshots.length === 0 && this.plugin.settings.debugMode) {
+			console.log(`No archive.today snapshots found`);
+		}
+
+		return snapshots.slice(0, this.plugin.settings.maxSnapshots || 5);
+	}
+
+	getSaveUrl(originalUrl: string): string {
+		return `${this.baseUrl}/?url=${encodeURIComponent(originalUrl)}`;
+	}
+
+	// Redirects to the newest snapshot, or lists none
+	getLookupUrl(originalUrl: string): string {
+		return `${this.baseUrl}/newest/${originalUrl}`;
+	}
+
+	isArchiveUrl(url: string): boolean {
+		try {
+			return this.domains.includes(new URL(url).hostname.replace(/^www\./, ''));
+		} catch {
+			return false;
+		}
+	}
+
+	// Short codes (archive.ph/AbC12) or dated snapshots (archive.ph/20240115093000/https://...)
+	isSnapshotUrl(url: string): boolean {
+		if (!this.isArchiveUrl(url)) {
+			return false;
+		}
+		const path = new URL(url).pathname;
+		return !/^\/(newest|oldest|timemap|timegate|submit|wip)\b/.test(path) &&
+			/^\/([a-zA-Z0-9]{4,10}|\d{8,14}\/.+)$/.test(path);
+	}
+
+	cleanTitle(title: string): string {
+		return title.replace(/\s*[-|]\s*archive\.(ph|today|is|li|md|vn)\s*$/i, '').trim();
+	}
+}
+
+// Base for the self-hosted archives added in settings (ArchiveBox, pywb, Wallabag). Requests go to the backend's
+// API with the configured token. A capture submits the URL, then waits for a snapshot that wasn't there before.
+abstract class SelfHostedProvider implements ArchiveProvider {
+	private static readonly POLL_INTERVAL = 5000; // 5 seconds
+	private static readonly MAX_WAIT = 3 * 60 * 1000; // 3 minutes
+
+	readonly id: string;
+	readonly name: string;
+	readonly baseUrl: string;
+	readonly domains: string[];
+	readonly rateLimitDelay = 500; // 0.5 seconds, it's our own server
+
+	constructor(protected plugin: LinkArchiverPlugin, protected config: SelfHostedArchiveConfig) {
+		this.id = `${config.kind}:${config.name}`;
+		this.name = config.name;
+		this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+		this.domains = [new URL(this.baseUrl).hostname];
+	}
+
+	abstract getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]>;
+	abstract getSaveUrl(originalUrl: string): string;
+	abstract isSnapshotUrl(url: string): boolean;
+	// Ask the backend to archive originalUrl. Resolves to the snapshot URL when the backend returns it right away.
+	protected abstract submit(originalUrl: string): Promise<string | null>;
+
+	async capture(originalUrl: string): Promise<string> {
+		const existing = new Set((await this.getSnapshots(originalUrl)).map(snapshot => snapshot.url));
+		await this.plugin.waitForArchiveService(this.id);
+		const snapshotUrl = await this.submit(originalUrl);
+		if (snapshotUrl) {
+			return snapshotUrl;
+		}
+		if (this.plugin.settings.debugMode) {
+			console.log(`${this.name}: submitted ${originalUrl}`);
+		}
+
+		const deadline = Date.now() + SelfHostedProvider.MAX_WAIT;
+		while (Date.now() < deadline) {
+			await new Promise(resolve => setTimeout(resolve, SelfHostedProvider.POLL_INTERVAL));
+
+			await this.plugin.waitForArchiveService(this.id);
+			const snapshot = (await this.getSnapshots(originalUrl)).find(snapshot => !existing.has(snapshot.url));
+			if (snapshot) {
+				return snapshot.url;
+			}
+		}
+
+		throw new Error(`${this.name} timeout: capture did not finish in time`);
+	}
+
+	isArchiveUrl(url: string): boolean {
+		return url.startsWith(`${this.baseUrl}/`);
+	}
+
+	cleanTitle(title: string): string {
+		return title.trim();
+	}
+
+	// Call the backend at path (relative to the base URL). 404 is left to the caller; other failures throw for classifyArchiveError.
+	protected async request(path: string, options: { method?: string, body?: Record<string, unknown>, accept?: string } = {}): Promise<RequestUrlResponse> {
+		const headers: Record<string, string> = { 'Accept': options.accept || 'application/json' };
+		if (this.config.apiToken) {
+			headers['Authorization'] = `Bearer ${this.config.apiToken}`;
+		}
+
+		const res = await requestUrl({
+			url: `${this.baseUrl}${path}`,
+			method: options.method || "GET",
+			headers,
+			contentType: options.body ? "application/json" : undefined,
+			body: options.body ? JSON.stringify(options.body) : undefined,
+			throw: false
+		});
+
+		if (res.status === 401 || res.status === 403) {
+			throw new Error(`${this.name} rejected the API token`);
+		}
+		if (res.status >= 400 && res.status !== 404) {
+			throw Object.assign(new Error(`${this.name} returned status ${res.status}`), { status: res.status, text: res.text });
+		}
+		return res;
+	}
+
+	protected limitSnapshots(snapshots: ArchiveSnapshot[]): ArchiveSnapshot[] {
+		if (snapshots.length === 0 && this.plugin.settings.debugMode) {
+			console.log(`No ${this.name} snapshots found`);
+		}
+		return snapshots
+			.sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+			.slice(0, this.plugin.settings.maxSnapshots || 5);
+	}
+}
+
+// ArchiveBox 0.8+ REST API. Snapshots are listed by URL; /cli/add archives a URL and records a new snapshot.
+class ArchiveBoxProvider extends SelfHostedProvider {
+	async getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		const limit = this.plugin.settings.maxSnapshots || 5;
+		const res = await this.request(`/api/v1/core/snapshots?url=${encodeURIComponent(originalUrl)}&limit=${limit}`);
+		if (res.status === 404) {
+			return [];
+		}
+
+		const data: ArchiveBoxSnapshot[] | { items?: ArchiveBoxSnapshot[] } | null = res.json;
+		const items = Array.isArray(data) ? data : (data?.items || []);
+		return this.limitSnapshots(items
+			.filter((item): item is ArchiveBoxSnapshot & { timestamp: string } => !!item?.timestamp && (!item.url || item.url === originalUrl))
+			.map(item => ({
+				url: `${this.baseUrl}/archive/${item.timestamp}/`,
+				timestamp: new Date(parseFloat(item.timestamp) * 1000).toISOString(),
+				title: item.title || undefined
+			})));
+	}
+
+	protected async submit(originalUrl: string): Promise<string | null> {
+		await this.request("/api/v1/cli/add", {
+			method: "POST",
+			body: { urls: [originalUrl], depth: 0, update: false, tag: "" }
+		});
+		return null;
+	}
+
+	getSaveUrl(originalUrl: string): string {
+		return `${this.baseUrl}/add/`;
+	}
+
+	getLookupUrl(originalUrl: string): string {
+		return `${this.baseUrl}/public/?q=${encodeURIComponent(originalUrl)}`;
+	}
+
+	isSnapshotUrl(url: string): boolean {
+		return this.isArchiveUrl(url) && /^\/archive\/\d+(\.\d+)?(\/|$)/.test(new URL(url).pathname);
+	}
+}
+
+// pywb collection. Lookups use the collection's CDX index; captures fetch the page through the collection's
+// record mode, which has to be enabled in the pywb config (recorder: live).
+class PywbProvider extends SelfHostedProvider {
+	private get collectionUrl(): string {
+		return `${this.baseUrl}/${this.config.collection || "my-web-archive"}`;
+	}
+
+	async getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		const collection = this.config.collection || "my-web-archive";
+		const res = await this.request(`/${collection}/cdx?url=${encodeURIComponent(originalUrl)}&output=json`);
+		if (res.status === 404) {
+			return [];
+		}
+
+		// One JSON object per line
+		const snapshots: ArchiveSnapshot[] = [];
+		for (const line of res.text.split('\n')) {
+			let row: PywbCdxRow | null;
+			try {
+				row = JSON.parse(line);
+			} catch {
+				continue;
+			}
+			if (!row?.timestamp || (row.status && !/^(2\d\d|-)$/.test(row.status))) {
+				continue;
+			}
+			const url = `${this.collectionUrl}/${row.timestamp}/${originalUrl}`;
+			if (!snapshots.some(snapshot => snapshot.url === url)) {
+				snapshots.push({ url, timestamp: row.timestamp });
+			}
+		}
+		return this.limitSnapshots(snapshots);
+	}
+
+	protected async submit(originalUrl: string): Promise<string | null> {
+		await this.request(`/${this.config.collection || "my-web-archive"}/record/${originalUrl}`, { accept: "text/html" });
+		return null;
+	}
+
+	// Opening the record URL in a browser records the page
+	getSaveUrl(originalUrl: string): string {
+		return `${this.collectionUrl}/record/${originalUrl}`;
+	}
+
+	getLookupUrl(originalUrl: string): string {
+		return `${this.collectionUrl}/*/${originalUrl}`;
+	}
+
+	isSnapshotUrl(url: string): boolean {
+		return url.startsWith(`${this.collectionUrl}/`) && /^\/\d{14}[a-z_]*\//.test(url.slice(this.collectionUrl.length));
+	}
+
+	// pywb understands the Wayback id_ modifier
+	getRawSnapshotUrl(snapshotUrl: string): string {
+		return snapshotUrl.replace(/^(.*?\/\d{14})[a-z_]*\//, '$1id_/');
+	}
+}
+
+// Wallabag read-it-later server. Each URL has at most one entry, which is the snapshot; adding an entry fetches the page.
+class WallabagProvider extends SelfHostedProvider {
+	async getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		const res = await this.request(`/api/entries/exists.json?url=${encodeURIComponent(originalUrl)}&return_id=1`);
+		if (res.status === 404) {
+			return [];
+		}
+		const id = res.json?.exists;
+		if (typeof id !== "number") {
 			return [];
+		}
+
+		const entryRes = await this.request(`/api/entries/${id}.json`);
+		const entry: WallabagEntry | null = entryRes.status === 404 ? null : entryRes.json;
+		return [{
+			url: `${this.baseUrl}/view/${id}`,
+			timestamp: entry?.created_at || "",
+			title: entry?.title || undefined
+		}];
+	}
+
+	// Wallabag answers with the saved entry
+	protected async submit(originalUrl: string): Promise<string | null> {
+		const res = await this.request("/api/entries.json", { method: "POST", body: { url: originalUrl } });
+		const entry: WallabagEntry | null = res.status === 404 ? null : res.json;
+		if (!entry?.id) {
+			throw new Error(`${this.name} did not save the page: HTTP ${res.status}`);
+		}
+		return `${this.baseUrl}/view/${entry.id}`;
+	}
+
+	getSaveUrl(originalUrl: string): string {
+		return `${this.baseUrl}/bookmarklet?url=${encodeURIComponent(originalUrl)}`;
+	}
+
+	isSnapshotUrl(url: string): boolean {
+		return this.isArchiveUrl(url) && /^\/view\/\d+\/?$/.test(new URL(url).pathname);
+	}
+}
+
+function createSelfHostedProvider(plugin: LinkArchiverPlugin, config: SelfHostedArchiveConfig): SelfHostedProvider {
+	switch (config.kind) {
+		case "archivebox":
+			return new ArchiveBoxProvider(plugin, config);
+		case "pywb":
+			return new PywbProvider(plugin, config);
+		case "wallabag":
+			return new WallabagProvider(plugin, config);
+	}
+}
+
+// Copies of pages saved into the vault by saveLocalCopy. Always registered, so links to local copies count as
+// archive links; enabled as a service, lookups list the copies of a page already in the local copy folder.
+class LocalCopyProvider implements ArchiveProvider {
+	readonly id = "local-copy";
+	readonly name = "Local copy";
+	readonly baseUrl = "";
+	// Not served from the web
+	readonly domains: string[] = [];
+	readonly rateLimitDelay = 0;
+
+	constructor(private plugin: LinkArchiverPlugin) {}
+
+	private get folder(): string {
+		return normalizePath(this.plugin.settings.localCopyFolder);
+	}
+
+	async getSnapshots(originalUrl: string): Promise<ArchiveSnapshot[]> {
+		const key = getLocalCopyKey(originalUrl);
+		return this.plugin.app.vault.getFiles()
+			.filter(file => this.isArchiveUrl(file.path) && file.path.match(LOCAL_COPY_FILE_NAME)?.[1] === key)
+			.map(file => ({ url: file.path, timestamp: file.path.match(LOCAL_COPY_FILE_NAME)![2] }))
+			.sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+			.slice(0, this.plugin.settings.maxSnapshots || 5);
+	}
+
+	// There's no save page; "Save Local Copy" in the prompt makes one
+	getSaveUrl(originalUrl: string): string {
+		return originalUrl;
+	}
+
+	isArchiveUrl(url: string): boolean {
+		return url.startsWith(`${this.folder}/`);
+	}
 
-		} catch (error) {
-			console.error(`GhostArchiveArchiver: error checking direct URL: ${error}`);
-			return [];
-		}
+	isSnapshotUrl(url: string): boolean {
+		return this.isArchiveUrl(url) && LOCAL_COPY_FILE_NAME.test(url);
 	}
 
-	async extractTitle(archivedUrl: string): Promise<string> {
-		try {
-			const response = await requestUrl({
-				url: archivedUrl,
-				headers: {
-					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
-				}
-			});
-			
-			if (response.status === 200) {
-				const $ = cheerio.load(response.text);
-				let title = $('title').text().trim();
-				// Remove Ghostarchive suffix
-				title = title.replace(/\s*\|\s*Ghostarchive\s*$/, '');
-				return title || archivedUrl;
-			}
-			return archivedUrl;
-		} catch (error) {
-			console.error("Error extracting title from Ghostarchive:", error);
-			return archivedUrl;
-		}
+	cleanTitle(title: string): string {
+		return title.trim();
 	}
 }
 // Settings
@@ -3684,20 +8525,192 @@ display(): void {
   // General Settings
   generalContent.createEl("h3", { text: "Link Archiver Settings" });
   
-  // Archive site selection
-  new Setting(generalContent)
-    .setName("Archive site")
-    .setDesc("Choose which archive service to use. Note: archive.today variants have been removed due to CAPTCHA requirements. GhostArchive may also require CAPTCHA verification. Wayback Machine (web.archive.org) is recommended.")
-    .addDropdown((dropdown) => {
-      Object.keys(ARCHIVE_SITES).forEach(site => {
-        dropdown.addOption(site, site);
-      });
-      dropdown.setValue(this.plugin.settings.archiveSite)
-        .onChange(async (value) => {
-          this.plugin.settings.archiveSite = value;
+  // Archive service selection and priority
+  generalContent.createEl("h5", { text: "Archive Services" });
+  generalContent.createEl("p", {
+    text: "Enabled services are queried in order; the first one with a snapshot wins. archive.today and GhostArchive often ask for a CAPTCHA; when archive.today does, \"Archive link at cursor\" opens the page so you can solve it and bring the snapshot URL back. Wayback Machine (web.archive.org) is recommended first.",
+    cls: "setting-item-description"
+  });
+
+  const enabledServices = this.plugin.settings.archiveServices;
+  const disabledProviders = this.plugin.getArchiveProviders().filter(provider => !enabledServices.includes(provider.id));
+
+  enabledServices.forEach((serviceId, index) => {
+    new Setting(generalContent)
+      .setName(`${index + 1}. ${serviceId}`)
+      .addExtraButton((button) =>
+        button
+          .setIcon("arrow-up")
+          .setTooltip("Move up")
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            if (index === 0) return;
+            enabledServices.splice(index - 1, 0, enabledServices.splice(index, 1)[0]);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("arrow-down")
+          .setTooltip("Move down")
+          .setDisabled(index === enabledServices.length - 1)
+          .onClick(async () => {
+            if (index === enabledServices.length - 1) return;
+            enabledServices.splice(index + 1, 0, enabledServices.splice(index, 1)[0]);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(true).onChange(async () => {
+          if (enabledServices.length === 1) {
+            new Notice("At least one archive service must stay enabled.");
+            toggle.setValue(true);
+            return;
+          }
+          enabledServices.splice(index, 1);
           await this.plugin.saveSettings();
-        });
-    });
+          this.display();
+        })
+      );
+  });
+
+  disabledProviders.forEach((provider) => {
+    new Setting(generalContent)
+      .setName(provider.id)
+      .setDesc("Disabled")
+      .addToggle((toggle) =>
+        toggle.setValue(false).onChange(async () => {
+          enabledServices.push(provider.id);
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+  });
+
+  // Memento archives, added by URL
+  generalContent.createEl("p", {
+    text: "Memento archives: any archive or aggregator that supports Memento (RFC 7089), such as perma.cc, a national web archive or a local pywb instance. Enter the TimeMap URL prefix and/or the TimeGate URL prefix; the original URL is appended to them. Added archives appear above as services you can enable.",
+    cls: "setting-item-description"
+  });
+
+  const mementoArchives = this.plugin.settings.mementoArchives;
+  mementoArchives.forEach((config, index) => {
+    new Setting(generalContent)
+      .setName(config.name)
+      .setDesc([config.timeMapUrl, config.timeGateUrl].filter(Boolean).join(" · "))
+      .setClass("setting-indent")
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Remove")
+          .onClick(async () => {
+            mementoArchives.splice(index, 1);
+            this.plugin.registerConfiguredProviders();
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  });
+
+  const draft: MementoArchiveConfig = { name: "", timeMapUrl: "", timeGateUrl: "" };
+  new Setting(generalContent)
+    .setName("Add Memento archive")
+    .setClass("setting-indent")
+    .addText((text) => text.setPlaceholder("Name").onChange((value) => draft.name = value.trim()))
+    .addText((text) => text.setPlaceholder("TimeMap URL prefix").onChange((value) => draft.timeMapUrl = value.trim()))
+    .addText((text) => text.setPlaceholder("TimeGate URL prefix").onChange((value) => draft.timeGateUrl = value.trim()))
+    .addButton((button) =>
+      button.setButtonText("Add").onClick(async () => {
+        const urls = [draft.timeMapUrl, draft.timeGateUrl].filter(Boolean);
+        if (!draft.name || urls.length === 0 || !urls.every(isHttpUrl)) {
+          new Notice("Give the archive a name and a valid TimeMap or TimeGate URL starting with http:// or https://.");
+          return;
+        }
+        if (this.plugin.getArchiveProviders().some(provider => provider.name === draft.name || provider.id === draft.name)) {
+          new Notice(`There is already an archive service called ${draft.name}.`);
+          return;
+        }
+        mementoArchives.push({ ...draft });
+        this.plugin.registerConfiguredProviders();
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+  // Self-hosted archives, reached through their APIs
+  generalContent.createEl("p", {
+    text: "Self-hosted archives: an ArchiveBox server, a pywb collection or a Wallabag server you run. Lookups and captures go through the backend's API with the token (an ArchiveBox API key, a Wallabag OAuth access token, or whatever a proxy in front of pywb expects). pywb captures need record mode enabled for the collection. When a self-hosted archive is enabled it captures missing links instead of Save Page Now.",
+    cls: "setting-item-description"
+  });
+
+  const selfHostedArchives = this.plugin.settings.selfHostedArchives;
+  selfHostedArchives.forEach((config, index) => {
+    new Setting(generalContent)
+      .setName(config.name)
+      .setDesc([SELF_HOSTED_ARCHIVE_KINDS[config.kind], config.baseUrl, config.kind === "pywb" ? config.collection : ""].filter(Boolean).join(" · "))
+      .setClass("setting-indent")
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Remove")
+          .onClick(async () => {
+            selfHostedArchives.splice(index, 1);
+            this.plugin.registerConfiguredProviders();
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  });
+
+  const selfHostedDraft: SelfHostedArchiveConfig = { kind: "archivebox", name: "", baseUrl: "", apiToken: "", collection: "" };
+  new Setting(generalContent)
+    .setName("Add self-hosted archive")
+    .setClass("setting-indent")
+    .addDropdown((dropdown) =>
+      dropdown
+        .addOptions(SELF_HOSTED_ARCHIVE_KINDS)
+        .setValue(selfHostedDraft.kind)
+        .onChange((value) => selfHostedDraft.kind = value as SelfHostedArchiveKind)
+    )
+    .addText((text) => text.setPlaceholder("Name").onChange((value) => selfHostedDraft.name = value.trim()))
+    .addText((text) => text.setPlaceholder("Base URL").onChange((value) => selfHostedDraft.baseUrl = value.trim().replace(/\/+$/, '')))
+    .addText((text) => {
+      text.inputEl.type = "password";
+      text.setPlaceholder("API token").onChange((value) => selfHostedDraft.apiToken = value.trim());
+    })
+    .addText((text) => text.setPlaceholder("Collection (pywb)").onChange((value) => selfHostedDraft.collection = value.trim()))
+    .addButton((button) =>
+      button.setButtonText("Add").onClick(async () => {
+        if (!selfHostedDraft.name || !isHttpUrl(selfHostedDraft.baseUrl)) {
+          new Notice("Give the archive a name and a valid base URL starting with http:// or https://.");
+          return;
+        }
+        if (selfHostedDraft.kind === "pywb" && !selfHostedDraft.collection) {
+          new Notice("pywb archives need the name of the collection.");
+          return;
+        }
+        if (this.plugin.getArchiveProviders().some(provider => provider.name === selfHostedDraft.name || provider.id === selfHostedDraft.name)) {
+          new Notice(`There is already an archive service called ${selfHostedDraft.name}.`);
+          return;
+        }
+        selfHostedArchives.push({ ...selfHostedDraft });
+        this.plugin.registerConfiguredProviders();
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+  new Setting(generalContent)
+    .setName("Query services in parallel")
+    .setDesc("Ask every enabled service at once instead of one after another. Faster, but sends more requests.")
+    .addToggle((toggle) =>
+      toggle.setValue(this.plugin.settings.queryServicesInParallel).onChange(async (value) => {
+        this.plugin.settings.queryServicesInParallel = value;
+        await this.plugin.saveSettings();
+      })
+    );
   
   // Show ribbon icon
   new Setting(generalContent)
@@ -3742,6 +8755,21 @@ display(): void {
       });
     }
 
+  new Setting(generalContent)
+    .setName("Archive link placement")
+    .setDesc("Where archive links go. Inline puts them after the original link; footnote adds a numbered footnote (\"[^a1]: Archived at ...\") at the end of the note; frontmatter records them in an \"archives\" property mapping each URL to its snapshot and date. Divider, archive text, marker and custom format only apply to inline archive links.")
+    .addDropdown((dropdown) =>
+      dropdown
+        .addOption("inline", "Inline")
+        .addOption("footnote", "Footnote")
+        .addOption("frontmatter", "Frontmatter")
+        .setValue(this.plugin.settings.archivePlacement)
+        .onChange(async (value) => {
+          this.plugin.settings.archivePlacement = value as ArchivePlacement;
+          await this.plugin.saveSettings();
+        })
+    );
+
   new Setting(generalContent)
     .setName("Divider text")
     .setDesc("Text to place between the original link and the archive link.")
@@ -3767,6 +8795,80 @@ display(): void {
         })
     );
   
+  new Setting(generalContent)
+    .setName("Mark archive links")
+    .setDesc(`Add an invisible ${ARCHIVE_LINK_MARKER} comment after each archive link. Marked links are recognised whatever divider they were written with, so changing the divider doesn't orphan them. Use "Convert existing archive links to marked format" to mark links added before.`)
+    .addToggle((toggle) =>
+      toggle.setValue(this.plugin.settings.markArchiveLinks).onChange(async (value) => {
+        this.plugin.settings.markArchiveLinks = value;
+        await this.plugin.saveSettings();
+      })
+    );
+  
+  new Setting(generalContent)
+    .setName("Use custom format")
+    .setDesc("Write archived links from a template instead of the divider and archive text.")
+    .addToggle((toggle) =>
+      toggle.setValue(this.plugin.settings.useCustomFormat).onChange(async (value) => {
+        this.plugin.settings.useCustomFormat = value;
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+  if (this.plugin.settings.useCustomFormat) {
+    const templateSetting = new Setting(generalContent)
+      .setName("Format template")
+      .setDesc(createFragment((fragment) => {
+        fragment.appendText("Placeholders: {original} and {archived} (the links as the settings below would write them), {title}, {url}, {archiveUrl}, {service}, {domain} and {timestamp}. ");
+        fragment.appendText(`{timestamp} uses ${DEFAULT_TIMESTAMP_FORMAT}; give a moment.js format for another, e.g. {timestamp:D MMM YYYY}.`);
+      }))
+      .setClass("setting-indent")
+      .addTextArea((text) =>
+        text.setValue(this.plugin.settings.customFormat)
+          .setPlaceholder("{original} | {archived}")
+          .onChange(async (value) => {
+            this.plugin.settings.customFormat = value;
+            await this.plugin.saveSettings();
+            updatePreview();
+          })
+      );
+
+    // Live preview with example values
+    const previewEl = templateSetting.descEl.createEl("div", { cls: "format-template-preview" });
+    const warningEl = templateSetting.descEl.createEl("div", { cls: "mod-warning" });
+    const updatePreview = () => {
+      const preview = this.plugin.renderArchiveTemplate(this.plugin.settings.customFormat, {
+        original: "[Example Page](https://example.com/page)",
+        archived: `[${this.plugin.settings.archiveText}](https://web.archive.org/web/20240115093000/https://example.com/page)`,
+        title: "Example Page",
+        url: "https://example.com/page",
+        archiveUrl: "https://web.archive.org/web/20240115093000/https://example.com/page",
+        service: "Wayback Machine",
+        domain: "example.com",
+        timestamp: "20240115093000"
+      });
+      previewEl.setText(`Preview: ${preview}`);
+
+      // Check that a link written with the template reads back as archived, or batch runs would archive it again
+      const recognised = this.plugin.pairArchiveLinks(`${preview}${ARCHIVE_LINK_MARKER}`).some(pair =>
+        pair.link.originalUrl === "https://example.com/page" && pair.companion?.originalUrl.startsWith("https://web.archive.org/"));
+      warningEl.setText(recognised ? "" : "Links written with this template won't be recognised as archived: the template needs the original link followed by the archive link, e.g. {original} and then {archived}.");
+    };
+    updatePreview();
+
+    new Setting(generalContent)
+      .setName("Keep HTML links as HTML")
+      .setDesc("Archive <a> tags with an HTML archive link instead of the template.")
+      .setClass("setting-indent")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.respectOriginalFormat).onChange(async (value) => {
+          this.plugin.settings.respectOriginalFormat = value;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+  
   // Always show "Preserve markdown links" option first
   const preserveDescription = this.plugin.settings.useNakedUrls
     ? "Keep existing Markdown links as is. Note: This has no effect when 'Use naked URLs' is enabled."
@@ -3874,6 +8976,28 @@ if (!this.plugin.settings.autoPickLatestArchive) {
         })
       );
 
+    new Setting(generalContent)
+      .setName("Preview batch changes")
+      .setDesc("Show the line changes from batch archiving, archive link removal and naked URL conversion as a diff you can accept or reject before anything is written.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.previewBatchChanges).onChange(async (value) => {
+          this.plugin.settings.previewBatchChanges = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(generalContent)
+      .setName("Resume archive queue automatically")
+      .setDesc("Continue an interrupted archive queue or capture queue after the rate limit cooldown or when Obsidian restarts. When off, use the \"Resume archive queue\" and \"Resume capture queue\" commands.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.autoResumeArchiveJobs).onChange(async (value) => {
+          this.plugin.settings.autoResumeArchiveJobs = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    this.addNumberSetting(generalContent, "Rate limit cooldown", "Minutes to wait before resuming a job that was rate limited.", "rateLimitCooldownMinutes", 1, 24 * 60);
+
     // Title scraping settings
     generalContent.createEl("h5", { text: "Title Scraping Settings" });
 
@@ -3891,7 +9015,7 @@ if (!this.plugin.settings.autoPickLatestArchive) {
     if (this.plugin.settings.scrapePageTitles) {
       new Setting(generalContent)
         .setName("Enable title cache")
-        .setDesc("Cache page titles for 24 hours to improve performance and reduce network requests.")
+        .setDesc("Cache page titles to improve performance and reduce network requests. See Cache Settings for how long they are kept.")
         .setClass("setting-indent")
         .addToggle((toggle) =>
           toggle.setValue(this.plugin.settings.enableTitleCache).onChange(async (value) => {
@@ -3920,6 +9044,213 @@ if (!this.plugin.settings.autoPickLatestArchive) {
         );
     }
 
+    // Cache settings
+    generalContent.createEl("h5", { text: "Cache Settings" });
+
+    new Setting(generalContent)
+      .setName("Keep cache between sessions")
+      .setDesc("Save archive lookups and page titles to the plugin folder so restarts don't repeat requests.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.persistCache).onChange(async (value) => {
+          this.plugin.settings.persistCache = value;
+          await this.plugin.saveSettings();
+          if (value) {
+            await this.plugin.saveCaches();
+          } else {
+            await this.plugin.deleteCacheFile();
+          }
+        })
+      );
+
+    this.addNumberSetting(generalContent, "Snapshot lookups TTL", "Hours to remember a URL's snapshots.", "archiveCacheTtlHours", 1, 24 * 365);
+    this.addNumberSetting(generalContent, "Missing snapshot TTL", "Hours to remember that a URL had no snapshots. Keep this short so new snapshots are picked up.", "archiveCacheNegativeTtlHours", 0, 24 * 30);
+    this.addNumberSetting(generalContent, "Maximum cached lookups", "Oldest lookups are dropped beyond this many entries.", "archiveCacheMaxEntries", 1, 100000);
+    this.addNumberSetting(generalContent, "Title cache TTL", "Hours to remember a page title.", "titleCacheTtlHours", 1, 24 * 365);
+    this.addNumberSetting(generalContent, "Maximum cached titles", "Oldest titles are dropped beyond this many entries.", "titleCacheMaxEntries", 1, 100000);
+
+    new Setting(generalContent)
+      .setName("Manage cache")
+      .setDesc("Inspect, prune or clear the cache. Also available from the command palette.")
+      .addButton((button) =>
+        button.setButtonText("Open").onClick(() => {
+          new CacheStatsModal(this.app, this.plugin).open();
+        })
+      );
+
+    // Link index settings
+    generalContent.createEl("h5", { text: "Link Index" });
+
+    new Setting(generalContent)
+      .setName("Maintain link index")
+      .setDesc("Keep a file listing every URL in the vault with its snapshots, the notes linking to it and when it was last looked up. Updated whenever the plugin archives or removes links; use the \"Rebuild link index\" command to catch up with edits made by hand.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.maintainLinkIndex).onChange(async (value) => {
+          this.plugin.settings.maintainLinkIndex = value;
+          await this.plugin.saveSettings();
+          if (value) {
+            await this.plugin.rebuildLinkIndex();
+          }
+          this.display(); // Refresh to show/hide dependent settings
+        })
+      );
+
+    if (this.plugin.settings.maintainLinkIndex) {
+      new Setting(generalContent)
+        .setName("Link index file")
+        .setDesc("Vault path of the index. A .json path gets JSON; anything else gets a markdown table.")
+        .setClass("setting-indent")
+        .addText((text) =>
+          text.setValue(this.plugin.settings.linkIndexPath)
+            .setPlaceholder(DEFAULT_SETTINGS.linkIndexPath)
+            .onChange(async (value) => {
+              this.plugin.settings.linkIndexPath = value.trim() || DEFAULT_SETTINGS.linkIndexPath;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Link health settings
+    generalContent.createEl("h5", { text: "Link Health" });
+
+    new Setting(generalContent)
+      .setName("Check link health when archiving")
+      .setDesc("After the archive lookups, request every original URL in the archived notes and report which are alive, redirected, not found (404/410), soft 404s or on domains that no longer resolve. \"Archive and check link health in current note\" does this for one note whatever this setting says.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.checkLinkHealth).onChange(async (value) => {
+          this.plugin.settings.checkLinkHealth = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(generalContent)
+      .setName("Swap dead links to archive automatically")
+      .setDesc("Rewrite dead links so the archive link comes first and the original follows it, instead of offering the swap in the archive report. Only links with an inline archive link, or one found by the run, are swapped.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.autoSwapDeadLinks).onChange(async (value) => {
+          this.plugin.settings.autoSwapDeadLinks = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Snapshot freshness settings
+    generalContent.createEl("h5", { text: "Snapshot Freshness" });
+
+    this.addNumberSetting(generalContent, "Stale snapshot age", "Days after which \"Refresh stale archive links\" looks for a newer snapshot of an archive link, or offers to capture one.", "staleSnapshotDays", 1, 365 * 50);
+
+    // Save Page Now settings
+    generalContent.createEl("h5", { text: "Save Page Now" });
+
+    new Setting(generalContent)
+      .setName("Capture automatically with Save Page Now")
+      .setDesc("When no snapshot exists, submit the page to the Wayback Machine's Save Page Now API and insert the finished snapshot, instead of opening the save page in a browser. Requires archive.org access keys.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.useSavePageNowApi).onChange(async (value) => {
+          this.plugin.settings.useSavePageNowApi = value;
+          await this.plugin.saveSettings();
+          this.display(); // Refresh to show/hide dependent settings
+        })
+      );
+
+    if (this.plugin.settings.useSavePageNowApi) {
+      const keysDesc = createFragment((frag) => {
+        frag.appendText("Your S3-like API keys from ");
+        frag.createEl("a", { text: "archive.org/account/s3.php", href: "https://archive.org/account/s3.php" });
+        frag.appendText(". Stored in this vault's plugin data.");
+      });
+
+      new Setting(generalContent)
+        .setName("Access key")
+        .setDesc(keysDesc)
+        .setClass("setting-indent")
+        .addText((text) =>
+          text.setValue(this.plugin.settings.spnAccessKey)
+            .onChange(async (value) => {
+              this.plugin.settings.spnAccessKey = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(generalContent)
+        .setName("Secret key")
+        .setClass("setting-indent")
+        .addText((text) => {
+          text.inputEl.type = "password";
+          text.setValue(this.plugin.settings.spnSecretKey)
+            .onChange(async (value) => {
+              this.plugin.settings.spnSecretKey = value.trim();
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    // Local copies
+    generalContent.createEl("h5", { text: "Local Copies" });
+
+    new Setting(generalContent)
+      .setName("Local copy folder")
+      .setDesc("Vault folder for local copies of pages, saved with \"Save local copy of link at cursor\" or from the no-snapshot prompt. The link then reads \"link | (local copy)\" and points at the file. Notes in this folder are never archived.")
+      .addText((text) =>
+        text.setValue(this.plugin.settings.localCopyFolder)
+          .setPlaceholder(DEFAULT_SETTINGS.localCopyFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.localCopyFolder = normalizePath(value.trim() || DEFAULT_SETTINGS.localCopyFolder);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(generalContent)
+      .setName("Local copy format")
+      .setDesc("HTML keeps the page as it looks, with styles and images inlined into one file. Readable markdown keeps only the main text, as a note you can search.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("html", "Single-file HTML")
+          .addOption("markdown", "Readable markdown")
+          .setValue(this.plugin.settings.localCopyFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.localCopyFormat = value as LocalCopyFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(generalContent)
+      .setName("Save local copies when capturing fails")
+      .setDesc("When a link has no snapshot and no capture service is set up, or the capture fails, save a local copy instead.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.localCopyFallback).onChange(async (value) => {
+          this.plugin.settings.localCopyFallback = value;
+          await this.plugin.saveSettings();
+          this.display(); // Refresh to show/hide the capture queue setting
+        })
+      );
+
+    // Self-hosted archives and local copies can capture too, so this doesn't depend on Save Page Now being on
+    if (this.plugin.settings.useSavePageNowApi || this.plugin.settings.selfHostedArchives.length > 0 || this.plugin.settings.localCopyFallback) {
+      new Setting(generalContent)
+        .setName("Capture missing links after batch runs")
+        .setDesc("When archiving a note or the vault, queue links without any snapshot for capture (by an enabled self-hosted archive, otherwise Save Page Now, otherwise as local copies) and insert the snapshots as captures finish.")
+        .addToggle((toggle) =>
+          toggle.setValue(this.plugin.settings.queueCapturesForMissing).onChange(async (value) => {
+            this.plugin.settings.queueCapturesForMissing = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    // Clips
+    generalContent.createEl("h5", { text: "Clips" });
+
+    new Setting(generalContent)
+      .setName("Clip folder")
+      .setDesc("Vault folder for clip notes made with \"Clip archived link at cursor\": the main text of a snapshot, with its original URL, archive URL, capture date, title, author and site in the frontmatter. Notes in this folder are never archived.")
+      .addText((text) =>
+        text.setValue(this.plugin.settings.clipFolder)
+          .setPlaceholder(DEFAULT_SETTINGS.clipFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.clipFolder = normalizePath(value.trim() || DEFAULT_SETTINGS.clipFolder);
+            await this.plugin.saveSettings();
+          })
+      );
+
     // Exclusion Settings Tab Content
     exclusionContent.createEl("h3", { text: "Exclusion Rules" });
     
@@ -4006,4 +9337,26 @@ if (!this.plugin.settings.autoPickLatestArchive) {
       );
       
   }
+
+  // Whole-number setting validated against a range; invalid input is reverted
+  private addNumberSetting(containerEl: HTMLElement, name: string, desc: string, key: NumericSettingKey, min: number, max: number) {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .setClass("setting-indent")
+      .addText((text) =>
+        text
+          .setValue(this.plugin.settings[key].toString())
+          .onChange(async (value) => {
+            const numValue = parseInt(value);
+            if (!isNaN(numValue) && numValue >= min && numValue <= max) {
+              this.plugin.settings[key] = numValue;
+              await this.plugin.saveSettings();
+            } else {
+              new Notice(`Please enter a number between ${min} and ${max}`);
+              text.setValue(this.plugin.settings[key].toString());
+            }
+          })
+      );
+  }
 }
@@ -0,0 +1,174 @@
+// Stand-in for the self-hosted archive backends, for trying the ArchiveBox, pywb and Wallabag providers
+// without running them. One server answers the API calls of all three:
+//
+//   ArchiveBox  base URL http://localhost:8765
+//   pywb        base URL http://localhost:8765, collection "my-web-archive" (any name works)
+//   Wallabag    base URL http://localhost:8765
+//
+// Snapshots are kept in memory and only hold a placeholder page. Captures finish after CAPTURE_DELAY
+// milliseconds, so the plugin's polling is exercised. With API_TOKEN set, requests without that Bearer
+// token are rejected like a real backend would.
+//
+//   node scripts/self-hosted-stand-in.mjs
+//   PORT=9000 API_TOKEN=secret CAPTURE_DELAY=8000 node scripts/self-hosted-stand-in.mjs
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT ?? 8765);
+const API_TOKEN = process.env.API_TOKEN || "";
+const CAPTURE_DELAY = Number(process.env.CAPTURE_DELAY ?? 2000);
+
+// Original URL -> snapshots, oldest first
+const snapshots = new Map();
+let nextEntryId = 1;
+
+function addSnapshot(url) {
+	const date = new Date();
+	const snapshot = {
+		id: nextEntryId++,
+		date,
+		// ArchiveBox: Unix seconds; pywb: 14-digit Wayback timestamp
+		unixTimestamp: (date.getTime() / 1000).toFixed(3),
+		waybackTimestamp: date.toISOString().replace(/\D/g, "").slice(0, 14),
+		title: `Snapshot of ${url}`
+	};
+	snapshots.set(url, [...(snapshots.get(url) || []), snapshot]);
+	return snapshot;
+}
+
+function captureLater(url) {
+	setTimeout(() => {
+		addSnapshot(url);
+		console.log(`captured ${url}`);
+	}, CAPTURE_DELAY);
+}
+
+function findSnapshot(matches) {
+	for (const [url, list] of snapshots) {
+		const snapshot = list.find(matches);
+		if (snapshot) {
+			return { url, snapshot };
+		}
+	}
+	return null;
+}
+
+function send(res, status, body, type = "application/json") {
+	res.writeHead(status, { "Content-Type": type });
+	res.end(type === "application/json" ? JSON.stringify(body) : body);
+}
+
+function sendPage(res, url, snapshot) {
+	send(res, 200, `<!DOCTYPE html><html><head><title>${snapshot.title}</title></head>` +
+		`<body><article><h1>${snapshot.title}</h1><p>Captured from <a href="${url}">${url}</a> at ${snapshot.date.toISOString()}.</p></article></body></html>`,
+		"text/html");
+}
+
+function readBody(req) {
+	return new Promise((resolve) => {
+		let body = "";
+		req.on("data", chunk => body += chunk);
+		req.on("end", () => {
+			try {
+				resolve(body ? JSON.parse(body) : {});
+			} catch {
+				resolve({});
+			}
+		});
+	});
+}
+
+async function handle(req, res) {
+	const { pathname, searchParams } = new URL(req.url, `http://localhost:${PORT}`);
+	const isApi = pathname.startsWith("/api/") || /^\/[^/]+\/cdx$/.test(pathname);
+	if (isApi && API_TOKEN && req.headers.authorization !== `Bearer ${API_TOKEN}`) {
+		send(res, 401, { detail: "Unauthorized" });
+		return;
+	}
+
+	// ArchiveBox
+	if (req.method === "GET" && pathname === "/api/v1/core/snapshots") {
+		const url = searchParams.get("url");
+		const items = (snapshots.get(url) || []).map(snapshot => ({ url, timestamp: snapshot.unixTimestamp, title: snapshot.title }));
+		send(res, 200, { items: items.reverse().slice(0, Number(searchParams.get("limit")) || 10) });
+		return;
+	}
+	if (req.method === "POST" && pathname === "/api/v1/cli/add") {
+		const { urls = [] } = await readBody(req);
+		urls.forEach(captureLater);
+		send(res, 200, { success: true, result: urls });
+		return;
+	}
+	const archiveBoxPage = pathname.match(/^\/archive\/([\d.]+)\/?$/);
+	if (archiveBoxPage) {
+		const found = findSnapshot(snapshot => snapshot.unixTimestamp === archiveBoxPage[1]);
+		found ? sendPage(res, found.url, found.snapshot) : send(res, 404, "Not found", "text/plain");
+		return;
+	}
+
+	// Wallabag
+	if (req.method === "GET" && pathname === "/api/entries/exists.json") {
+		const list = snapshots.get(searchParams.get("url")) || [];
+		send(res, 200, { exists: list.length > 0 ? list[list.length - 1].id : false });
+		return;
+	}
+	const wallabagEntry = pathname.match(/^\/api\/entries\/(\d+)\.json$/);
+	if (req.method === "GET" && wallabagEntry) {
+		const found = findSnapshot(snapshot => snapshot.id === Number(wallabagEntry[1]));
+		found ? send(res, 200, { id: found.snapshot.id, url: found.url, title: found.snapshot.title, created_at: found.snapshot.date.toISOString() }) :
+			send(res, 404, "Not found", "text/plain");
+		return;
+	}
+	if (req.method === "POST" && pathname === "/api/entries.json") {
+		const { url } = await readBody(req);
+		if (!url) {
+			send(res, 400, { error: "url is required" });
+			return;
+		}
+		// Wallabag keeps one entry per URL and fetches the page before answering
+		const snapshot = snapshots.get(url)?.at(-1) || addSnapshot(url);
+		send(res, 200, { id: snapshot.id, url, title: snapshot.title, created_at: snapshot.date.toISOString() });
+		return;
+	}
+	const wallabagPage = pathname.match(/^\/view\/(\d+)\/?$/);
+	if (wallabagPage) {
+		const found = findSnapshot(snapshot => snapshot.id === Number(wallabagPage[1]));
+		found ? sendPage(res, found.url, found.snapshot) : send(res, 404, "Not found", "text/plain");
+		return;
+	}
+
+	// pywb: /<collection>/cdx, /<collection>/record/<url> and /<collection>/<timestamp>[modifier]/<url>
+	if (pathname.endsWith("/cdx")) {
+		const url = searchParams.get("url");
+		const rows = (snapshots.get(url) || []).map(snapshot => JSON.stringify({ urlkey: url, timestamp: snapshot.waybackTimestamp, url, status: "200" }));
+		send(res, 200, rows.join("\n"), "text/x-ndjson");
+		return;
+	}
+	const pywbPath = req.url.match(/^\/[^/]+\/(record|\d{14}[a-z_]*)\/(https?:\/\/.+)$/);
+	if (pywbPath) {
+		const [, mode, url] = pywbPath;
+		if (mode === "record") {
+			const snapshot = addSnapshot(url);
+			sendPage(res, url, snapshot);
+			return;
+		}
+		const found = (snapshots.get(url) || []).find(snapshot => snapshot.waybackTimestamp === mode.slice(0, 14));
+		found ? sendPage(res, url, found) : send(res, 404, "Not found", "text/plain");
+		return;
+	}
+
+	// Not JSON on purpose: real backends answer unknown paths with an HTML error page
+	send(res, 404, "Not found", "text/plain");
+}
+
+const server = createServer((req, res) => {
+	console.log(`${req.method} ${req.url}`);
+	handle(req, res).catch((error) => {
+		console.error(error);
+		send(res, 500, "Internal error", "text/plain");
+	});
+});
+// PORT=0 picks a free port; the line below says which
+server.listen(PORT, () => {
+	console.log(`Self-hosted archive stand-in listening on http://localhost:${server.address().port}`);
+});
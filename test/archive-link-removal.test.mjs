@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createPlugin } from "./helpers.mjs";
+
+const archiveUrl = "https://web.archive.org/web/20240101000000/https://example.com/";
+const archived = `[Example](https://example.com/) | [(archived)](${archiveUrl})<!--archived-link-->`;
+
+// Apply changes in the order given, as applyLineChangesToFile does; multi-line changes span their oldLine
+function applyChanges(note, changes) {
+	const lines = note.split("\n");
+	for (const change of changes) {
+		lines.splice(change.line, change.oldLine.split("\n").length, ...change.newLine.split("\n"));
+	}
+	return lines;
+}
+
+test("removing archive links leaves code and math alone", async () => {
+	const plugin = await createPlugin();
+	const note = [
+		archived,
+		"",
+		"```markdown",
+		archived,
+		"```",
+		"",
+		"~~~",
+		archived,
+		"~~~",
+		"",
+		`    ${archived}`,
+		"",
+		"$$",
+		archived,
+		"$$",
+		"",
+		`[^a1]: Archived at [Wayback](${archiveUrl})`,
+		"```",
+		`[^a2]: Archived at [Wayback](${archiveUrl})`,
+		"```"
+	].join("\n");
+
+	const lines = applyChanges(note, plugin.collectArchiveLinkRemovals("note.md", note));
+
+	// The archive link and footnote in prose go; the ones in code and math stay as written
+	const expected = note.split("\n");
+	expected.splice(15, 2);
+	expected[0] = "[Example](https://example.com/)";
+	assert.deepEqual(lines, expected);
+});
+
+test("removing archive links drops the archive footnotes outside code", async () => {
+	const plugin = await createPlugin();
+	const note = [
+		"[Example](https://example.com/)[^a1]",
+		"",
+		`[^a1]: Archived at [Wayback](${archiveUrl})`
+	].join("\n");
+
+	const lines = applyChanges(note, plugin.collectArchiveLinkRemovals("note.md", note));
+
+	assert.deepEqual(lines, ["[Example](https://example.com/)"]);
+});
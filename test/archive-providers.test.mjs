@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createPlugin } from "./helpers.mjs";
+
+test("archives in settings with a malformed URL are skipped while loading", async () => {
+	const plugin = await createPlugin({
+		settings: {
+			mementoArchives: [
+				{ name: "Broken", timeMapUrl: "http://exa mple.com/timemap/link/", timeGateUrl: "" },
+				{ name: "Arquivo", timeMapUrl: "https://arquivo.pt/wayback/timemap/link/", timeGateUrl: "" }
+			],
+			selfHostedArchives: [
+				{ kind: "archivebox", name: "Broken box", baseUrl: "http://exa mple.com", apiToken: "", collection: "" },
+				{ kind: "wallabag", name: "Team", baseUrl: "https://wallabag.example.com", apiToken: "", collection: "" }
+			],
+			archiveServices: ["memento:Broken", "memento:Arquivo", "archivebox:Broken box", "wallabag:Team"]
+		}
+	});
+
+	const ids = plugin.getArchiveProviders().map(provider => provider.id);
+	assert.ok(ids.includes("memento:Arquivo"));
+	assert.ok(ids.includes("wallabag:Team"));
+	assert.ok(!ids.includes("memento:Broken"));
+	assert.ok(!ids.includes("archivebox:Broken box"));
+	assert.deepEqual(plugin.settings.archiveServices, ["memento:Arquivo", "wallabag:Team"]);
+});
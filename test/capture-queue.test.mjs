@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createPlugin, obsidian } from "./helpers.mjs";
+
+const queueFile = ".obsidian/plugins/link-archiver/capture-queue.json";
+const settings = { autoResumeArchiveJobs: false, rateLimitCooldownMinutes: 30 };
+
+test("rate-limited captures are kept on disk and can be resumed after a restart", async () => {
+	const plugin = await createPlugin({
+		files: { "a.md": "See https://example.com/one and https://example.com/two" },
+		settings
+	});
+	plugin.getCaptureService = () => ({
+		name: "Save Page Now",
+		capture: async () => {
+			throw { status: 429, message: "Save Page Now rate limit reached" };
+		}
+	});
+	plugin.queueCapture("a.md", "https://example.com/one");
+	plugin.queueCapture("a.md", "https://example.com/two");
+	await plugin.processCaptureQueue();
+
+	const saved = JSON.parse(await plugin.app.vault.adapter.read(queueFile));
+	assert.deepEqual(saved.items.map(item => item.url), ["https://example.com/one", "https://example.com/two"]);
+	assert.ok(saved.resumeAt > Date.now() + 29 * 60 * 1000);
+	assert.ok(obsidian.notices.some(notice => notice.includes('Use "Resume capture queue" to continue.')));
+
+	// Obsidian restarts; the queue comes back and the command runs it before the cooldown is over
+	const restarted = await createPlugin({ app: plugin.app, settings });
+	restarted.getCaptureService = () => ({
+		name: "Save Page Now",
+		capture: async (url) => `https://web.archive.org/web/20240101000000/${url}`
+	});
+	await restarted.processCaptureQueue();
+	assert.equal(await restarted.app.vault.read(restarted.app.vault.getAbstractFileByPath("a.md")), "See https://example.com/one and https://example.com/two");
+
+	await restarted.resumeCaptureQueue();
+	const note = await restarted.app.vault.read(restarted.app.vault.getAbstractFileByPath("a.md"));
+	assert.ok(note.includes("https://web.archive.org/web/20240101000000/https://example.com/one"));
+	assert.ok(note.includes("https://web.archive.org/web/20240101000000/https://example.com/two"));
+	assert.equal(await restarted.app.vault.adapter.exists(queueFile), false);
+});
@@ -0,0 +1,55 @@
+// Loads main.ts for the tests: bundled with esbuild, with test/obsidian.cjs in place of the Obsidian runtime.
+
+import { build } from "esbuild";
+import { createRequire } from "node:module";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const require = createRequire(import.meta.url);
+const obsidian = require("./obsidian.cjs");
+
+let pluginClass = null;
+
+async function loadPluginClass() {
+	if (pluginClass) {
+		return pluginClass;
+	}
+	const outdir = mkdtempSync(join(tmpdir(), "link-archiver-test-"));
+	const outfile = join(outdir, "main.cjs");
+	try {
+		await build({
+			entryPoints: [join(root, "main.ts")],
+			outfile,
+			bundle: true,
+			platform: "node",
+			format: "cjs",
+			logLevel: "error",
+			plugins: [{
+				name: "obsidian-stand-in",
+				setup(context) {
+					// Left external so the tests share the module, and its notices, with the bundle
+					context.onResolve({ filter: /^obsidian$/ }, () => ({ path: join(root, "test", "obsidian.cjs"), external: true }));
+				}
+			}]
+		});
+		pluginClass = require(outfile).default;
+	} finally {
+		rmSync(outdir, { recursive: true, force: true });
+	}
+	return pluginClass;
+}
+
+// A loaded plugin over an in-memory vault holding files (path -> content), with settings applied on top of the
+// defaults. Pass the app of an earlier plugin to load again over its vault, as after a restart.
+export async function createPlugin({ files = {}, settings = {}, app = new obsidian.App(files) } = {}) {
+	const LinkArchiverPlugin = await loadPluginClass();
+	const plugin = new LinkArchiverPlugin(app, { id: "link-archiver", dir: ".obsidian/plugins/link-archiver", version: "test" });
+	plugin.data = settings;
+	await plugin.onload();
+	return plugin;
+}
+
+export { obsidian };
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createPlugin } from "./helpers.mjs";
+
+const plugin = await createPlugin();
+const urls = (line) => plugin.extractLinksFromLine(line).map(link => link.originalUrl);
+
+test("markdown links keep balanced parentheses in the URL", () => {
+	const line = "Read [Foo](https://en.wikipedia.org/wiki/Foo_(bar)) first.";
+	const [link] = plugin.extractLinksFromLine(line);
+
+	assert.equal(link.originalUrl, "https://en.wikipedia.org/wiki/Foo_(bar)");
+	assert.equal(line.slice(link.end), " first.");
+});
+
+test("naked URLs leave out the parenthesis around them", () => {
+	assert.deepEqual(urls("(see https://example.com/page)"), ["https://example.com/page"]);
+	assert.deepEqual(urls("(see https://example.com/page)."), ["https://example.com/page"]);
+	assert.deepEqual(urls("https://en.wikipedia.org/wiki/Foo_(bar), and more"), ["https://en.wikipedia.org/wiki/Foo_(bar)"]);
+	assert.deepEqual(urls("(https://en.wikipedia.org/wiki/Foo_(bar))"), ["https://en.wikipedia.org/wiki/Foo_(bar)"]);
+});
+
+test("an image inside a link is part of the link text", () => {
+	const line = "[![logo](https://example.com/logo.png)](https://example.com/)";
+	const links = plugin.extractLinksFromLine(line);
+
+	assert.equal(links.length, 1);
+	assert.equal(links[0].originalUrl, "https://example.com/");
+	assert.equal(links[0].fullMatch, line);
+});
+
+test("a link with parentheses pairs with its archive link", () => {
+	const original = "[Foo](https://en.wikipedia.org/wiki/Foo_(bar))";
+	const archive = "[(archived)](https://web.archive.org/web/20240101000000/https://en.wikipedia.org/wiki/Foo_(bar))";
+	const [pair] = plugin.pairArchiveLinks(`${original} | ${archive}<!--archived-link-->`);
+
+	assert.equal(pair.link.originalUrl, "https://en.wikipedia.org/wiki/Foo_(bar)");
+	assert.equal(pair.companion.originalUrl, "https://web.archive.org/web/20240101000000/https://en.wikipedia.org/wiki/Foo_(bar)");
+	assert.equal(plugin.removeArchiveCompanions(`${original} | ${archive}<!--archived-link--> end`), `${original} end`);
+});
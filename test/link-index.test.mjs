@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createPlugin } from "./helpers.mjs";
+
+test("the link index note is written through the vault, and only when it changed", async () => {
+	const plugin = await createPlugin({
+		files: { "a.md": "See https://example.com/one" },
+		settings: { maintainLinkIndex: true, linkIndexPath: "Indexes/Links.md" }
+	});
+	const vault = plugin.app.vault;
+	const writes = [];
+	for (const method of ["create", "modify"]) {
+		const original = vault[method].bind(vault);
+		vault[method] = (file, content) => {
+			writes.push(method);
+			return original(file, content);
+		};
+	}
+	const adapterWrite = vault.adapter.write;
+	vault.adapter.write = (path, content) => {
+		writes.push(`adapter ${path}`);
+		return adapterWrite(path, content);
+	};
+
+	await plugin.rebuildLinkIndex();
+	assert.deepEqual(writes, ["adapter .obsidian/plugins/link-archiver/link-index.json", "create"]);
+	assert.ok((await vault.read(vault.getAbstractFileByPath("Indexes/Links.md"))).includes("https://example.com/one"));
+
+	// Unloading with nothing new leaves the files alone
+	writes.length = 0;
+	plugin.onunload();
+	await plugin.saveLinkIndex();
+	assert.deepEqual(writes.filter(write => write === "modify" || write.includes("link-index")), []);
+
+	await vault.modify(vault.getAbstractFileByPath("a.md"), "See https://example.com/two");
+	plugin.indexNoteLinks("a.md", "See https://example.com/two");
+	writes.length = 0;
+	await plugin.saveLinkIndex();
+	assert.deepEqual(writes, ["adapter .obsidian/plugins/link-archiver/link-index.json", "modify"]);
+	assert.ok((await vault.read(vault.getAbstractFileByPath("Indexes/Links.md"))).includes("https://example.com/two"));
+});
@@ -0,0 +1,232 @@
+// Stand-in for the Obsidian runtime, which only exists inside the app. The tests bundle main.ts with this in
+// place of the "obsidian" module (see helpers.mjs). It covers what the plugin calls while loading and what the
+// tests drive; views and modals are inert. Frontmatter is read and written as JSON, which is valid YAML.
+
+const moment = require("moment");
+
+class Events {
+	on() {
+		return {};
+	}
+	offref() {}
+}
+
+class TAbstractFile {}
+
+class TFile extends TAbstractFile {
+	constructor(path) {
+		super();
+		this.path = path;
+		this.name = path.split("/").pop();
+		this.extension = this.name.includes(".") ? this.name.split(".").pop() : "";
+		this.basename = this.extension ? this.name.slice(0, -this.extension.length - 1) : this.name;
+		this.stat = { ctime: Date.now(), mtime: Date.now(), size: 0 };
+	}
+}
+
+class TFolder extends TAbstractFile {}
+
+function normalizePath(path) {
+	return path.replace(/\\/g, "/").replace(/\/+/g, "/").replace(/^\/|\/$/g, "") || "/";
+}
+
+// In-memory vault. Notes are TFiles; the adapter reads and writes the same store by path.
+class Vault extends Events {
+	constructor(files = {}) {
+		super();
+		this.contents = new Map();
+		this.files = new Map();
+		this.folders = new Set();
+		for (const [path, content] of Object.entries(files)) {
+			this.write(path, content);
+		}
+		this.adapter = {
+			exists: async (path) => this.contents.has(normalizePath(path)) || this.folders.has(normalizePath(path)),
+			read: async (path) => {
+				if (!this.contents.has(normalizePath(path))) {
+					throw new Error(`ENOENT: ${path}`);
+				}
+				return this.contents.get(normalizePath(path));
+			},
+			write: async (path, content) => this.write(path, content),
+			remove: async (path) => {
+				this.contents.delete(normalizePath(path));
+				this.files.delete(normalizePath(path));
+			},
+			mkdir: async (path) => this.folders.add(normalizePath(path))
+		};
+	}
+
+	write(path, content) {
+		path = normalizePath(path);
+		this.contents.set(path, content);
+		if (!this.files.has(path)) {
+			this.files.set(path, new TFile(path));
+		}
+		return this.files.get(path);
+	}
+
+	getAbstractFileByPath(path) {
+		return this.files.get(normalizePath(path)) || null;
+	}
+	getMarkdownFiles() {
+		return [...this.files.values()].filter(file => file.extension === "md");
+	}
+	getFiles() {
+		return [...this.files.values()];
+	}
+	async read(file) {
+		return this.contents.get(file.path);
+	}
+	async cachedRead(file) {
+		return this.contents.get(file.path);
+	}
+	async modify(file, content) {
+		this.contents.set(file.path, content);
+	}
+	async create(path, content) {
+		if (this.contents.has(normalizePath(path))) {
+			throw new Error("File already exists.");
+		}
+		return this.write(path, content);
+	}
+	async createFolder(path) {
+		this.folders.add(normalizePath(path));
+	}
+}
+
+class Workspace extends Events {
+	onLayoutReady() {}
+	getActiveFile() {
+		return null;
+	}
+	getActiveViewOfType() {
+		return null;
+	}
+	getLeavesOfType() {
+		return [];
+	}
+}
+
+class App {
+	constructor(files) {
+		this.vault = new Vault(files);
+		this.workspace = new Workspace();
+		this.metadataCache = Object.assign(new Events(), { getFileCache: () => null });
+	}
+}
+
+class Component {
+	registerEvent() {}
+	registerDomEvent() {}
+	registerInterval(id) {
+		return id;
+	}
+}
+
+class Plugin extends Component {
+	constructor(app, manifest) {
+		super();
+		this.app = app;
+		this.manifest = manifest;
+		this.data = null;
+	}
+	async loadData() {
+		return this.data;
+	}
+	async saveData(data) {
+		this.data = JSON.parse(JSON.stringify(data));
+	}
+	addCommand(command) {
+		return command;
+	}
+	addSettingTab() {}
+	addRibbonIcon() {
+		return { remove() {} };
+	}
+	addStatusBarItem() {
+		return { setText() {}, show() {}, hide() {}, addClass() {}, addEventListener() {}, onClickEvent() {} };
+	}
+	registerView() {}
+}
+
+class Inert {
+	constructor() {}
+	open() {}
+	close() {}
+}
+
+// Notices are collected so tests can check what the user was told
+const notices = [];
+class Notice {
+	constructor(message) {
+		notices.push(message);
+	}
+	setMessage(message) {
+		notices.push(message);
+		return this;
+	}
+	hide() {}
+}
+
+async function requestUrl(request) {
+	const options = typeof request === "string" ? { url: request } : request;
+	const headers = { ...options.headers };
+	if (options.contentType) {
+		headers["Content-Type"] = options.contentType;
+	}
+	const response = await fetch(options.url, { method: options.method || "GET", headers, body: options.body });
+	const arrayBuffer = await response.arrayBuffer();
+	const text = Buffer.from(arrayBuffer).toString("utf8");
+	if (options.throw !== false && response.status >= 400) {
+		throw Object.assign(new Error(`Request failed, status ${response.status}`), { status: response.status });
+	}
+	return {
+		status: response.status,
+		headers: Object.fromEntries(response.headers),
+		arrayBuffer,
+		text,
+		get json() {
+			return JSON.parse(text);
+		}
+	};
+}
+
+function debounce(callback) {
+	const debounced = (...args) => {
+		callback(...args);
+		return debounced;
+	};
+	debounced.cancel = () => debounced;
+	debounced.run = () => undefined;
+	return debounced;
+}
+
+module.exports = {
+	App,
+	Editor: class {},
+	MarkdownView: class {},
+	Notice,
+	notices,
+	Plugin,
+	PluginSettingTab: Inert,
+	Setting: Inert,
+	Modal: Inert,
+	ItemView: Inert,
+	WorkspaceLeaf: class {},
+	ButtonComponent: Inert,
+	ExtraButtonComponent: Inert,
+	DropdownComponent: Inert,
+	TextComponent: Inert,
+	TAbstractFile,
+	TFile,
+	TFolder,
+	requestUrl,
+	getAllTags: () => [],
+	debounce,
+	normalizePath,
+	moment,
+	parseYaml: (text) => text.trim() ? JSON.parse(text) : null,
+	stringifyYaml: (value) => `${JSON.stringify(value)}\n`,
+	arrayBufferToBase64: (buffer) => Buffer.from(buffer).toString("base64")
+};
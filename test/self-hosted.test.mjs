@@ -0,0 +1,62 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createPlugin } from "./helpers.mjs";
+
+const standIn = join(dirname(fileURLToPath(import.meta.url)), "..", "scripts", "self-hosted-stand-in.mjs");
+const apiToken = "secret";
+
+let server = null;
+let baseUrl = "";
+
+// The stand-in on a free port, with captures that finish right away
+before(async () => {
+	server = spawn(process.execPath, [standIn], {
+		env: { ...process.env, PORT: "0", API_TOKEN: apiToken, CAPTURE_DELAY: "0" },
+		stdio: ["ignore", "pipe", "inherit"]
+	});
+	server.stdout.setEncoding("utf8");
+	let output = "";
+	while (!baseUrl) {
+		const [chunk] = await once(server.stdout, "data");
+		output += chunk;
+		baseUrl = output.match(/listening on (http:\/\/\S+)/)?.[1] || "";
+	}
+	server.stdout.resume();
+});
+
+after(() => {
+	server?.kill();
+});
+
+async function loadProvider(kind, token = apiToken) {
+	const plugin = await createPlugin({
+		settings: { selfHostedArchives: [{ kind, name: "Team", baseUrl, apiToken: token, collection: "team" }] }
+	});
+	return plugin.archiveProviders.get(`${kind}:Team`);
+}
+
+for (const kind of ["archivebox", "pywb", "wallabag"]) {
+	test(`${kind}: lookup, capture, lookup`, async () => {
+		const provider = await loadProvider(kind);
+		const url = `https://example.com/${kind}`;
+
+		assert.deepEqual(await provider.getSnapshots(url), []);
+
+		const snapshotUrl = await provider.capture(url);
+		assert.ok(provider.isSnapshotUrl(snapshotUrl), snapshotUrl);
+
+		const snapshots = await provider.getSnapshots(url);
+		assert.equal(snapshots.length, 1);
+		assert.equal(snapshots[0].url, snapshotUrl);
+		assert.ok((await fetch(snapshotUrl)).ok);
+	});
+
+	test(`${kind}: a wrong API token is reported`, async () => {
+		const provider = await loadProvider(kind, "wrong");
+		await assert.rejects(provider.getSnapshots("https://example.com/"), /rejected the API token/);
+	});
+}